@@ -3,19 +3,78 @@
 /**
  * RobloxTS MCP Server CLI
  * Allows running the server from command line
+ *
+ * Usage: roblox-ts-mcp [--project <dir>] [--http] [--transport stdio|http] [--port <n>] [--host <addr>] [--token <token>]
+ *                      [--session-timeout <seconds>]
+ * Each flag maps to an environment variable (MCP_PROJECT_ROOT, MCP_TRANSPORT,
+ * MCP_HTTP_PORT, MCP_HTTP_HOST, MCP_HTTP_TOKEN, MCP_HTTP_SESSION_TIMEOUT), which can be used instead.
  */
 
 const { spawn } = require('child_process');
 const path = require('path');
 
+const USAGE = `Usage: roblox-ts-mcp [options]
+
+Options:
+  --project <dir>           roblox-ts project the tools default to (env: MCP_PROJECT_ROOT)
+  --http                    Serve over HTTP instead of stdio (same as --transport http)
+  --transport <stdio|http>  Transport to use (env: MCP_TRANSPORT, default: stdio)
+  --port <n>                HTTP port (env: MCP_HTTP_PORT, default: 3000)
+  --host <addr>             HTTP bind address (env: MCP_HTTP_HOST, default: 127.0.0.1)
+  --token <token>           Require "Authorization: Bearer <token>" (env: MCP_HTTP_TOKEN);
+                            needed to bind to anything but a loopback address
+  --session-timeout <s>     Close HTTP sessions idle this many seconds (env: MCP_HTTP_SESSION_TIMEOUT, default: 1800)
+  -h, --help                Show this help`;
+
+const FLAG_ENV = {
+  '--project': 'MCP_PROJECT_ROOT',
+  '--transport': 'MCP_TRANSPORT',
+  '--port': 'MCP_HTTP_PORT',
+  '--host': 'MCP_HTTP_HOST',
+  '--token': 'MCP_HTTP_TOKEN',
+  '--session-timeout': 'MCP_HTTP_SESSION_TIMEOUT',
+};
+
+function parseArgs(argv) {
+  const env = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (arg === '--http') {
+      env.MCP_TRANSPORT = 'http';
+      continue;
+    }
+
+    const [flag, inline] = arg.split(/=(.*)/s);
+    const name = FLAG_ENV[flag];
+    const value = inline !== undefined ? inline : argv[++i];
+    if (!name || value === undefined) {
+      console.error(name ? `Missing value for ${flag}` : `Unknown option: ${arg}`);
+      console.error(USAGE);
+      process.exit(1);
+    }
+    env[name] = name === 'MCP_PROJECT_ROOT' ? path.resolve(value) : value;
+  }
+  return env;
+}
+
 // Get the server path (go up one level from bin to find dist)
 const serverPath = path.join(__dirname, '..', 'dist', 'server.js');
 
 // Start the server
 const server = spawn('node', [serverPath], {
-  stdio: 'inherit'
+  stdio: 'inherit',
+  env: { ...process.env, ...parseArgs(process.argv.slice(2)) }
 });
 
+// Let the server close its sessions before exiting
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => server.kill(signal));
+}
+
 server.on('error', (error) => {
   console.error('Failed to start RobloxTS MCP Server:', error);
   process.exit(1);
@@ -0,0 +1,307 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// Zod schema for transport configuration
+const HttpEnvSchema = z.object({
+  MCP_TRANSPORT: z.enum(['stdio', 'http']).optional(),
+  MCP_HTTP_PORT: z
+    .string()
+    .transform((v) => (v ? Number(v) : undefined))
+    .pipe(z.number().int().min(0).max(65535).optional())
+    .optional(),
+  MCP_HTTP_HOST: z.string().optional(),
+  MCP_HTTP_TOKEN: z.string().optional(),
+  MCP_HTTP_SESSION_TIMEOUT: z
+    .string()
+    .transform((v) => (v ? Number(v) : undefined))
+    .pipe(z.number().positive().optional())
+    .optional(),
+});
+
+export type TransportKind = 'stdio' | 'http';
+
+export type HttpServerConfig = {
+  port: number;
+  host: string;
+  /** When set, every request must carry `Authorization: Bearer <token>` */
+  token?: string;
+  /** Streamable HTTP sessions with no request for this long are closed (default 30 minutes) */
+  sessionIdleMs?: number;
+};
+
+export type TransportConfig = {
+  transport: TransportKind;
+  http: HttpServerConfig;
+};
+
+export function loadTransportConfigFromEnv(env = process.env): TransportConfig {
+  const parsed = HttpEnvSchema.safeParse(env);
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid transport configuration: ${message}`);
+  }
+
+  const { MCP_TRANSPORT, MCP_HTTP_PORT, MCP_HTTP_HOST, MCP_HTTP_TOKEN, MCP_HTTP_SESSION_TIMEOUT } = parsed.data;
+
+  return {
+    transport: MCP_TRANSPORT ?? 'stdio',
+    http: {
+      port: MCP_HTTP_PORT ?? 3000,
+      host: MCP_HTTP_HOST || '127.0.0.1',
+      token: MCP_HTTP_TOKEN || undefined,
+      sessionIdleMs: MCP_HTTP_SESSION_TIMEOUT !== undefined ? MCP_HTTP_SESSION_TIMEOUT * 1000 : undefined,
+    },
+  };
+}
+
+export interface RunningHttpServer {
+  url: string;
+  /** Close every open session, then stop listening */
+  close(): Promise<void>;
+}
+
+type Session = {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  /** Requests (including open SSE streams) still in progress */
+  active: number;
+  lastSeen: number;
+};
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+function isWildcard(host: string): boolean {
+  return host === '0.0.0.0' || host === '::';
+}
+
+/**
+ * Host headers a request may carry. Checking them stops DNS rebinding, where a
+ * web page re-points its own domain at the server's address to call it from
+ * the browser. Wildcard binds have no fixed name and rely on the token instead.
+ */
+function allowedHostHeaders(host: string, port: number): string[] | undefined {
+  if (isWildcard(host)) return undefined;
+  const names = isLoopback(host) ? ['localhost', '127.0.0.1', '[::1]'] : [host.includes(':') ? `[${host}]` : host];
+  return names.map((name) => `${name}:${port}`);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch (error) {
+        reject(new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Serve MCP over HTTP. Each client session gets its own `Server` from
+ * `createMcpServer`, since a server instance can only be connected to one transport.
+ *
+ * - `/mcp`: streamable HTTP (POST requests, GET for the SSE notification stream, DELETE to end the session)
+ * - `/sse` + `/messages`: the older HTTP+SSE transport, for clients that do not support streamable HTTP yet
+ *
+ * Without a token the server only binds to loopback addresses, and requests
+ * whose Host header does not name the bound address are refused.
+ */
+export async function startHttpServer(createMcpServer: () => Server, config: HttpServerConfig): Promise<RunningHttpServer> {
+  if (!config.token && !isLoopback(config.host)) {
+    throw new Error(`Refusing to serve on ${config.host} without a token; set --token (MCP_HTTP_TOKEN) or bind to 127.0.0.1`);
+  }
+
+  const sessions = new Map<string, Session>();
+  // Set once listening, when the port is known
+  let allowedHosts: string[] | undefined;
+  const rebindingProtection = () => ({ enableDnsRebindingProtection: allowedHosts !== undefined, allowedHosts });
+
+  // Count a request against its session so the idle sweep leaves busy sessions alone
+  const track = (session: Session, res: ServerResponse) => {
+    session.active++;
+    session.lastSeen = Date.now();
+    res.once('close', () => {
+      session.active--;
+      session.lastSeen = Date.now();
+    });
+  };
+
+  const connect = async (transport: Session['transport']): Promise<Server> => {
+    const server = createMcpServer();
+    await server.connect(transport);
+    return server;
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+    if (existing && !(existing.transport instanceof StreamableHTTPServerTransport)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: session belongs to the SSE transport');
+      return;
+    }
+
+    if (existing) track(existing, res);
+
+    if (req.method !== 'POST') {
+      if (!existing) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+      await (existing.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    if (existing) {
+      await (existing.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId !== undefined || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    let server: Server | undefined;
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server: server!, active: 0, lastSeen: Date.now() });
+      },
+      ...rebindingProtection(),
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    server = await connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleLegacySse = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      const transport = new SSEServerTransport('/messages', res, rebindingProtection());
+      // The session lasts as long as its stream, so it is never idle
+      sessions.set(transport.sessionId, { transport, server: await connect(transport), active: 1, lastSeen: Date.now() });
+      res.on('close', () => {
+        sessions.delete(transport.sessionId);
+      });
+      return;
+    }
+
+    const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+    if (req.method !== 'POST' || !session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (config.token && !isAuthorized(req, config.token)) {
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    let handled: Promise<void>;
+    if (url.pathname === '/mcp') {
+      handled = handleStreamable(req, res);
+    } else if (url.pathname === '/sse' || url.pathname === '/messages') {
+      handled = handleLegacySse(req, res, url);
+    } else {
+      sendJsonRpcError(res, 404, -32601, `Not found: ${url.pathname}`);
+      return;
+    }
+
+    handled.catch((error) => {
+      console.error('[MCP HTTP Error]', error);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : config.port;
+  const host = config.host.includes(':') ? `[${config.host}]` : config.host;
+  allowedHosts = allowedHostHeaders(config.host, port);
+
+  // Clients that vanish without ending their session would otherwise keep its Server forever
+  const idleMs = config.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.active > 0 || now - session.lastSeen < idleMs) continue;
+      sessions.delete(id);
+      session.server.close().catch((error) => console.error('[MCP HTTP Error]', error));
+    }
+  }, Math.min(idleMs, 60_000));
+  sweep.unref();
+
+  return {
+    url: `http://${host}:${port}`,
+    close: async () => {
+      clearInterval(sweep);
+      const open = [...sessions.values()];
+      sessions.clear();
+      await Promise.allSettled(open.map(({ server }) => server.close()));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        // SSE streams keep connections open; end whatever is left
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -6,6 +6,7 @@ import {
   ErrorCode,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
+import { InstalledPackage } from './project/context.js';
 
 /**
  * Package-specific assistance tools for @rbxts packages
@@ -15,6 +16,7 @@ import { z } from 'zod';
 const PackageAnalyzeSchema = z.object({
   packageName: z.string().describe('Name of the @rbxts package to analyze'),
   codeContext: z.string().optional().describe('Existing code context for better assistance'),
+  projectRoot: z.string().optional().describe('roblox-ts project whose installed version of the package to report'),
 });
 
 const PackageIntegrationSchema = z.object({
@@ -31,6 +33,7 @@ const PackageTroubleshootSchema = z.object({
   packageName: z.string().describe('Package experiencing issues'),
   errorMessage: z.string().optional().describe('Error message if any'),
   codeSnippet: z.string().describe('Code that is causing issues'),
+  projectRoot: z.string().optional().describe('roblox-ts project whose installed version of the package to report'),
 });
 
 interface PackageInfo {
@@ -313,14 +316,37 @@ const allZones = ZoneController.getPlayerZones(player);`
   }
 };
 
+/**
+ * Describe the project's installed version of a package; `null` means the
+ * project does not depend on it
+ */
+function describeInstalledVersion(packageName: string, installed: InstalledPackage | null): string {
+  if (!installed) {
+    return `## 📦 Installed Version
+**Not a dependency of this project.** Install it with \`npm install ${packageName}\`.
+
+`;
+  }
+
+  const lines = [
+    `- **Declared:** \`${installed.declared}\`${installed.dev ? ' (devDependencies)' : ''}`,
+    `- **Installed:** ${installed.installed ? `\`${installed.installed}\`` : 'not found in node_modules - run `npm install`'}`,
+  ];
+  return `## 📦 Installed Version
+${lines.join('\n')}
+
+`;
+}
+
 /**
  * Analyze a specific @rbxts package and provide detailed assistance
  */
-function analyzePackage(packageName: string, codeContext?: string): string {
+function analyzePackage(packageName: string, codeContext?: string, installed?: InstalledPackage | null): string {
   const knowledge = PACKAGE_KNOWLEDGE[packageName as keyof typeof PACKAGE_KNOWLEDGE];
+  const installedSection = installed === undefined ? '' : describeInstalledVersion(packageName, installed);
   
   if (!knowledge) {
-    return `Package "${packageName}" not found in knowledge base. 
+    return `${installedSection}Package "${packageName}" not found in knowledge base. 
 
 Available packages:
 ${Object.keys(PACKAGE_KNOWLEDGE).map(pkg => `- ${pkg}`).join('\n')}
@@ -330,7 +356,7 @@ For comprehensive assistance, try one of the supported packages above.`;
 
   const analysis = `# ${packageName} Analysis & Assistance
 
-## 📖 Overview
+${installedSection}## 📖 Overview
 ${knowledge.description}
 
 ## 🏗️ Core Types
@@ -0,0 +1,238 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as ts from 'typescript';
+import {
+  AnalysisContext,
+  SERVICES_MODULE,
+  createAnalysisContext,
+  isGameExpression,
+  isGetServiceCall,
+  stringArgument,
+} from '../tool/lint-rules.js';
+import { ProjectContext, inferBuildTarget } from './context.js';
+
+/** APIs that only exist (or only work) on the server */
+export const SERVER_ONLY_APIS = ['DataStoreService', 'ServerStorage', 'ProfileStore', 'HttpService'] as const;
+
+/** APIs that only exist on the client */
+export const CLIENT_ONLY_APIS = ['UserInputService', 'PlayerGui'] as const;
+
+const PROFILE_STORE_MODULE = '@rbxts/profile-store';
+const CHILD_LOOKUPS = new Set(['WaitForChild', 'FindFirstChild', 'FindFirstChildOfClass', 'FindFirstChildWhichIsA']);
+
+export interface ApiUsage {
+  api: string;
+  /** Project-relative file, forward slashes */
+  file: string;
+  line: number;
+  column: number;
+  text: string;
+}
+
+export interface BoundaryFinding {
+  kind: 'server-api-on-client' | 'client-api-on-server';
+  api: string;
+  /** Module that touches the API */
+  module: string;
+  /** Import chain from a client (or server) entry point down to `module` */
+  chain: string[];
+  usage: ApiUsage;
+}
+
+export interface BoundaryReport {
+  filesScanned: number;
+  clientEntries: number;
+  serverEntries: number;
+  findings: BoundaryFinding[];
+  /** Files that could not be mapped to a side, so nothing starts from them */
+  unmapped: string[];
+}
+
+interface ModuleInfo {
+  file: string;
+  imports: string[];
+  usages: ApiUsage[];
+}
+
+async function listSourceFiles(dir: string): Promise<string[]> {
+  let entries: import('fs').Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules') files.push(...await listSourceFiles(full));
+    } else if (/\.tsx?$/.test(entry.name) && !entry.name.endsWith('.d.ts')) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+function readCompilerOptions(root: string): ts.CompilerOptions {
+  const configPath = path.join(root, 'tsconfig.json');
+  const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+  return ts.parseJsonConfigFileContent(config ?? {}, ts.sys, root, undefined, configPath).options;
+}
+
+/**
+ * Module specifiers whose values are used at runtime; type-only imports are
+ * erased by the compiler and cannot leak anything
+ */
+function runtimeImports(sourceFile: ts.SourceFile): string[] {
+  const specifiers: string[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      if (!node.importClause?.isTypeOnly) specifiers.push(node.moduleSpecifier.text);
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      if (!node.isTypeOnly) specifiers.push(node.moduleSpecifier.text);
+    } else if (
+      ts.isCallExpression(node)
+      && node.expression.kind === ts.SyntaxKind.ImportKeyword
+      && node.arguments[0]
+      && ts.isStringLiteralLike(node.arguments[0])
+    ) {
+      specifiers.push(node.arguments[0].text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return specifiers;
+}
+
+function isTypeOnlySpecifier(node: ts.ImportSpecifier): boolean {
+  return node.isTypeOnly || node.parent.parent.isTypeOnly;
+}
+
+/**
+ * The first use of each watched API in a file
+ */
+function findApiUsages(ctx: AnalysisContext, file: string, apis: Set<string>): ApiUsage[] {
+  const sourceFile = ctx.sourceFile;
+  const found = new Map<string, ApiUsage>();
+  const record = (api: string, node: ts.Node) => {
+    if (!apis.has(api) || found.has(api)) return;
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    found.set(api, { api, file, line: line + 1, column: character + 1, text: node.getText(sourceFile).split('\n')[0].slice(0, 120) });
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const module = node.moduleSpecifier.text;
+      if (module === PROFILE_STORE_MODULE && !node.importClause?.isTypeOnly) record('ProfileStore', node);
+      if (module === SERVICES_MODULE && node.importClause?.namedBindings && ts.isNamedImports(node.importClause.namedBindings)) {
+        for (const element of node.importClause.namedBindings.elements) {
+          if (!isTypeOnlySpecifier(element)) record((element.propertyName ?? element.name).text, element);
+        }
+      }
+      return;
+    }
+
+    if (ts.isCallExpression(node)) {
+      if (isGetServiceCall(ctx, node)) {
+        const service = stringArgument(node);
+        if (service) record(service, node);
+      } else if (ts.isPropertyAccessExpression(node.expression) && CHILD_LOOKUPS.has(node.expression.name.text)) {
+        // player.WaitForChild("PlayerGui")
+        const name = stringArgument(node);
+        if (name) record(name, node);
+      }
+    } else if (ts.isPropertyAccessExpression(node)) {
+      // game.ServerStorage, player.PlayerGui
+      if (isGameExpression(ctx, node.expression) || node.name.text === 'PlayerGui') {
+        record(node.name.text, node);
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return [...found.values()];
+}
+
+/**
+ * Shortest import chain from any of `roots` to every reachable module
+ */
+function reachableFrom(roots: string[], modules: Map<string, ModuleInfo>): Map<string, string[]> {
+  const chains = new Map<string, string[]>();
+  const queue: string[] = [];
+  for (const root of roots) {
+    chains.set(root, [root]);
+    queue.push(root);
+  }
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of modules.get(current)?.imports ?? []) {
+      if (chains.has(next)) continue;
+      chains.set(next, [...chains.get(current)!, next]);
+      queue.push(next);
+    }
+  }
+  return chains;
+}
+
+/**
+ * Walk the import graph of a roblox-ts project and report server-only APIs
+ * reachable from client code and client-only APIs reachable from server code.
+ * Entry points are classified with the Rojo mapping of each file.
+ */
+export async function analyzeBoundaries(ctx: ProjectContext): Promise<BoundaryReport> {
+  const sourceRoot = path.join(ctx.root, ctx.rootDir);
+  const files = (await listSourceFiles(sourceRoot)).sort();
+  const options = readCompilerOptions(ctx.root);
+  const host = ts.createCompilerHost(options);
+  const watched = new Set<string>([...SERVER_ONLY_APIS, ...CLIENT_ONLY_APIS]);
+  const relative = (file: string) => path.relative(ctx.root, file).split(path.sep).join('/');
+
+  const modules = new Map<string, ModuleInfo>();
+  for (const file of files) {
+    const text = await fs.readFile(file, 'utf-8');
+    const kind = file.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+    const sourceFile = ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true, kind);
+
+    const imports = new Set<string>();
+    for (const specifier of runtimeImports(sourceFile)) {
+      const resolved = ts.resolveModuleName(specifier, file, options, host).resolvedModule;
+      if (!resolved || resolved.isExternalLibraryImport || resolved.resolvedFileName.endsWith('.d.ts')) continue;
+      const target = path.resolve(resolved.resolvedFileName);
+      if (!path.relative(sourceRoot, target).startsWith('..')) imports.add(relative(target));
+    }
+
+    const name = relative(file);
+    modules.set(name, { file: name, imports: [...imports], usages: findApiUsages(createAnalysisContext(sourceFile), name, watched) });
+  }
+
+  const clientRoots: string[] = [];
+  const serverRoots: string[] = [];
+  const unmapped: string[] = [];
+  for (const name of modules.keys()) {
+    const target = inferBuildTarget(ctx, name)?.target;
+    if (target === 'client') clientRoots.push(name);
+    else if (target === 'server') serverRoots.push(name);
+    else if (target === undefined) unmapped.push(name);
+  }
+
+  const findings: BoundaryFinding[] = [];
+  const check = (kind: BoundaryFinding['kind'], roots: string[], apis: readonly string[]) => {
+    for (const [module, chain] of reachableFrom(roots, modules)) {
+      for (const usage of modules.get(module)?.usages ?? []) {
+        if (apis.includes(usage.api)) findings.push({ kind, api: usage.api, module, chain, usage });
+      }
+    }
+  };
+  check('server-api-on-client', clientRoots, SERVER_ONLY_APIS);
+  check('client-api-on-server', serverRoots, CLIENT_ONLY_APIS);
+
+  findings.sort((a, b) => a.kind.localeCompare(b.kind) || a.module.localeCompare(b.module) || a.api.localeCompare(b.api));
+  return {
+    filesScanned: modules.size,
+    clientEntries: clientRoots.length,
+    serverEntries: serverRoots.length,
+    findings,
+    unmapped,
+  };
+}
@@ -0,0 +1,196 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { z } from 'zod';
+import { BuildTarget } from '../tool/roblox-ts-compiler.js';
+import { collectPathMappings, findInstancePath, parseRojoProject, RojoPathMapping, DEFAULT_ROJO_PROJECT_FILE } from './rojo.js';
+
+// Zod schema for the project root setting
+const EnvSchema = z.object({
+  MCP_PROJECT_ROOT: z.string().optional(),
+});
+
+export interface InstalledPackage {
+  /** Version range from package.json */
+  declared: string;
+  /** Version found in node_modules, if installed */
+  installed?: string;
+  dev: boolean;
+}
+
+export interface ProjectContext {
+  root: string;
+  name?: string;
+  /** Rojo project file used for DataModel mappings (default.project.json) */
+  rojoProjectFile?: string;
+  rojoMappings: RojoPathMapping[];
+  rootDir: string;
+  outDir: string;
+  /** `@rbxts/*` dependencies keyed by package name */
+  packages: Record<string, InstalledPackage>;
+  /** Files that exist but could not be read or parsed */
+  problems: string[];
+}
+
+export interface DataModelLocation {
+  /** Instance names from the DataModel root */
+  instancePath: string[];
+  /** Script class roblox-ts emits for the file */
+  scriptClass: 'Script' | 'LocalScript' | 'ModuleScript';
+  /** Path Rojo reads, relative to the project root (the compiled output for source files) */
+  syncedPath: string;
+}
+
+export interface TargetInference {
+  target: BuildTarget;
+  /** Why the target was chosen: the file suffix or the Rojo location */
+  reason: string;
+  instancePath?: string[];
+}
+
+const SERVER_SERVICES = new Set(['ServerScriptService', 'ServerStorage']);
+const CLIENT_SERVICES = new Set(['StarterPlayer', 'StarterGui', 'StarterPack', 'ReplicatedFirst']);
+
+/**
+ * Project root configured for the server (`--project` / MCP_PROJECT_ROOT)
+ */
+export function loadProjectRootFromEnv(env = process.env): string | undefined {
+  const { MCP_PROJECT_ROOT } = EnvSchema.parse(env);
+  return MCP_PROJECT_ROOT ? path.resolve(MCP_PROJECT_ROOT) : undefined;
+}
+
+async function readJson(filePath: string, problems: string[]): Promise<any | undefined> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      problems.push(`${path.basename(filePath)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    problems.push(`${path.basename(filePath)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return undefined;
+  }
+}
+
+async function readInstalledVersion(root: string, packageName: string): Promise<string | undefined> {
+  try {
+    const pkg = JSON.parse(await fs.readFile(path.join(root, 'node_modules', packageName, 'package.json'), 'utf-8'));
+    return typeof pkg.version === 'string' ? pkg.version : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read default.project.json, tsconfig.json and package.json of a roblox-ts
+ * project. Missing files fall back to roblox-ts defaults; unreadable ones are
+ * listed in `problems` instead of failing the whole load.
+ */
+export async function loadProjectContext(projectRoot: string): Promise<ProjectContext> {
+  const root = path.resolve(projectRoot);
+  const stat = await fs.stat(root).catch(() => undefined);
+  if (!stat?.isDirectory()) {
+    throw new Error(`Project root ${root} is not a directory`);
+  }
+
+  const problems: string[] = [];
+
+  // tsconfig.json may contain comments, so let the compiler read it
+  let rootDir = 'src';
+  let outDir = 'out';
+  const tsconfigPath = path.join(root, 'tsconfig.json');
+  if (ts.sys.fileExists(tsconfigPath)) {
+    const { config, error } = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+    if (error) {
+      problems.push(`tsconfig.json: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    }
+    rootDir = config?.compilerOptions?.rootDir ?? rootDir;
+    outDir = config?.compilerOptions?.outDir ?? outDir;
+  }
+
+  const rojoProjectFile = DEFAULT_ROJO_PROJECT_FILE;
+  const rojoJson = await readJson(path.join(root, rojoProjectFile), problems);
+  let rojoMappings: RojoPathMapping[] | undefined;
+  if (rojoJson !== undefined) {
+    try {
+      rojoMappings = collectPathMappings(parseRojoProject(rojoJson, rojoProjectFile).tree);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  const pkg = await readJson(path.join(root, 'package.json'), problems);
+
+  const packages: Record<string, InstalledPackage> = {};
+  for (const [field, dev] of [['dependencies', false], ['devDependencies', true]] as const) {
+    for (const [name, declared] of Object.entries<string>(pkg?.[field] ?? {})) {
+      if (!name.startsWith('@rbxts/')) continue;
+      packages[name] = { declared, installed: await readInstalledVersion(root, name), dev };
+    }
+  }
+
+  return {
+    root,
+    name: pkg?.name,
+    rojoProjectFile: rojoMappings ? rojoProjectFile : undefined,
+    rojoMappings: rojoMappings ?? [],
+    rootDir: path.posix.normalize(rootDir),
+    outDir: path.posix.normalize(outDir),
+    packages,
+    problems,
+  };
+}
+
+/**
+ * Where a project file ends up in the DataModel. Files under rootDir are
+ * mapped through their compiled output in outDir; other paths (e.g.
+ * `include/Promise.lua`) are looked up as-is.
+ */
+export function resolveDataModelLocation(ctx: ProjectContext, filePath: string): DataModelLocation | undefined {
+  const absolute = path.resolve(ctx.root, filePath);
+  const sourceRelative = path.relative(path.join(ctx.root, ctx.rootDir), absolute);
+  const projectRelative = path.relative(ctx.root, absolute);
+  if (projectRelative.startsWith('..') || path.isAbsolute(projectRelative)) return undefined;
+
+  const isSource = !sourceRelative.startsWith('..') && !path.isAbsolute(sourceRelative);
+  const syncedPath = (isSource ? path.join(ctx.outDir, sourceRelative) : projectRelative).split(path.sep).join('/');
+  const instancePath = findInstancePath(ctx.rojoMappings, syncedPath);
+  if (!instancePath) return undefined;
+
+  const suffix = /\.(server|client)\.(tsx?|luau?)$/.exec(absolute)?.[1];
+  const scriptClass = suffix === 'server' ? 'Script' : suffix === 'client' ? 'LocalScript' : 'ModuleScript';
+  // roblox-ts emits `index.ts` as `init.luau`, and a `.d.ts` file describes the Luau file beside it
+  const compiledPath = syncedPath
+    .replace(/(^|\/)index((\.(server|client))?\.tsx?)$/, '$1init$2')
+    .replace(/(\.d)?\.tsx?$/, '.luau');
+  return { instancePath, scriptClass, syncedPath: compiledPath };
+}
+
+/**
+ * Decide whether a project file runs on the server, the client or both: a
+ * `.server.ts`/`.client.ts` suffix wins, otherwise the Rojo location of its
+ * compiled output decides.
+ */
+export function inferBuildTarget(ctx: ProjectContext, filePath: string): TargetInference | undefined {
+  const suffix = /\.(server|client)\.tsx?$/.exec(filePath)?.[1] as BuildTarget | undefined;
+  const instancePath = resolveDataModelLocation(ctx, filePath)?.instancePath;
+
+  if (suffix) {
+    return { target: suffix, reason: `.${suffix}.ts file`, instancePath };
+  }
+  if (!instancePath || instancePath.length === 0) return undefined;
+
+  return { target: targetForInstancePath(instancePath), reason: `mapped to ${instancePath.join('.')} by ${ctx.rojoProjectFile}`, instancePath };
+}
+
+/**
+ * Where code under a DataModel location runs, judged by its top-level service
+ */
+export function targetForInstancePath(instancePath: string[]): BuildTarget {
+  const service = instancePath[0];
+  return SERVER_SERVICES.has(service) ? 'server' : CLIENT_SERVICES.has(service) ? 'client' : 'shared';
+}
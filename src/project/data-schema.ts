@@ -0,0 +1,304 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { loadProjectContext } from './context.js';
+
+/**
+ * The JSON Schema subset used for DataStore values: everything a DataStore
+ * can hold is JSON, so objects, arrays, strings, numbers, booleans and unions
+ * cover it.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: (string | number | boolean)[];
+  anyOf?: JsonSchema[];
+  description?: string;
+}
+
+/** A `ProfileStore.create("Name", Template)` call found in the project */
+export interface ProfileStoreDeclaration {
+  /** DataStore the profiles are saved in */
+  datastore: string;
+  /** Template variable passed to ProfileStore.create, or `inline template` */
+  template: string;
+  /** Interface or type alias the template is declared as, if any */
+  templateType?: string;
+  /** File containing the call, relative to the project root */
+  file: string;
+}
+
+export interface InferredSchema {
+  schema: JsonSchema;
+  /** Where the schema came from, e.g. `interface PlayerProfile (src/shared/data.ts)` */
+  source: string;
+}
+
+// Files beyond this are not scanned; a roblox-ts project's own sources are far smaller
+const MAX_SOURCE_FILES = 2000;
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', 'out', 'include']);
+
+async function collectSourceFiles(dir: string, files: string[]): Promise<void> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    if (files.length >= MAX_SOURCE_FILES) return;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name)) await collectSourceFiles(full, files);
+    } else if (/\.tsx?$/.test(entry.name) && !entry.name.endsWith('.d.ts')) {
+      files.push(full);
+    }
+  }
+}
+
+/**
+ * Parse every source file under the project's rootDir. Parsing is syntactic
+ * only, so a project that does not type-check still yields its schemas.
+ */
+export async function parseProjectSources(projectRoot: string): Promise<ts.SourceFile[]> {
+  const ctx = await loadProjectContext(projectRoot);
+  const files: string[] = [];
+  await collectSourceFiles(path.join(ctx.root, ctx.rootDir), files);
+  return Promise.all(
+    files.map(async (file) => {
+      const text = await fs.readFile(file, 'utf-8');
+      const kind = file.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+      return ts.createSourceFile(path.relative(ctx.root, file), text, ts.ScriptTarget.Latest, true, kind);
+    })
+  );
+}
+
+type TypeDeclaration = ts.InterfaceDeclaration | ts.TypeAliasDeclaration;
+
+function findTypeDeclaration(sources: ts.SourceFile[], name: string): TypeDeclaration | undefined {
+  for (const source of sources) {
+    for (const statement of source.statements) {
+      if ((ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) && statement.name.text === name) {
+        return statement;
+      }
+    }
+  }
+  return undefined;
+}
+
+function propertyName(name: ts.PropertyName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  return undefined;
+}
+
+function objectSchema(members: ts.NodeArray<ts.TypeElement>, sources: ts.SourceFile[], seen: Set<string>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  let additionalProperties: boolean | JsonSchema = false;
+  for (const member of members) {
+    if (ts.isPropertySignature(member) && member.type) {
+      const name = propertyName(member.name);
+      if (name === undefined) continue;
+      properties[name] = typeNodeToSchema(member.type, sources, seen);
+      if (!member.questionToken) required.push(name);
+    } else if (ts.isIndexSignatureDeclaration(member)) {
+      additionalProperties = typeNodeToSchema(member.type, sources, seen);
+    }
+  }
+  return { type: 'object', properties, required, additionalProperties };
+}
+
+/**
+ * JSON Schema for a TypeScript type node. Types that cannot be stored in a
+ * DataStore (instances, functions, unresolved references) become `{}`, which
+ * accepts anything rather than rejecting valid data.
+ */
+function typeNodeToSchema(node: ts.TypeNode, sources: ts.SourceFile[], seen: Set<string>): JsonSchema {
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { type: 'string' };
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: 'number' };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: 'boolean' };
+    case ts.SyntaxKind.NullKeyword:
+      return { type: 'null' };
+  }
+  if (ts.isParenthesizedTypeNode(node)) return typeNodeToSchema(node.type, sources, seen);
+  if (ts.isLiteralTypeNode(node)) {
+    if (ts.isStringLiteral(node.literal)) return { type: 'string', enum: [node.literal.text] };
+    if (ts.isNumericLiteral(node.literal)) return { type: 'number', enum: [Number(node.literal.text)] };
+    if (node.literal.kind === ts.SyntaxKind.TrueKeyword) return { type: 'boolean', enum: [true] };
+    if (node.literal.kind === ts.SyntaxKind.FalseKeyword) return { type: 'boolean', enum: [false] };
+    if (node.literal.kind === ts.SyntaxKind.NullKeyword) return { type: 'null' };
+  }
+  if (ts.isArrayTypeNode(node)) return { type: 'array', items: typeNodeToSchema(node.elementType, sources, seen) };
+  if (ts.isTupleTypeNode(node)) return { type: 'array' };
+  if (ts.isTypeLiteralNode(node)) return objectSchema(node.members, sources, seen);
+  if (ts.isUnionTypeNode(node)) {
+    const members = node.types.filter((t) => t.kind !== ts.SyntaxKind.UndefinedKeyword);
+    const schemas = members.map((t) => typeNodeToSchema(t, sources, seen));
+    // A union of literals of one type, e.g. "easy" | "hard", is an enum
+    if (schemas.length > 1 && schemas.every((s) => s.enum && s.type === schemas[0].type)) {
+      return { type: schemas[0].type, enum: schemas.flatMap((s) => s.enum!) };
+    }
+    return schemas.length === 1 ? schemas[0] : { anyOf: schemas };
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    const name = node.typeName.getText();
+    const args = node.typeArguments ?? [];
+    if ((name === 'Array' || name === 'ReadonlyArray') && args[0]) {
+      return { type: 'array', items: typeNodeToSchema(args[0], sources, seen) };
+    }
+    if ((name === 'Record' || name === 'Map' || name === 'ReadonlyMap') && args[1]) {
+      return { type: 'object', additionalProperties: typeNodeToSchema(args[1], sources, seen) };
+    }
+    if ((name === 'Partial' || name === 'Readonly') && args[0]) {
+      const inner = typeNodeToSchema(args[0], sources, seen);
+      return name === 'Partial' ? { ...inner, required: [] } : inner;
+    }
+    // Recursive types are cut off at the second visit
+    if (seen.has(name)) return {};
+    const declaration = findTypeDeclaration(sources, name);
+    if (declaration) return declarationToSchema(declaration, sources, new Set([...seen, name]));
+  }
+  return {};
+}
+
+function declarationToSchema(declaration: TypeDeclaration, sources: ts.SourceFile[], seen: Set<string>): JsonSchema {
+  if (ts.isTypeAliasDeclaration(declaration)) return typeNodeToSchema(declaration.type, sources, seen);
+  const schema = objectSchema(declaration.members, sources, seen);
+  // `interface A extends B` includes B's properties
+  for (const clause of declaration.heritageClauses ?? []) {
+    for (const base of clause.types) {
+      const baseDeclaration = findTypeDeclaration(sources, base.expression.getText());
+      if (!baseDeclaration || seen.has(baseDeclaration.name.text)) continue;
+      const baseSchema = declarationToSchema(baseDeclaration, sources, new Set([...seen, baseDeclaration.name.text]));
+      schema.properties = { ...baseSchema.properties, ...schema.properties };
+      schema.required = [...new Set([...(baseSchema.required ?? []), ...(schema.required ?? [])])];
+    }
+  }
+  return schema;
+}
+
+/**
+ * JSON Schema of a named interface or type alias in the parsed sources
+ */
+export function interfaceToJsonSchema(sources: ts.SourceFile[], name: string): InferredSchema | undefined {
+  const declaration = findTypeDeclaration(sources, name);
+  if (!declaration) return undefined;
+  return {
+    schema: declarationToSchema(declaration, sources, new Set([name])),
+    source: `${ts.isInterfaceDeclaration(declaration) ? 'interface' : 'type'} ${name} (${declaration.getSourceFile().fileName})`,
+  };
+}
+
+/**
+ * Schema of an object literal template when it has no declared type: every key
+ * is required and takes the type of its default value. An empty `{}` is a
+ * map filled at runtime, so it accepts any keys.
+ */
+function literalToSchema(node: ts.Expression): JsonSchema {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    return literalToSchema(node.expression);
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return { type: 'string' };
+  if (ts.isNumericLiteral(node)) return { type: 'number' };
+  if (ts.isPrefixUnaryExpression(node) && ts.isNumericLiteral(node.operand)) return { type: 'number' };
+  if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) return { type: 'boolean' };
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.length > 0 ? { type: 'array', items: literalToSchema(node.elements[0]) } : { type: 'array' };
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    if (node.properties.length === 0) return { type: 'object' };
+    const properties: Record<string, JsonSchema> = {};
+    for (const property of node.properties) {
+      if (!ts.isPropertyAssignment(property)) continue;
+      const name = propertyName(property.name);
+      if (name !== undefined) properties[name] = literalToSchema(property.initializer);
+    }
+    return { type: 'object', properties, required: Object.keys(properties), additionalProperties: false };
+  }
+  return {};
+}
+
+function findVariable(source: ts.SourceFile, name: string): ts.VariableDeclaration | undefined {
+  let found: ts.VariableDeclaration | undefined;
+  const visit = (node: ts.Node) => {
+    if (found) return;
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === name) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return found;
+}
+
+/** The declared type name of a template: `const T: PlayerProfile = ...` or `{...} satisfies PlayerProfile` */
+function templateTypeName(variable: ts.VariableDeclaration): string | undefined {
+  const declared = variable.type ?? (variable.initializer && ts.isSatisfiesExpression(variable.initializer) ? variable.initializer.type : undefined)
+    ?? (variable.initializer && ts.isAsExpression(variable.initializer) ? variable.initializer.type : undefined);
+  return declared && ts.isTypeReferenceNode(declared) ? declared.typeName.getText() : undefined;
+}
+
+// Template values of the declarations findProfileStores returned
+const templateValues = new WeakMap<ProfileStoreDeclaration, ts.Expression>();
+
+/**
+ * Find `ProfileStore.create("Name", Template)` calls, the setup the
+ * `player-data` pattern generates
+ */
+export function findProfileStores(sources: ts.SourceFile[]): ProfileStoreDeclaration[] {
+  const found: ProfileStoreDeclaration[] = [];
+  for (const source of sources) {
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.name.text === 'create' &&
+        node.expression.expression.getText() === 'ProfileStore' &&
+        node.arguments.length >= 2 &&
+        ts.isStringLiteralLike(node.arguments[0])
+      ) {
+        const [name, templateArg] = node.arguments;
+        if (ts.isIdentifier(templateArg)) {
+          const variable = findVariable(source, templateArg.text);
+          const store: ProfileStoreDeclaration = {
+            datastore: name.text,
+            template: templateArg.text,
+            templateType: variable ? templateTypeName(variable) : undefined,
+            file: source.fileName,
+          };
+          if (variable?.initializer) templateValues.set(store, variable.initializer);
+          found.push(store);
+        } else if (ts.isObjectLiteralExpression(templateArg)) {
+          const store: ProfileStoreDeclaration = { datastore: name.text, template: 'inline template', file: source.fileName };
+          templateValues.set(store, templateArg);
+          found.push(store);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+  }
+  return found;
+}
+
+/**
+ * Schema for a ProfileStore's template: its declared interface when there is
+ * one, else the shape of the template value itself
+ */
+export function profileStoreSchema(sources: ts.SourceFile[], store: ProfileStoreDeclaration): InferredSchema | undefined {
+  if (store.templateType) {
+    const fromInterface = interfaceToJsonSchema(sources, store.templateType);
+    if (fromInterface) return fromInterface;
+  }
+  const initializer = templateValues.get(store);
+  if (!initializer) return undefined;
+  return { schema: literalToSchema(initializer), source: `template ${store.template} (${store.file})` };
+}
@@ -0,0 +1,153 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+
+export const DEFAULT_ROJO_PROJECT_FILE = 'default.project.json';
+
+/** An instance in a Rojo project tree */
+export interface RojoInstance {
+  name: string;
+  /** `$className`; may be omitted when `$path` or the parent service decides it */
+  className?: string;
+  /** `$path`, relative to the project file, using forward slashes */
+  path?: string;
+  properties?: Record<string, unknown>;
+  ignoreUnknownInstances?: boolean;
+  children: RojoInstance[];
+}
+
+export interface RojoProject {
+  name: string;
+  tree: RojoInstance;
+  servePort?: number;
+  globIgnorePaths?: string[];
+}
+
+/** A `$path` in a Rojo project tree and the DataModel location it is mounted at */
+export interface RojoPathMapping {
+  /** Instance names from the DataModel root, e.g. `['ServerScriptService', 'TS']` */
+  instancePath: string[];
+  /** Filesystem path relative to the project file, using forward slashes */
+  fsPath: string;
+  className?: string;
+}
+
+// Top level of a *.project.json file; the tree itself is checked by parseInstance
+const RojoProjectFileSchema = z.object({
+  name: z.string().min(1),
+  tree: z.record(z.unknown()),
+  servePort: z.number().int().optional(),
+  globIgnorePaths: z.array(z.string()).optional(),
+}).passthrough();
+
+function normalize(fsPath: string): string {
+  return path.posix.normalize(fsPath.split(path.sep).join('/')).replace(/^\.\//, '').replace(/\/$/, '');
+}
+
+function parseInstance(name: string, node: unknown, location: string): RojoInstance {
+  if (!node || typeof node !== 'object' || Array.isArray(node)) {
+    throw new Error(`${location} must be an object`);
+  }
+
+  const instance: Omit<RojoInstance, 'children'> = { name };
+  const children: RojoInstance[] = [];
+  for (const [key, value] of Object.entries(node as Record<string, unknown>)) {
+    switch (key) {
+      case '$className':
+        if (typeof value !== 'string') throw new Error(`${location}.$className must be a string`);
+        instance.className = value;
+        break;
+      case '$path': {
+        // `$path` may also be `{ "optional": "path" }`
+        const fsPath = typeof value === 'object' && value !== null ? (value as { optional?: unknown }).optional : value;
+        if (typeof fsPath !== 'string') throw new Error(`${location}.$path must be a string`);
+        instance.path = normalize(fsPath);
+        break;
+      }
+      case '$properties':
+        if (!value || typeof value !== 'object') throw new Error(`${location}.$properties must be an object`);
+        instance.properties = value as Record<string, unknown>;
+        break;
+      case '$ignoreUnknownInstances':
+        if (typeof value !== 'boolean') throw new Error(`${location}.$ignoreUnknownInstances must be a boolean`);
+        instance.ignoreUnknownInstances = value;
+        break;
+      default:
+        // Other `$` keys ($attributes, $id, ...) do not affect the tree shape
+        if (!key.startsWith('$')) children.push(parseInstance(key, value, `${location}.${key}`));
+    }
+  }
+  return { ...instance, children };
+}
+
+/**
+ * Parse the contents of a Rojo `*.project.json` file into a typed tree
+ */
+export function parseRojoProject(json: unknown, fileName = DEFAULT_ROJO_PROJECT_FILE): RojoProject {
+  const parsed = RojoProjectFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid ${fileName}: ${message}`);
+  }
+
+  const { name, tree, servePort, globIgnorePaths } = parsed.data;
+  try {
+    const root = parseInstance(name, tree, 'tree');
+    return { name, tree: { ...root, className: root.className ?? 'DataModel' }, servePort, globIgnorePaths };
+  } catch (error) {
+    throw new Error(`Invalid ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Read and parse a Rojo project file from a project root
+ */
+export async function loadRojoProject(projectRoot: string, fileName = DEFAULT_ROJO_PROJECT_FILE): Promise<RojoProject> {
+  const raw = await fs.readFile(path.join(projectRoot, fileName), 'utf-8');
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return parseRojoProject(json, fileName);
+}
+
+/**
+ * Collect every `$path` in a Rojo project tree together with its instance path
+ */
+export function collectPathMappings(instance: RojoInstance, instancePath: string[] = []): RojoPathMapping[] {
+  const mappings: RojoPathMapping[] = [];
+  if (instance.path !== undefined) {
+    mappings.push({ instancePath, fsPath: instance.path, className: instance.className });
+  }
+  for (const child of instance.children) {
+    mappings.push(...collectPathMappings(child, [...instancePath, child.name]));
+  }
+  return mappings;
+}
+
+/**
+ * Resolve a project-relative file path to its DataModel location using the
+ * most specific `$path` mapping that contains it
+ */
+export function findInstancePath(mappings: RojoPathMapping[], relativePath: string): string[] | undefined {
+  const file = normalize(relativePath);
+  let best: RojoPathMapping | undefined;
+  for (const mapping of mappings) {
+    const contains = file === mapping.fsPath || file.startsWith(`${mapping.fsPath}/`);
+    if (contains && (!best || mapping.fsPath.length > best.fsPath.length)) best = mapping;
+  }
+  if (!best) return undefined;
+
+  // `foo.server.luau` and `foo.d.ts` become `foo`; `init.luau` is its folder, and so is
+  // `index.ts`, which roblox-ts compiles to `init.luau`
+  const rest = file.slice(best.fsPath.length).split('/').filter(Boolean);
+  if (rest.length > 0) {
+    const base = rest.pop()!;
+    const name = base.replace(/(\.(server|client))?\.(luau|lua|d\.tsx?|tsx?)$/, '');
+    const isFolder = name === 'init' || (name === 'index' && /\.tsx?$/.test(base));
+    if (!isFolder) rest.push(name);
+  }
+  return [...best.instancePath, ...rest];
+}
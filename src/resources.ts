@@ -5,6 +5,8 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
+import { loadProjectRootFromEnv } from './project/context.js';
+import { loadRojoProject, collectPathMappings, DEFAULT_ROJO_PROJECT_FILE } from './project/rojo.js';
 
 /**
  * Resources for Roblox-ts development guidance
@@ -397,7 +399,14 @@ export function addResources(server: Server): void {
           mimeType: 'application/json',
           name: ROBLOX_DOCS_RESOURCE.name,
           description: ROBLOX_DOCS_RESOURCE.description
-        }
+        },
+        // Only meaningful when the server was started with --project
+        ...(loadProjectRootFromEnv() ? [{
+          uri: 'roblox-ts://project/tree',
+          mimeType: 'application/json',
+          name: 'project-tree',
+          description: `Rojo instance tree and $path mappings from the project's ${DEFAULT_ROJO_PROJECT_FILE}`
+        }] : [])
       ]
     };
   });
@@ -449,6 +458,26 @@ export function addResources(server: Server): void {
           }]
         };
       
+      case 'roblox-ts://project/tree': {
+        const projectRoot = loadProjectRootFromEnv();
+        if (!projectRoot) {
+          throw new Error('No project configured: start the server with --project or MCP_PROJECT_ROOT');
+        }
+        const project = await loadRojoProject(projectRoot);
+        return {
+          contents: [{
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify({
+              root: projectRoot,
+              projectFile: DEFAULT_ROJO_PROJECT_FILE,
+              ...project,
+              mappings: collectPathMappings(project.tree)
+            }, null, 2)
+          }]
+        };
+      }
+
       default:
         throw new Error(`Unknown resource: ${uri}`);
     }
@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { z } from 'zod';
+
+const EnvSchema = z.object({
+  ROBLOX_AUDIT_LOG: z.string().optional(),
+});
+
+/** Where the audit log goes unless ROBLOX_AUDIT_LOG says otherwise */
+export const DEFAULT_AUDIT_LOG = path.join(os.homedir(), '.roblox-ts-mcp', 'audit.jsonl');
+
+export type AuditOutcome = 'sent' | 'dry-run' | 'blocked' | 'network-error';
+
+/** One line of the audit log */
+export interface AuditEntry {
+  timestamp: string;
+  tool?: string;
+  profile?: string;
+  universeId: string;
+  method: string;
+  /** URL path without the query string */
+  path: string;
+  datastore?: string;
+  key?: string;
+  scope?: string;
+  status?: number;
+  requestId?: string;
+  /** SHA-256 of the request body, hex */
+  bodySha256?: string;
+  outcome: AuditOutcome;
+  durationMs?: number;
+}
+
+export interface AuditQuery {
+  /** ISO timestamps bounding the entries, inclusive */
+  since?: string;
+  until?: string;
+  key?: string;
+  datastore?: string;
+  tool?: string;
+  /** Exact status, or a class such as `4xx` */
+  status?: number | '2xx' | '3xx' | '4xx' | '5xx';
+  /** Newest matching entries to return */
+  limit?: number;
+}
+
+/**
+ * Audit log path from the environment; `off` disables auditing
+ */
+export function loadAuditLogPathFromEnv(env = process.env): string | undefined {
+  const { ROBLOX_AUDIT_LOG } = EnvSchema.parse(env);
+  if (ROBLOX_AUDIT_LOG === 'off') return undefined;
+  return ROBLOX_AUDIT_LOG ? path.resolve(ROBLOX_AUDIT_LOG) : DEFAULT_AUDIT_LOG;
+}
+
+export function hashBody(data: unknown): string | undefined {
+  if (data === undefined || data === null) return undefined;
+  const body = typeof data === 'string' || Buffer.isBuffer(data) ? data : JSON.stringify(data);
+  return createHash('sha256').update(body).digest('hex');
+}
+
+/**
+ * Pull the data store, key and scope a request targets out of its path and
+ * query parameters, for the URL shapes the Open Cloud clients use
+ */
+export function auditTarget(
+  urlPath: string,
+  params: Record<string, unknown> = {}
+): Pick<AuditEntry, 'datastore' | 'key' | 'scope'> {
+  const decode = (value: string | undefined) => (value === undefined ? undefined : decodeURIComponent(value));
+  const text = (value: unknown) => (value === undefined || value === null ? undefined : String(value));
+
+  const ordered = /\/orderedDataStores\/([^/]+)\/scopes\/([^/]+)\/entries(?:\/([^/:]+))?/.exec(urlPath);
+  if (ordered) {
+    return { datastore: decode(ordered[1]), scope: decode(ordered[2]), key: decode(ordered[3]) ?? text(params.id) };
+  }
+  const memory = /\/memory-store\/(?:sorted-maps|queues)\/([^/]+)\/items(?:\/([^/:]+))?/.exec(urlPath);
+  if (memory) {
+    return { datastore: decode(memory[1]), key: decode(memory[2]) ?? text(params.id) };
+  }
+  const standard = /\/standard-datastores\/datastore\/([^/]+)\/entries/.exec(urlPath);
+  return {
+    datastore: standard ? decode(standard[1]) : text(params.datastoreName),
+    key: text(params.key),
+    scope: text(params.scope),
+  };
+}
+
+// Appends are chained so concurrent requests never interleave partial lines
+let pending: Promise<void> = Promise.resolve();
+
+export function appendAuditEntry(file: string, entry: AuditEntry): Promise<void> {
+  pending = pending
+    .then(async () => {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, `${JSON.stringify(entry)}\n`, 'utf-8');
+    })
+    .catch((error) => {
+      // Auditing must never fail the call it records
+      console.error(`Failed to write audit log ${file}:`, error instanceof Error ? error.message : error);
+    });
+  return pending;
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.since && entry.timestamp < query.since) return false;
+  if (query.until && entry.timestamp > query.until) return false;
+  if (query.key !== undefined && entry.key !== query.key) return false;
+  if (query.datastore !== undefined && entry.datastore !== query.datastore) return false;
+  if (query.tool !== undefined && entry.tool !== query.tool) return false;
+  if (typeof query.status === 'number' && entry.status !== query.status) return false;
+  if (typeof query.status === 'string' && String(entry.status ?? '')[0] !== query.status[0]) return false;
+  return true;
+}
+
+/**
+ * Stream the audit log and return the newest `limit` entries matching the
+ * query, oldest first. Unparseable lines are counted rather than failing.
+ */
+export async function queryAuditLog(
+  file: string,
+  query: AuditQuery = {}
+): Promise<{ entries: AuditEntry[]; scanned: number; skipped: number }> {
+  const limit = query.limit ?? 100;
+  const since = query.since ? new Date(query.since).toISOString() : undefined;
+  const until = query.until ? new Date(query.until).toISOString() : undefined;
+  const normalized = { ...query, since, until };
+
+  const entries: AuditEntry[] = [];
+  let scanned = 0;
+  let skipped = 0;
+  try {
+    await fs.access(file);
+  } catch {
+    return { entries, scanned, skipped };
+  }
+
+  const lines = readline.createInterface({ input: createReadStream(file, 'utf-8'), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    scanned++;
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      skipped++;
+      continue;
+    }
+    if (!matches(entry, normalized)) continue;
+    entries.push(entry);
+    if (entries.length > limit) entries.shift();
+  }
+  return { entries, scanned, skipped };
+}
@@ -0,0 +1,341 @@
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as readline from 'readline';
+import { z } from 'zod';
+import { HttpClient } from './http.js';
+import { OpenCloudConfig } from './config.js';
+import { EntryKey, getEntry, iterateEntries, setEntry } from './datastore.js';
+import { InsufficientScopeError, NotFoundError, PreconditionFailedError, UnauthorizedError } from './errors.js';
+import { DryRunInterrupt, WriteBlockedError } from './guard.js';
+
+/** One line of an export file */
+export const ExportLineSchema = z.object({
+  scope: z.string().min(1),
+  key: z.string().min(1),
+  value: z.unknown(),
+  etag: z.string().optional(),
+  userIds: z.array(z.number()).optional(),
+  attributes: z.record(z.unknown()).optional(),
+});
+
+export type ExportLine = z.infer<typeof ExportLineSchema>;
+
+/**
+ * How an import treats keys that may already exist:
+ * - `skip` writes with `If-None-Match: *`, leaving existing entries alone
+ * - `overwrite` writes unconditionally
+ * - `ifMatch` writes with `If-Match` set to the exported ETag, so only entries
+ *   unchanged since the export are replaced
+ */
+export type ConflictPolicy = 'skip' | 'overwrite' | 'ifMatch';
+
+export const MAX_BULK_CONCURRENCY = 16;
+// Failures listed in a result; the rest are only counted
+const MAX_REPORTED_FAILURES = 50;
+// Import lines handled between checkpoint writes
+const IMPORT_BATCH_SIZE = 100;
+
+export interface BulkFailure {
+  /** 1-based line of the file, for imports */
+  line?: number;
+  scope?: string;
+  key?: string;
+  error: string;
+}
+
+export interface BulkProgress {
+  /** Entries handled so far */
+  done: number;
+  message: string;
+}
+
+export interface ExportOptions {
+  scope?: string;
+  allScopes?: boolean;
+  prefix?: string;
+  concurrency?: number;
+  onProgress?: (progress: BulkProgress) => Promise<void>;
+}
+
+export interface ExportResult {
+  file: string;
+  exported: number;
+  /** Listed keys that were deleted before they could be read */
+  missing: number;
+  failed: number;
+  failures: BulkFailure[];
+}
+
+export interface ImportOptions {
+  conflict?: ConflictPolicy;
+  /** Write every entry to this scope instead of the one it was exported from */
+  scope?: string;
+  concurrency?: number;
+  /** Checkpoint file; defaults to `<file>.checkpoint` */
+  checkpoint?: string;
+  /** Continue from the checkpoint if there is one (default true) */
+  resume?: boolean;
+  /** Called with each line's value before it is written; throwing fails that line */
+  validate?: (value: unknown) => void;
+  onProgress?: (progress: BulkProgress) => Promise<void>;
+}
+
+export interface ImportResult {
+  file: string;
+  written: number;
+  /** Existing entries left alone by the `skip` policy */
+  skipped: number;
+  /** Entries that changed since the export, left alone by the `ifMatch` policy */
+  conflicts: number;
+  failed: number;
+  failures: BulkFailure[];
+  /** Lines already imported by an earlier run */
+  resumedFrom?: number;
+  /** Present while failures remain, so a rerun retries only those lines */
+  checkpoint?: string;
+}
+
+interface Checkpoint {
+  file: string;
+  /** Lines up to here have been handled */
+  done: number;
+  /** Lines before `done` that failed and are retried on resume */
+  failed: number[];
+}
+
+/**
+ * Errors that would fail every remaining entry too, or that the write guard
+ * raised: they stop the whole run instead of being counted per entry
+ */
+function isFatal(error: unknown): boolean {
+  return (
+    error instanceof UnauthorizedError ||
+    error instanceof InsufficientScopeError ||
+    error instanceof DryRunInterrupt ||
+    error instanceof WriteBlockedError
+  );
+}
+
+function clampConcurrency(concurrency: number | undefined): number {
+  return Math.min(Math.max(Math.floor(concurrency ?? 4), 1), MAX_BULK_CONCURRENCY);
+}
+
+/**
+ * Run `worker` over `items` with at most `concurrency` in flight. A fatal
+ * error stops new work and is rethrown once the running workers settle.
+ */
+async function runPool<T>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<void>): Promise<void> {
+  let next = 0;
+  let fatal: { error: unknown } | undefined;
+  const run = async () => {
+    while (!fatal && next < items.length) {
+      const index = next++;
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        fatal ??= { error };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, run));
+  if (fatal) throw fatal.error;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Export every entry of a data store (one scope, or all of them) to an NDJSON
+ * file, one `ExportLine` per entry with its value, ETag, user IDs and
+ * attributes. The file is written beside the target and renamed into place
+ * when complete, so an interrupted export never leaves a truncated snapshot.
+ */
+export async function exportDatastore(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  datastoreName: string,
+  file: string,
+  opts: ExportOptions = {}
+): Promise<{ success: true; result: ExportResult } | { success: false; error: string }> {
+  if (opts.allScopes && opts.scope) {
+    return { success: false, error: 'scope cannot be combined with allScopes' };
+  }
+
+  const concurrency = clampConcurrency(opts.concurrency);
+  const partial = `${file}.partial`;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const out = await fs.open(partial, 'w');
+  const result: ExportResult = { file, exported: 0, missing: 0, failed: 0, failures: [] };
+  try {
+    const pages = iterateEntries(http, cfg, {
+      datastoreName,
+      scope: opts.scope,
+      allScopes: opts.allScopes,
+      prefix: opts.prefix,
+      limit: 100,
+      maxPages: Infinity,
+    });
+    for await (const page of pages) {
+      const lines: (string | undefined)[] = new Array(page.items.length);
+      await runPool(page.items, concurrency, async ({ scope, key }: EntryKey, index) => {
+        try {
+          const entry = await getEntry(http, cfg, datastoreName, key, scope);
+          if (!entry.success) throw new Error(entry.error);
+          const line: ExportLine = {
+            scope,
+            key,
+            value: entry.data.value,
+            etag: entry.data.etag,
+            userIds: entry.data.userIds,
+            attributes: entry.data.attributes,
+          };
+          lines[index] = JSON.stringify(line);
+        } catch (error) {
+          if (isFatal(error)) throw error;
+          if (error instanceof NotFoundError) {
+            result.missing++;
+            return;
+          }
+          result.failed++;
+          if (result.failures.length < MAX_REPORTED_FAILURES) result.failures.push({ scope, key, error: errorMessage(error) });
+        }
+      });
+      // Lines keep the listing order whatever order the reads finished in
+      const written = lines.filter((line): line is string => line !== undefined);
+      if (written.length > 0) await out.write(`${written.join('\n')}\n`);
+      result.exported += written.length;
+      await opts.onProgress?.({ done: result.exported, message: `Exported ${result.exported} entries` });
+    }
+  } catch (error) {
+    await out.close();
+    await fs.rm(partial, { force: true });
+    throw error;
+  }
+  await out.close();
+  await fs.rename(partial, file);
+  return { success: true, result };
+}
+
+async function readCheckpoint(file: string, source: string): Promise<Checkpoint | undefined> {
+  try {
+    const checkpoint = JSON.parse(await fs.readFile(file, 'utf-8')) as Checkpoint;
+    // A checkpoint for a different export file is ignored rather than trusted
+    return checkpoint.file === source && Number.isInteger(checkpoint.done) ? checkpoint : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Write an export file back into a data store. Progress is checkpointed every
+ * batch, so a rerun after an interruption continues where it stopped and
+ * retries only the lines that failed.
+ */
+export async function importDatastore(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  datastoreName: string,
+  file: string,
+  opts: ImportOptions = {}
+): Promise<{ success: true; result: ImportResult } | { success: false; error: string }> {
+  try {
+    await fs.access(file);
+  } catch {
+    return { success: false, error: `Cannot read export file ${file}` };
+  }
+
+  const conflict = opts.conflict ?? 'skip';
+  const concurrency = clampConcurrency(opts.concurrency);
+  const checkpointFile = opts.checkpoint ?? `${file}.checkpoint`;
+  const previous = opts.resume === false ? undefined : await readCheckpoint(checkpointFile, file);
+  const retry = new Set(previous?.failed ?? []);
+  const failedLines: number[] = [];
+  const result: ImportResult = {
+    file,
+    written: 0,
+    skipped: 0,
+    conflicts: 0,
+    failed: 0,
+    failures: [],
+    resumedFrom: previous?.done,
+  };
+
+  const fail = (failure: BulkFailure) => {
+    result.failed++;
+    failedLines.push(failure.line!);
+    if (result.failures.length < MAX_REPORTED_FAILURES) result.failures.push(failure);
+  };
+
+  const importLine = async ({ line, text }: { line: number; text: string }) => {
+    let entry: ExportLine;
+    try {
+      entry = ExportLineSchema.parse(JSON.parse(text));
+    } catch (error) {
+      fail({ line, error: `Invalid export line: ${error instanceof z.ZodError ? error.issues[0]?.message : errorMessage(error)}` });
+      return;
+    }
+    if (conflict === 'ifMatch' && !entry.etag) {
+      fail({ line, scope: entry.scope, key: entry.key, error: 'No etag in the export line for the ifMatch policy' });
+      return;
+    }
+    try {
+      opts.validate?.(entry.value);
+    } catch (error) {
+      fail({ line, scope: entry.scope, key: entry.key, error: errorMessage(error) });
+      return;
+    }
+
+    const scope = opts.scope ?? entry.scope;
+    try {
+      // setEntry sends strings as-is, so serialize here to keep string values quoted
+      const written = await setEntry(http, cfg, datastoreName, entry.key, JSON.stringify(entry.value), {
+        scope,
+        userIds: entry.userIds,
+        attributes: entry.attributes,
+        ...(conflict === 'skip' ? { ifNoneMatch: '*' } : conflict === 'ifMatch' ? { ifMatch: entry.etag } : {}),
+      });
+      if (!written.success) throw new Error(written.error);
+      result.written++;
+    } catch (error) {
+      if (isFatal(error)) throw error;
+      if (error instanceof PreconditionFailedError && conflict !== 'overwrite') {
+        if (conflict === 'skip') result.skipped++;
+        else result.conflicts++;
+        return;
+      }
+      fail({ line, scope, key: entry.key, error: errorMessage(error) });
+    }
+  };
+
+  let lineNumber = 0;
+  let batch: { line: number; text: string }[] = [];
+  const flush = async () => {
+    await runPool(batch, concurrency, importLine);
+    batch = [];
+    const checkpoint: Checkpoint = { file, done: lineNumber, failed: [...failedLines].sort((a, b) => a - b) };
+    await fs.writeFile(checkpointFile, JSON.stringify(checkpoint), 'utf-8');
+    await opts.onProgress?.({
+      done: lineNumber,
+      message: `Imported ${lineNumber} lines (${result.written} written, ${result.skipped + result.conflicts} left alone)`,
+    });
+  };
+
+  const lines = readline.createInterface({ input: createReadStream(file, 'utf-8'), crlfDelay: Infinity });
+  for await (const text of lines) {
+    lineNumber++;
+    if (!text.trim()) continue;
+    if (previous && lineNumber <= previous.done && !retry.has(lineNumber)) continue;
+    batch.push({ line: lineNumber, text });
+    if (batch.length >= IMPORT_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  if (result.failed === 0) {
+    await fs.rm(checkpointFile, { force: true });
+  } else {
+    result.checkpoint = checkpointFile;
+  }
+  return { success: true, result };
+}
@@ -1,3 +1,4 @@
+import * as fs from 'fs';
 import { z } from 'zod';
 
 // Zod schema for environment configuration
@@ -5,6 +6,8 @@ const EnvSchema = z.object({
   ROBLOX_API_KEY: z.string().min(1, 'ROBLOX_API_KEY is required'),
   ROBLOX_UNIVERSE_ID: z.string().min(1, 'ROBLOX_UNIVERSE_ID is required'),
   ROBLOX_SCOPE: z.string().optional(),
+  ROBLOX_READ_ONLY: z.string().optional(),
+  ROBLOX_PROTECTED: z.string().optional(),
   ROBLOX_HTTP_TIMEOUT_MS: z
     .string()
     .transform((v) => (v ? Number(v) : undefined))
@@ -15,6 +18,7 @@ const EnvSchema = z.object({
     .transform((v) => (v ? Number(v) : undefined))
     .pipe(z.number().int().min(0).max(8).optional())
     .optional(),
+  ROBLOX_OPEN_CLOUD_BASE_URL: z.string().url().optional(),
 });
 
 export type OpenCloudConfig = {
@@ -23,8 +27,67 @@ export type OpenCloudConfig = {
   defaultScope?: string;
   timeoutMs: number;
   maxRetries: number;
+  /** Open Cloud origin; points at a local emulator in development and tests */
+  baseUrl?: string;
+  /** Name of the profile this configuration came from, if any */
+  profile?: string;
+  /** Refuse every request that changes data */
+  readOnly?: boolean;
+  /** Require a confirm token for every request that changes data */
+  protected?: boolean;
 };
 
+function envFlag(value: string | undefined): boolean {
+  return value === 'true' || value === '1';
+}
+
+// Settings shared by every profile
+const SharedEnvSchema = EnvSchema.pick({
+  ROBLOX_HTTP_TIMEOUT_MS: true,
+  ROBLOX_MAX_RETRIES: true,
+  ROBLOX_READ_ONLY: true,
+  ROBLOX_OPEN_CLOUD_BASE_URL: true,
+}).extend({
+  ROBLOX_PROFILES_FILE: z.string().min(1).optional(),
+  ROBLOX_DEFAULT_PROFILE: z.string().min(1).optional(),
+});
+
+// Profiles file referenced by ROBLOX_PROFILES_FILE
+const ProfileFileSchema = z.object({
+  defaultProfile: z.string().min(1).optional(),
+  profiles: z.record(
+    z.object({
+      apiKey: z.string().min(1).optional(),
+      /** Environment variable holding the API key, so the file can be committed */
+      apiKeyEnv: z.string().min(1).optional(),
+      universeId: z.string().min(1),
+      scope: z.string().min(1).optional(),
+      readOnly: z.boolean().optional(),
+      protected: z.boolean().optional(),
+    })
+  ),
+});
+
+const PROFILE_ENV_PATTERN = /^ROBLOX_PROFILE_(.+)_(API_KEY|UNIVERSE_ID|SCOPE|READ_ONLY|PROTECTED)$/;
+const LEGACY_PROFILE = 'default';
+
+export interface OpenCloudProfile {
+  name: string;
+  /** Where the profile was defined */
+  source: 'env' | 'file' | 'legacy';
+  apiKey?: string;
+  universeId?: string;
+  scope?: string;
+  readOnly?: boolean;
+  protected?: boolean;
+}
+
+export interface OpenCloudProfiles {
+  profiles: OpenCloudProfile[];
+  /** Profile used when a tool call does not name one */
+  defaultProfile?: string;
+}
+
 export function loadConfigFromEnv(env = process.env): OpenCloudConfig {
   const parsed = EnvSchema.safeParse(env);
   if (!parsed.success) {
@@ -32,8 +95,16 @@ export function loadConfigFromEnv(env = process.env): OpenCloudConfig {
     throw new Error(`Invalid Open Cloud configuration: ${message}`);
   }
 
-  const { ROBLOX_API_KEY, ROBLOX_UNIVERSE_ID, ROBLOX_SCOPE, ROBLOX_HTTP_TIMEOUT_MS, ROBLOX_MAX_RETRIES } =
-    parsed.data as any;
+  const {
+    ROBLOX_API_KEY,
+    ROBLOX_UNIVERSE_ID,
+    ROBLOX_SCOPE,
+    ROBLOX_HTTP_TIMEOUT_MS,
+    ROBLOX_MAX_RETRIES,
+    ROBLOX_READ_ONLY,
+    ROBLOX_PROTECTED,
+    ROBLOX_OPEN_CLOUD_BASE_URL,
+  } = parsed.data;
 
   return {
     apiKey: ROBLOX_API_KEY,
@@ -41,6 +112,122 @@ export function loadConfigFromEnv(env = process.env): OpenCloudConfig {
     defaultScope: ROBLOX_SCOPE,
     timeoutMs: ROBLOX_HTTP_TIMEOUT_MS ?? 15000,
     maxRetries: ROBLOX_MAX_RETRIES ?? 3,
+    baseUrl: ROBLOX_OPEN_CLOUD_BASE_URL,
+    readOnly: envFlag(ROBLOX_READ_ONLY),
+    protected: envFlag(ROBLOX_PROTECTED),
+  };
+}
+
+function readProfilesFile(file: string, env: NodeJS.ProcessEnv): OpenCloudProfiles {
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid Open Cloud profiles file ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  const parsed = ProfileFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid Open Cloud profiles file ${file}: ${message}`);
+  }
+
+  const profiles = Object.entries(parsed.data.profiles).map(([name, profile]): OpenCloudProfile => ({
+    name: name.toLowerCase(),
+    source: 'file',
+    apiKey: profile.apiKey ?? (profile.apiKeyEnv ? env[profile.apiKeyEnv] : undefined),
+    universeId: profile.universeId,
+    scope: profile.scope,
+    readOnly: profile.readOnly,
+    protected: profile.protected,
+  }));
+  return { profiles, defaultProfile: parsed.data.defaultProfile?.toLowerCase() };
+}
+
+/**
+ * Collect named Open Cloud profiles from `ROBLOX_PROFILE_<NAME>_*` variables,
+ * the JSON file named by `ROBLOX_PROFILES_FILE`, and the single-universe
+ * `ROBLOX_API_KEY`/`ROBLOX_UNIVERSE_ID` pair (as the `default` profile).
+ * Environment variables win over the file for the same profile name.
+ */
+export function loadProfilesFromEnv(env = process.env): OpenCloudProfiles {
+  const shared = SharedEnvSchema.safeParse(env);
+  if (!shared.success) {
+    const message = shared.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid Open Cloud configuration: ${message}`);
+  }
+
+  const byName = new Map<string, OpenCloudProfile>();
+  let defaultProfile: string | undefined;
+  if (shared.data.ROBLOX_PROFILES_FILE) {
+    const file = readProfilesFile(shared.data.ROBLOX_PROFILES_FILE, env);
+    for (const profile of file.profiles) byName.set(profile.name, profile);
+    defaultProfile = file.defaultProfile;
+  }
+
+  for (const [variable, value] of Object.entries(env)) {
+    const match = PROFILE_ENV_PATTERN.exec(variable);
+    if (!match || !value) continue;
+    const name = match[1].toLowerCase();
+    const existing = byName.get(name);
+    const profile: OpenCloudProfile = existing?.source === 'env' ? existing : { ...existing, name, source: 'env' };
+    if (match[2] === 'API_KEY') profile.apiKey = value;
+    else if (match[2] === 'UNIVERSE_ID') profile.universeId = value;
+    else if (match[2] === 'READ_ONLY') profile.readOnly = envFlag(value);
+    else if (match[2] === 'PROTECTED') profile.protected = envFlag(value);
+    else profile.scope = value;
+    byName.set(name, profile);
+  }
+
+  if (env.ROBLOX_API_KEY || env.ROBLOX_UNIVERSE_ID) {
+    byName.set(LEGACY_PROFILE, {
+      name: LEGACY_PROFILE,
+      source: 'legacy',
+      apiKey: env.ROBLOX_API_KEY,
+      universeId: env.ROBLOX_UNIVERSE_ID,
+      scope: env.ROBLOX_SCOPE,
+      protected: envFlag(env.ROBLOX_PROTECTED),
+    });
+  }
+
+  // ROBLOX_READ_ONLY locks every profile
+  const readOnly = envFlag(shared.data.ROBLOX_READ_ONLY);
+  return {
+    profiles: [...byName.values()]
+      .map((p) => ({ ...p, readOnly: readOnly || Boolean(p.readOnly) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    defaultProfile: shared.data.ROBLOX_DEFAULT_PROFILE?.toLowerCase() ?? defaultProfile,
+  };
+}
+
+/**
+ * Resolve the configuration of a named profile. Without a name this uses the
+ * default profile when one is set, and the single-universe variables otherwise.
+ */
+export function loadProfileConfig(profile: string | undefined, env = process.env): OpenCloudConfig {
+  const { profiles, defaultProfile } = loadProfilesFromEnv(env);
+  const name = (profile ?? defaultProfile)?.toLowerCase();
+  if (!name) return loadConfigFromEnv(env);
+
+  const found = profiles.find((p) => p.name === name);
+  if (!found) {
+    const known = profiles.map((p) => p.name).join(', ') || 'none';
+    throw new Error(`Unknown Open Cloud profile "${name}" (configured: ${known})`);
+  }
+  if (!found.apiKey || !found.universeId) {
+    throw new Error(`Open Cloud profile "${name}" needs both an API key and a universe ID`);
+  }
+
+  const shared = SharedEnvSchema.parse(env);
+  return {
+    apiKey: found.apiKey,
+    universeId: found.universeId,
+    defaultScope: found.scope,
+    timeoutMs: shared.ROBLOX_HTTP_TIMEOUT_MS ?? 15000,
+    maxRetries: shared.ROBLOX_MAX_RETRIES ?? 3,
+    baseUrl: shared.ROBLOX_OPEN_CLOUD_BASE_URL,
+    profile: name,
+    readOnly: Boolean(found.readOnly),
+    protected: Boolean(found.protected),
   };
 }
 
@@ -1,64 +1,239 @@
+import { createHash } from 'crypto';
 import { HttpClient } from './http.js';
 import { OpenCloudConfig } from './config.js';
 
 // Minimal types resembling Open Cloud responses
 export interface ListDatastoresResponse {
-  datastores: { name: string }[];
-  nextPageToken?: string;
+  datastores: { name: string; createdTime?: string }[];
+  nextPageCursor?: string;
+}
+
+export interface ListEntriesResponse {
+  keys: { scope: string; key: string }[];
+  nextPageCursor?: string;
+}
+
+export interface EntryKey {
+  scope: string;
+  key: string;
+}
+
+/** One page of a cursor-paginated listing */
+export interface Page<T> {
+  items: T[];
+  /** Pass back as `cursor` to continue; absent on the last page */
+  nextPageCursor?: string;
+}
+
+export interface ListDatastoresOptions {
+  prefix?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ListEntriesOptions {
+  datastoreName: string;
+  scope?: string;
+  /** List keys of every scope; keys then come back as `scope/key` */
+  allScopes?: boolean;
+  prefix?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+function clampLimit(limit: number | undefined): number | undefined {
+  return limit ? Math.min(Math.max(limit, 1), 100) : undefined;
 }
 
 export async function listDatastores(
   http: HttpClient,
   cfg: OpenCloudConfig,
-  opts?: { prefix?: string; limit?: number }
-): Promise<{ success: true; datastores: string[] } | { success: false; error: string }> {
+  opts?: ListDatastoresOptions
+): Promise<{ success: true; datastores: string[]; nextPageCursor?: string } | { success: false; error: string }> {
   const params: Record<string, string | number> = {};
   if (opts?.prefix) params.prefix = opts.prefix;
-  if (opts?.limit) params.limit = Math.min(Math.max(opts.limit, 1), 100);
+  if (opts?.limit) params.limit = clampLimit(opts.limit)!;
+  if (opts?.cursor) params.cursor = opts.cursor;
 
   const url = `/datastores/v1/universes/${cfg.universeId}/standard-datastores`; // GET
   const res = await http.get<ListDatastoresResponse>(url, { params });
-  return { success: true, datastores: (res.data.datastores || []).map((d) => d.name) };
+  return {
+    success: true,
+    datastores: (res.data.datastores || []).map((d) => d.name),
+    nextPageCursor: res.data.nextPageCursor || undefined,
+  };
+}
+
+export async function listEntries(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  opts: ListEntriesOptions
+): Promise<{ success: true; keys: EntryKey[]; nextPageCursor?: string } | { success: false; error: string }> {
+  if (opts.allScopes && opts.scope) {
+    return { success: false, error: 'scope cannot be combined with allScopes' };
+  }
+
+  const params: Record<string, string | number | boolean> = { datastoreName: opts.datastoreName };
+  if (opts.allScopes) params.AllScopes = true;
+  else params.scope = opts.scope ?? cfg.defaultScope ?? 'global';
+  if (opts.prefix) params.prefix = opts.prefix;
+  if (opts.limit) params.limit = clampLimit(opts.limit)!;
+  if (opts.cursor) params.cursor = opts.cursor;
+
+  const url = `/datastores/v1/universes/${cfg.universeId}/standard-datastores/datastore/entries`; // GET
+  const res = await http.get<ListEntriesResponse>(url, { params });
+  return {
+    success: true,
+    keys: (res.data.keys || []).map((k) => ({ scope: k.scope, key: k.key })),
+    nextPageCursor: res.data.nextPageCursor || undefined,
+  };
+}
+
+/**
+ * Follow `nextPageCursor` for up to `maxPages` pages, yielding each page as it
+ * arrives so callers never hold more than one page they have not consumed.
+ */
+async function* paginate<T>(
+  fetchPage: (cursor: string | undefined) => Promise<{ success: true; items: T[]; nextPageCursor?: string } | { success: false; error: string }>,
+  cursor: string | undefined,
+  maxPages: number
+): AsyncGenerator<Page<T>> {
+  for (let page = 0; page < maxPages; page++) {
+    const res = await fetchPage(cursor);
+    if (!res.success) throw new Error(res.error);
+    yield { items: res.items, nextPageCursor: res.nextPageCursor };
+    if (!res.nextPageCursor) return;
+    cursor = res.nextPageCursor;
+  }
+}
+
+export function iterateDatastores(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  opts: ListDatastoresOptions & { maxPages: number }
+): AsyncGenerator<Page<string>> {
+  return paginate(async (cursor) => {
+    const res = await listDatastores(http, cfg, { ...opts, cursor });
+    return res.success ? { success: true, items: res.datastores, nextPageCursor: res.nextPageCursor } : res;
+  }, opts.cursor, opts.maxPages);
+}
+
+export function iterateEntries(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  opts: ListEntriesOptions & { maxPages: number }
+): AsyncGenerator<Page<EntryKey>> {
+  return paginate(async (cursor) => {
+    const res = await listEntries(http, cfg, { ...opts, cursor });
+    return res.success ? { success: true, items: res.keys, nextPageCursor: res.nextPageCursor } : res;
+  }, opts.cursor, opts.maxPages);
 }
 
 export interface EntryResponse<T = unknown> {
   value: T;
   etag?: string;
+  /** Player user IDs tagged on the entry (`roblox-entry-userids`), used for GDPR erasure */
+  userIds?: number[];
+  /** Custom metadata (`roblox-entry-attributes`) */
+  attributes?: Record<string, unknown>;
+  /** Base64 MD5 of the stored value, verified against the body on read */
+  contentMd5?: string;
 }
 
-export async function getEntry<T = unknown>(
-  http: HttpClient,
-  cfg: OpenCloudConfig,
-  datastoreName: string,
-  key: string,
-  scope?: string
-): Promise<{ success: true; data: EntryResponse<T> } | { success: false; error: string }> {
-  const url = `/datastores/v1/universes/${cfg.universeId}/standard-datastores/datastore/${encodeURIComponent(
+/** Open Cloud limits on entry metadata */
+export const MAX_ENTRY_USER_IDS = 4;
+export const MAX_ENTRY_ATTRIBUTES_LENGTH = 300;
+
+function entryUrl(cfg: OpenCloudConfig, datastoreName: string): string {
+  return `/datastores/v1/universes/${cfg.universeId}/standard-datastores/datastore/${encodeURIComponent(
     datastoreName
   )}/entries/entry`;
+}
 
-  const res = await http.get(url, {
-    params: { key, scope: scope ?? cfg.defaultScope ?? 'global' },
-    headers: { Accept: 'application/json' },
-  });
+function resolveScope(cfg: OpenCloudConfig, scope?: string): string {
+  return scope ?? cfg.defaultScope ?? 'global';
+}
 
-  const etag = (res.headers?.etag as string | undefined) || undefined;
-  let value: any = res.data;
+/** Base64-encoded MD5 digest, the format of the `content-md5` header */
+export function contentMd5(body: string): string {
+  return createHash('md5').update(body, 'utf8').digest('base64');
+}
+
+function parseJsonHeader(value: unknown): unknown {
+  if (typeof value !== 'string' || value === '') return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turn an entry response into an EntryResponse, checking the body against its
+ * `content-md5` header. The body is requested as text so the digest covers the
+ * exact bytes Roblox stored.
+ */
+function readEntryResponse<T>(
+  res: { data: unknown; headers?: Record<string, unknown> }
+): { success: true; data: EntryResponse<T> } | { success: false; error: string } {
+  const headers = res.headers ?? {};
+  const raw = typeof res.data === 'string' ? res.data : JSON.stringify(res.data);
+  const expectedMd5 = (headers['content-md5'] as string | undefined) || undefined;
+  if (expectedMd5 && contentMd5(raw) !== expectedMd5) {
+    return { success: false, error: `content-md5 mismatch: expected ${expectedMd5}, got ${contentMd5(raw)}` };
+  }
+
+  const userIds = parseJsonHeader(headers['roblox-entry-userids']);
+  const attributes = parseJsonHeader(headers['roblox-entry-attributes']);
+  return {
+    success: true,
+    data: {
+      value: parseBody(res.data),
+      etag: (headers.etag as string | undefined) || undefined,
+      userIds: Array.isArray(userIds) ? userIds.map(Number) : undefined,
+      attributes: attributes && typeof attributes === 'object' && !Array.isArray(attributes)
+        ? (attributes as Record<string, unknown>)
+        : undefined,
+      contentMd5: expectedMd5,
+    },
+  };
+}
+
+function parseBody(data: unknown): any {
   // Axios parses JSON by default; in case of string body, try to JSON.parse
-  if (typeof value === 'string') {
+  if (typeof data === 'string') {
     try {
-      value = JSON.parse(value);
+      return JSON.parse(data);
     } catch {
       // keep as string
     }
   }
-  return { success: true, data: { value, etag } };
+  return data;
+}
+
+export async function getEntry<T = unknown>(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  datastoreName: string,
+  key: string,
+  scope?: string
+): Promise<{ success: true; data: EntryResponse<T> } | { success: false; error: string }> {
+  const res = await http.get(entryUrl(cfg, datastoreName), {
+    params: { key, scope: resolveScope(cfg, scope) },
+    headers: { Accept: 'application/json' },
+    responseType: 'text',
+  });
+  return readEntryResponse<T>(res);
 }
 
 export interface SetOptions {
   scope?: string;
   ifMatch?: string; // ETag precondition
   ifNoneMatch?: '*' | string; // typically '*'
+  /** Player user IDs to tag the entry with (at most 4) */
+  userIds?: number[];
+  /** Custom metadata; at most 300 characters once serialized */
+  attributes?: Record<string, unknown>;
 }
 
 export async function setEntry(
@@ -69,22 +244,197 @@ export async function setEntry(
   value: unknown,
   options?: SetOptions
 ): Promise<{ success: true; etag?: string } | { success: false; error: string }> {
-  const url = `/datastores/v1/universes/${cfg.universeId}/standard-datastores/datastore/${encodeURIComponent(
-    datastoreName
-  )}/entries/entry`;
-
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     Accept: 'application/json',
   };
   if (options?.ifMatch) headers['If-Match'] = options.ifMatch;
   if (options?.ifNoneMatch) headers['If-None-Match'] = options.ifNoneMatch;
+  if (options?.userIds) {
+    if (options.userIds.length > MAX_ENTRY_USER_IDS) {
+      return { success: false, error: `At most ${MAX_ENTRY_USER_IDS} user IDs can be tagged on an entry` };
+    }
+    headers['roblox-entry-userids'] = JSON.stringify(options.userIds);
+  }
+  if (options?.attributes) {
+    const attributes = JSON.stringify(options.attributes);
+    if (attributes.length > MAX_ENTRY_ATTRIBUTES_LENGTH) {
+      return { success: false, error: `Entry attributes exceed ${MAX_ENTRY_ATTRIBUTES_LENGTH} characters` };
+    }
+    headers['roblox-entry-attributes'] = attributes;
+  }
 
   const body = typeof value === 'string' ? value : JSON.stringify(value);
-  const res = await http.post(url, body, {
-    params: { key, scope: options?.scope ?? cfg.defaultScope ?? 'global' },
+  headers['content-md5'] = contentMd5(body);
+  const res = await http.post(entryUrl(cfg, datastoreName), body, {
+    params: { key, scope: resolveScope(cfg, options?.scope) },
     headers,
   });
   const etag = (res.headers?.etag as string | undefined) || undefined;
   return { success: true, etag };
 }
+
+export interface DeleteOptions {
+  scope?: string;
+  ifMatch?: string; // ETag precondition
+}
+
+export async function deleteEntry(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  datastoreName: string,
+  key: string,
+  options?: DeleteOptions
+): Promise<{ success: true } | { success: false; error: string }> {
+  const headers: Record<string, string> = {};
+  if (options?.ifMatch) headers['If-Match'] = options.ifMatch;
+
+  await http.delete(entryUrl(cfg, datastoreName), {
+    params: { key, scope: resolveScope(cfg, options?.scope) },
+    headers,
+  });
+  return { success: true };
+}
+
+/**
+ * Atomically add `incrementBy` to a numeric entry; a missing entry counts as 0
+ */
+export async function incrementEntry(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  datastoreName: string,
+  key: string,
+  incrementBy: number,
+  scope?: string
+): Promise<{ success: true; value: number; etag?: string } | { success: false; error: string }> {
+  if (!Number.isInteger(incrementBy)) {
+    return { success: false, error: 'incrementBy must be an integer' };
+  }
+
+  const res = await http.post(`${entryUrl(cfg, datastoreName)}/increment`, undefined, {
+    params: { key, scope: resolveScope(cfg, scope), incrementBy },
+    headers: { Accept: 'application/json' },
+  });
+  const value = parseBody(res.data);
+  if (typeof value !== 'number') {
+    return { success: false, error: `Entry ${key} is not numeric` };
+  }
+  const etag = (res.headers?.etag as string | undefined) || undefined;
+  return { success: true, value, etag };
+}
+
+export interface EntryVersion {
+  version: string;
+  deleted: boolean;
+  contentLength: number;
+  createdTime: string;
+  objectCreatedTime: string;
+}
+
+export interface ListVersionsOptions {
+  scope?: string;
+  /** ISO timestamps bounding the version creation time */
+  startTime?: string;
+  endTime?: string;
+  sortOrder?: 'Ascending' | 'Descending';
+  limit?: number;
+  cursor?: string;
+}
+
+export async function listEntryVersions(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  datastoreName: string,
+  key: string,
+  opts?: ListVersionsOptions
+): Promise<{ success: true; versions: EntryVersion[]; nextPageCursor?: string } | { success: false; error: string }> {
+  const params: Record<string, string | number> = { key, scope: resolveScope(cfg, opts?.scope) };
+  if (opts?.startTime) params.startTime = opts.startTime;
+  if (opts?.endTime) params.endTime = opts.endTime;
+  if (opts?.sortOrder) params.sortOrder = opts.sortOrder;
+  if (opts?.limit) params.limit = clampLimit(opts.limit)!;
+  if (opts?.cursor) params.cursor = opts.cursor;
+
+  const res = await http.get<{ versions?: EntryVersion[]; nextPageCursor?: string }>(
+    `${entryUrl(cfg, datastoreName)}/versions`,
+    { params }
+  );
+  return {
+    success: true,
+    versions: res.data.versions || [],
+    nextPageCursor: res.data.nextPageCursor || undefined,
+  };
+}
+
+export async function getEntryVersion<T = unknown>(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  datastoreName: string,
+  key: string,
+  versionId: string,
+  scope?: string
+): Promise<{ success: true; data: EntryResponse<T> & { version: string } } | { success: false; error: string }> {
+  const res = await http.get(`${entryUrl(cfg, datastoreName)}/versions/version`, {
+    params: { key, scope: resolveScope(cfg, scope), versionId },
+    headers: { Accept: 'application/json' },
+    responseType: 'text',
+  });
+  const entry = readEntryResponse<T>(res);
+  if (!entry.success) return entry;
+  return { success: true, data: { ...entry.data, version: versionId } };
+}
+
+export interface RestoreOptions {
+  scope?: string;
+  /** ETag the current entry must still have; read from the entry when omitted */
+  ifMatch?: string;
+  /** Called with the old value before it is written; throw to refuse the restore */
+  validate?: (value: unknown) => void;
+}
+
+/**
+ * Write an old version of an entry back as its current value. The write is
+ * guarded with If-Match (or If-None-Match: * when the entry was deleted), so a
+ * concurrent write between the read and the restore makes it fail instead of
+ * being overwritten.
+ */
+export async function restoreEntryVersion(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  datastoreName: string,
+  key: string,
+  versionId: string,
+  options?: RestoreOptions
+): Promise<
+  { success: true; restoredVersion: string; previousEtag?: string; etag?: string } | { success: false; error: string }
+> {
+  const old = await getEntryVersion(http, cfg, datastoreName, key, versionId, options?.scope);
+  if (!old.success) return old;
+  options?.validate?.(old.data.value);
+
+  let previousEtag = options?.ifMatch;
+  let missing = false;
+  if (!previousEtag) {
+    try {
+      const current = await getEntry(http, cfg, datastoreName, key, options?.scope);
+      if (!current.success) return current;
+      previousEtag = current.data.etag;
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) throw error;
+      missing = true;
+    }
+    if (!missing && !previousEtag) {
+      return { success: false, error: `Entry ${key} has no ETag; pass ifMatch to restore it` };
+    }
+  }
+
+  // setEntry sends strings as-is, so serialize here to keep string values quoted
+  const written = await setEntry(http, cfg, datastoreName, key, JSON.stringify(old.data.value), {
+    scope: options?.scope,
+    userIds: old.data.userIds,
+    attributes: old.data.attributes,
+    ...(missing ? { ifNoneMatch: '*' } : { ifMatch: previousEtag }),
+  });
+  if (!written.success) return written;
+  return { success: true, restoredVersion: versionId, previousEtag, etag: written.etag };
+}
@@ -0,0 +1,473 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createHash } from 'crypto';
+import { AddressInfo } from 'net';
+
+/**
+ * In-process stand-in for the Open Cloud APIs this server calls: standard
+ * data stores (entries, ETags, versions, scopes), ordered data stores and
+ * messaging topics. Point the client at it with ROBLOX_OPEN_CLOUD_BASE_URL.
+ */
+
+export interface EmulatorFault {
+  /** Only requests with this method (any when omitted) */
+  method?: string;
+  /** Only requests whose path matches */
+  path?: string | RegExp;
+  /** Status to answer with instead of handling the request */
+  status?: number;
+  /** `Retry-After` header for the injected response: seconds, or an HTTP date */
+  retryAfter?: number | string;
+  /** Delay before answering, in milliseconds */
+  delayMs?: number;
+  /** How many matching requests the fault applies to (default 1) */
+  times?: number;
+}
+
+export interface EmulatorOptions {
+  port?: number;
+  host?: string;
+  /** Require this `x-api-key`; any non-empty key is accepted when omitted */
+  apiKey?: string;
+  /** Delay added to every response, in milliseconds */
+  latencyMs?: number;
+}
+
+export interface StoredVersion {
+  version: string;
+  deleted: boolean;
+  contentLength: number;
+  createdTime: string;
+  objectCreatedTime: string;
+  /** Raw JSON body as written */
+  body: string;
+  userIds: string;
+  attributes: string;
+}
+
+export interface EmulatorState {
+  /** `datastore` → `scope/key` → versions, oldest first */
+  datastores: Map<string, Map<string, StoredVersion[]>>;
+  /** `orderedDataStore/scope` → key → value */
+  ordered: Map<string, Map<string, number>>;
+  /** topic → published message bodies */
+  messages: Map<string, string[]>;
+  /** Every request the emulator received, in order */
+  requests: { method: string; path: string; status: number }[];
+}
+
+export interface OpenCloudEmulator {
+  url: string;
+  state: EmulatorState;
+  /** Queue a fault; faults are consumed in the order they were added */
+  injectFault(fault: EmulatorFault): void;
+  clearFaults(): void;
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly code = 'INVALID_ARGUMENT') {
+    super(message);
+  }
+}
+
+interface Reply {
+  status?: number;
+  body?: unknown;
+  /** Send `body` as-is instead of JSON-encoding it */
+  raw?: boolean;
+  headers?: Record<string, string>;
+}
+
+const PAGE_SIZE = 50;
+
+function md5(body: string): string {
+  return createHash('md5').update(body, 'utf8').digest('base64');
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function page<T>(items: T[], limit: string | null, cursor: string | null) {
+  const start = cursor ? Number(Buffer.from(cursor, 'base64').toString('utf-8')) : 0;
+  if (!Number.isInteger(start) || start < 0) throw new HttpError(400, 'Invalid cursor');
+  const size = Math.min(Math.max(Number(limit) || PAGE_SIZE, 1), 100);
+  const end = start + size;
+  return {
+    items: items.slice(start, end),
+    nextPageCursor: end < items.length ? Buffer.from(String(end)).toString('base64') : '',
+  };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function parseJson(body: string): any {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Body must be JSON');
+  }
+}
+
+export async function startOpenCloudEmulator(options: EmulatorOptions = {}): Promise<OpenCloudEmulator> {
+  const state: EmulatorState = { datastores: new Map(), ordered: new Map(), messages: new Map(), requests: [] };
+  const faults: (EmulatorFault & { times: number })[] = [];
+  let versionCounter = 0;
+
+  const nextVersion = () => `0000000000000000.${String(++versionCounter).padStart(10, '0')}`;
+  const now = () => new Date().toISOString();
+
+  const entryVersions = (datastore: string, scope: string, key: string, create = false): StoredVersion[] | undefined => {
+    let store = state.datastores.get(datastore);
+    if (!store) {
+      if (!create) return undefined;
+      store = new Map();
+      state.datastores.set(datastore, store);
+    }
+    let versions = store.get(`${scope}/${key}`);
+    if (!versions && create) {
+      versions = [];
+      store.set(`${scope}/${key}`, versions);
+    }
+    return versions;
+  };
+
+  const current = (versions: StoredVersion[] | undefined) => {
+    const latest = versions?.[versions.length - 1];
+    return latest && !latest.deleted ? latest : undefined;
+  };
+
+  const entryReply = (entry: StoredVersion): Reply => ({
+    body: entry.body,
+    raw: true,
+    headers: {
+      etag: `"${entry.version}"`,
+      'content-md5': md5(entry.body),
+      'roblox-entry-version': entry.version,
+      'roblox-entry-created-time': entry.objectCreatedTime,
+      'roblox-entry-version-created-time': entry.createdTime,
+      'roblox-entry-userids': entry.userIds,
+      'roblox-entry-attributes': entry.attributes,
+    },
+  });
+
+  const versionInfo = ({ version, deleted, contentLength, createdTime, objectCreatedTime }: StoredVersion) => ({
+    version,
+    deleted,
+    contentLength,
+    createdTime,
+    objectCreatedTime,
+  });
+
+  const checkPreconditions = (req: IncomingMessage, entry: StoredVersion | undefined) => {
+    const ifMatch = req.headers['if-match'];
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifMatch && (!entry || ifMatch !== `"${entry.version}"`)) {
+      throw new HttpError(412, 'If-Match precondition failed', 'PRECONDITION_FAILED');
+    }
+    if (ifNoneMatch === '*' && entry) {
+      throw new HttpError(412, 'Entry already exists', 'PRECONDITION_FAILED');
+    }
+    if (ifNoneMatch && ifNoneMatch !== '*' && entry && ifNoneMatch === `"${entry.version}"`) {
+      throw new HttpError(412, 'If-None-Match precondition failed', 'PRECONDITION_FAILED');
+    }
+  };
+
+  const writeEntry = (
+    datastore: string,
+    scope: string,
+    key: string,
+    body: string,
+    meta: { userIds?: string; attributes?: string }
+  ): StoredVersion => {
+    const versions = entryVersions(datastore, scope, key, true)!;
+    const previous = current(versions);
+    const time = now();
+    const entry: StoredVersion = {
+      version: nextVersion(),
+      deleted: false,
+      contentLength: Buffer.byteLength(body, 'utf8'),
+      createdTime: time,
+      objectCreatedTime: previous?.objectCreatedTime ?? time,
+      body,
+      userIds: meta.userIds ?? previous?.userIds ?? '[]',
+      attributes: meta.attributes ?? previous?.attributes ?? '{}',
+    };
+    versions.push(entry);
+    return entry;
+  };
+
+  async function handleStandard(req: IncomingMessage, url: URL, rest: string[]): Promise<Reply> {
+    const method = req.method ?? 'GET';
+    const query = url.searchParams;
+
+    // standard-datastores
+    if (rest.length === 0 && method === 'GET') {
+      const prefix = query.get('prefix') ?? '';
+      const names = [...state.datastores.keys()].filter((name) => name.startsWith(prefix)).sort();
+      const { items, nextPageCursor } = page(names, query.get('limit'), query.get('cursor'));
+      return { body: { datastores: items.map((name) => ({ name, createdTime: now() })), nextPageCursor } };
+    }
+
+    // standard-datastores/datastore/entries
+    if (rest.join('/') === 'datastore/entries' && method === 'GET') {
+      const datastore = query.get('datastoreName');
+      if (!datastore) throw new HttpError(400, 'datastoreName is required');
+      const allScopes = query.get('AllScopes') === 'true';
+      const scope = query.get('scope') ?? 'global';
+      const prefix = query.get('prefix') ?? '';
+      const keys = [...(state.datastores.get(datastore)?.entries() ?? [])]
+        .filter(([, versions]) => current(versions))
+        .map(([scopedKey]) => {
+          const slash = scopedKey.indexOf('/');
+          return { scope: scopedKey.slice(0, slash), key: scopedKey.slice(slash + 1) };
+        })
+        .filter((k) => (allScopes ? `${k.scope}/${k.key}`.startsWith(prefix) : k.scope === scope && k.key.startsWith(prefix)))
+        .sort((a, b) => `${a.scope}/${a.key}`.localeCompare(`${b.scope}/${b.key}`));
+      const { items, nextPageCursor } = page(keys, query.get('limit'), query.get('cursor'));
+      return { body: { keys: items, nextPageCursor } };
+    }
+
+    // standard-datastores/datastore/{name}/entries/entry[/increment|/versions[/version]]
+    if (rest[0] !== 'datastore' || rest[2] !== 'entries' || rest[3] !== 'entry') {
+      throw new HttpError(404, 'Not found', 'NOT_FOUND');
+    }
+    const datastore = decodeURIComponent(rest[1]);
+    const action = rest.slice(4).join('/');
+    const key = query.get('key');
+    if (!key) throw new HttpError(400, 'key is required');
+    const scope = query.get('scope') ?? 'global';
+    const versions = entryVersions(datastore, scope, key);
+    const entry = current(versions);
+
+    if (action === '' && method === 'GET') {
+      if (!entry) throw new HttpError(404, 'Entry not found', 'NOT_FOUND');
+      return entryReply(entry);
+    }
+    if (action === '' && method === 'POST') {
+      const body = await readBody(req);
+      parseJson(body);
+      const expectedMd5 = req.headers['content-md5'];
+      if (typeof expectedMd5 === 'string' && expectedMd5 !== md5(body)) {
+        throw new HttpError(400, 'content-md5 does not match the body');
+      }
+      checkPreconditions(req, entry);
+      // A write replaces the metadata too; increments keep it
+      const written = writeEntry(datastore, scope, key, body, {
+        userIds: (req.headers['roblox-entry-userids'] as string | undefined) ?? '[]',
+        attributes: (req.headers['roblox-entry-attributes'] as string | undefined) ?? '{}',
+      });
+      return { body: versionInfo(written), headers: { etag: `"${written.version}"` } };
+    }
+    if (action === '' && method === 'DELETE') {
+      if (!entry) throw new HttpError(404, 'Entry not found', 'NOT_FOUND');
+      checkPreconditions(req, entry);
+      versions!.push({ ...entry, version: nextVersion(), deleted: true, createdTime: now(), contentLength: 0, body: '' });
+      return { status: 204 };
+    }
+    if (action === 'increment' && method === 'POST') {
+      const incrementBy = Number(query.get('incrementBy'));
+      if (!Number.isInteger(incrementBy)) throw new HttpError(400, 'incrementBy must be an integer');
+      const previous = entry ? parseJson(entry.body) : 0;
+      if (typeof previous !== 'number') throw new HttpError(400, 'Entry is not numeric');
+      const written = writeEntry(datastore, scope, key, JSON.stringify(previous + incrementBy), {});
+      return entryReply(written);
+    }
+    if (action === 'versions' && method === 'GET') {
+      if (!versions) throw new HttpError(404, 'Entry not found', 'NOT_FOUND');
+      const startTime = query.get('startTime');
+      const endTime = query.get('endTime');
+      let list = versions.filter((v) => (!startTime || v.createdTime >= startTime) && (!endTime || v.createdTime <= endTime));
+      if (query.get('sortOrder') === 'Descending') list = [...list].reverse();
+      const { items, nextPageCursor } = page(list.map(versionInfo), query.get('limit'), query.get('cursor'));
+      return { body: { versions: items, nextPageCursor } };
+    }
+    if (action === 'versions/version' && method === 'GET') {
+      const version = versions?.find((v) => v.version === query.get('versionId'));
+      if (!version || version.deleted) throw new HttpError(404, 'Version not found', 'NOT_FOUND');
+      return entryReply(version);
+    }
+    throw new HttpError(404, 'Not found', 'NOT_FOUND');
+  }
+
+  async function handleOrdered(req: IncomingMessage, url: URL, name: string, scope: string, rest: string[]): Promise<Reply> {
+    const method = req.method ?? 'GET';
+    const storeKey = `${name}/${scope}`;
+    let store = state.ordered.get(storeKey);
+    if (!store) {
+      store = new Map();
+      state.ordered.set(storeKey, store);
+    }
+    const entryPath = `universes/${url.pathname.split('/')[4]}/orderedDataStores/${name}/scopes/${scope}/entries`;
+    const toEntry = (id: string, value: number) => ({ path: `${entryPath}/${id}`, id, value });
+
+    if (rest.length === 0 && method === 'GET') {
+      const filter = url.searchParams.get('filter') ?? '';
+      const bounds = [...filter.matchAll(/entry\s*(>=|<=)\s*(-?\d+)/g)];
+      let entries = [...store.entries()].filter(([, value]) =>
+        bounds.every(([, op, bound]) => (op === '>=' ? value >= Number(bound) : value <= Number(bound)))
+      );
+      const descending = url.searchParams.get('order_by') === 'desc';
+      entries = entries.sort(([ak, av], [bk, bv]) => (descending ? bv - av : av - bv) || ak.localeCompare(bk));
+      const { items, nextPageCursor } = page(
+        entries.map(([id, value]) => toEntry(id, value)),
+        url.searchParams.get('max_page_size'),
+        url.searchParams.get('page_token')
+      );
+      return { body: { entries: items, nextPageToken: nextPageCursor } };
+    }
+    if (rest.length === 0 && method === 'POST') {
+      const id = url.searchParams.get('id');
+      if (!id) throw new HttpError(400, 'id is required');
+      if (store.has(id)) throw new HttpError(409, 'Entry already exists', 'ALREADY_EXISTS');
+      const { value } = parseJson(await readBody(req));
+      if (!Number.isSafeInteger(value)) throw new HttpError(400, 'value must be an integer');
+      store.set(id, value);
+      return { body: toEntry(id, value) };
+    }
+
+    const [idPart] = rest;
+    const increment = idPart?.endsWith(':increment');
+    const id = decodeURIComponent(increment ? idPart.slice(0, -':increment'.length) : idPart ?? '');
+    if (rest.length !== 1 || !id) throw new HttpError(404, 'Not found', 'NOT_FOUND');
+
+    if (increment && method === 'POST') {
+      const { amount } = parseJson(await readBody(req));
+      if (!Number.isSafeInteger(amount)) throw new HttpError(400, 'amount must be an integer');
+      store.set(id, (store.get(id) ?? 0) + amount);
+      return { body: toEntry(id, store.get(id)!) };
+    }
+    if (method === 'GET') {
+      if (!store.has(id)) throw new HttpError(404, 'Entry not found', 'NOT_FOUND');
+      return { body: toEntry(id, store.get(id)!) };
+    }
+    if (method === 'PATCH') {
+      if (!store.has(id) && url.searchParams.get('allow_missing') !== 'true') {
+        throw new HttpError(404, 'Entry not found', 'NOT_FOUND');
+      }
+      const { value } = parseJson(await readBody(req));
+      if (!Number.isSafeInteger(value)) throw new HttpError(400, 'value must be an integer');
+      store.set(id, value);
+      return { body: toEntry(id, value) };
+    }
+    if (method === 'DELETE') {
+      if (!store.delete(id)) throw new HttpError(404, 'Entry not found', 'NOT_FOUND');
+      return { status: 204 };
+    }
+    throw new HttpError(404, 'Not found', 'NOT_FOUND');
+  }
+
+  async function route(req: IncomingMessage, url: URL): Promise<Reply> {
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    // /datastores/v1/universes/{id}/standard-datastores/...
+    if (parts[0] === 'datastores' && parts[1] === 'v1' && parts[2] === 'universes' && parts[4] === 'standard-datastores') {
+      return handleStandard(req, url, parts.slice(5));
+    }
+    // /ordered-data-stores/v1/universes/{id}/orderedDataStores/{name}/scopes/{scope}/entries/...
+    if (parts[0] === 'ordered-data-stores' && parts[3] && parts[4] === 'orderedDataStores' && parts[6] === 'scopes' && parts[8] === 'entries') {
+      return handleOrdered(req, url, decodeURIComponent(parts[5]), decodeURIComponent(parts[7]), parts.slice(9));
+    }
+    // /messaging-service/v1/universes/{id}/topics/{topic}
+    if (parts[0] === 'messaging-service' && parts[4] === 'topics' && parts[5] && req.method === 'POST') {
+      const topic = decodeURIComponent(parts[5]);
+      const body = await readBody(req);
+      state.messages.set(topic, [...(state.messages.get(topic) ?? []), body]);
+      return { status: 200, body: {} };
+    }
+    throw new HttpError(404, `No emulated endpoint for ${req.method} ${url.pathname}`, 'NOT_FOUND');
+  }
+
+  const takeFault = (method: string, pathname: string): EmulatorFault | undefined => {
+    const index = faults.findIndex((fault) => {
+      if (fault.method && fault.method.toUpperCase() !== method) return false;
+      if (typeof fault.path === 'string') return pathname.includes(fault.path);
+      if (fault.path instanceof RegExp) return fault.path.test(pathname);
+      return true;
+    });
+    if (index === -1) return undefined;
+    const fault = faults[index];
+    fault.times -= 1;
+    if (fault.times <= 0) faults.splice(index, 1);
+    return fault;
+  };
+
+  const send = (res: ServerResponse, reply: Reply) => {
+    const status = reply.status ?? 200;
+    const headers: Record<string, string> = { 'x-request-id': `emu-${state.requests.length}`, ...reply.headers };
+    if (reply.body === undefined || status === 204) {
+      res.writeHead(status, headers).end();
+      return;
+    }
+    const body = reply.raw ? String(reply.body) : JSON.stringify(reply.body);
+    res.writeHead(status, { 'content-type': 'application/json', ...headers }).end(body);
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://emulator');
+    const method = (req.method ?? 'GET').toUpperCase();
+    let reply: Reply;
+    try {
+      if (options.latencyMs) await sleep(options.latencyMs);
+      const key = req.headers['x-api-key'];
+      if (!key || (options.apiKey && key !== options.apiKey)) {
+        throw new HttpError(401, 'Invalid API key', 'UNAUTHENTICATED');
+      }
+
+      const fault = takeFault(method, url.pathname);
+      if (fault?.delayMs) await sleep(fault.delayMs);
+      if (fault?.status) {
+        const headers: Record<string, string> = {};
+        if (fault.retryAfter !== undefined) headers['retry-after'] = String(fault.retryAfter);
+        reply = { status: fault.status, body: { code: 'INJECTED_FAULT', message: `Injected ${fault.status}` }, headers };
+      } else {
+        reply = await route(req, url);
+      }
+    } catch (error) {
+      reply = error instanceof HttpError
+        ? { status: error.status, body: { code: error.code, message: error.message } }
+        : { status: 500, body: { code: 'INTERNAL', message: error instanceof Error ? error.message : 'Unknown error' } };
+    }
+    state.requests.push({ method, path: url.pathname, status: reply.status ?? 200 });
+    send(res, reply);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => resolve());
+  });
+  const address = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://${options.host ?? '127.0.0.1'}:${address.port}`,
+    state,
+    injectFault(fault) {
+      faults.push({ ...fault, times: fault.times ?? 1 });
+    },
+    clearFaults() {
+      faults.length = 0;
+    },
+    close() {
+      return new Promise<void>((resolve) => {
+        httpServer.closeAllConnections();
+        httpServer.close(() => resolve());
+      });
+    },
+  };
+}
+
+// `node dist/roblox-cloud/emulator.js` runs the emulator on its own for offline development
+if (require.main === module) {
+  const port = Number(process.env.ROBLOX_EMULATOR_PORT || 8787);
+  startOpenCloudEmulator({ port }).then((emulator) => {
+    console.error(`Open Cloud emulator listening on ${emulator.url}`);
+    console.error(`Set ROBLOX_OPEN_CLOUD_BASE_URL=${emulator.url} to use it`);
+    const stop = () => emulator.close().then(() => process.exit(0));
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+}
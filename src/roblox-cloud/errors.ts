@@ -0,0 +1,241 @@
+/**
+ * Typed errors for failed Open Cloud responses. The HTTP client throws these
+ * so tools can tell a missing API-key permission from a missing entry or a
+ * lost ETag race, and tell the caller what to do about it.
+ */
+
+export type OpenCloudErrorKind =
+  | 'unauthorized'
+  | 'insufficient_scope'
+  | 'not_found'
+  | 'precondition_failed'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'other';
+
+export interface OpenCloudErrorInfo {
+  status: number;
+  method: string;
+  /** URL path without the query string */
+  path: string;
+  requestId?: string;
+  /** Error code from the response body, e.g. `PERMISSION_DENIED` */
+  code?: string;
+  /** Server's own description of the failure */
+  serverMessage?: string;
+  /** Response body as received */
+  data?: unknown;
+  retryAfterMs?: number;
+}
+
+export class OpenCloudError extends Error {
+  readonly kind: OpenCloudErrorKind = 'other';
+  readonly status: number;
+  readonly method: string;
+  readonly path: string;
+  readonly requestId?: string;
+  readonly code?: string;
+  readonly data?: unknown;
+  /** What the caller can do to fix the failure */
+  readonly hint?: string;
+
+  constructor(info: OpenCloudErrorInfo, hint?: string) {
+    const req = info.requestId ? ` (req ${info.requestId})` : '';
+    const detail = [info.code, info.serverMessage].filter(Boolean).join(': ');
+    super(`Open Cloud error ${info.status}${req}${detail ? `: ${detail}` : ''}`);
+    this.name = 'OpenCloudError';
+    this.status = info.status;
+    this.method = info.method;
+    this.path = info.path;
+    this.requestId = info.requestId;
+    this.code = info.code;
+    this.data = info.data;
+    this.hint = hint;
+  }
+
+  toJSON() {
+    return {
+      kind: this.kind,
+      status: this.status,
+      code: this.code,
+      requestId: this.requestId,
+      method: this.method,
+      path: this.path,
+      hint: this.hint,
+    };
+  }
+}
+
+/** 401: the API key is missing, wrong, expired or revoked */
+export class UnauthorizedError extends OpenCloudError {
+  readonly kind = 'unauthorized';
+
+  constructor(info: OpenCloudErrorInfo) {
+    super(info, 'Check that the API key is correct, enabled and not expired (ROBLOX_API_KEY or the profile key)');
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/** 403: the API key lacks the permission, experience or IP access the request needs */
+export class InsufficientScopeError extends OpenCloudError {
+  readonly kind = 'insufficient_scope';
+  /** API-key permission the request needs, when it can be told from the path */
+  readonly permission?: string;
+
+  constructor(info: OpenCloudErrorInfo) {
+    const permission = requiredPermission(info.method, info.path);
+    super(
+      info,
+      permission
+        ? `The API key needs ${permission} on this experience; also check its accepted IP addresses`
+        : 'Check the API key permissions for this experience and its accepted IP addresses'
+    );
+    this.name = 'InsufficientScopeError';
+    this.permission = permission;
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), permission: this.permission };
+  }
+}
+
+/** 404: the universe, data store, entry or version does not exist */
+export class NotFoundError extends OpenCloudError {
+  readonly kind = 'not_found';
+
+  constructor(info: OpenCloudErrorInfo) {
+    super(info, 'Check the universe ID, data store name, scope and key; list them to see what exists');
+    this.name = 'NotFoundError';
+  }
+}
+
+/** 412: an If-Match/If-None-Match precondition failed because the entry changed */
+export class PreconditionFailedError extends OpenCloudError {
+  readonly kind = 'precondition_failed';
+
+  constructor(info: OpenCloudErrorInfo) {
+    super(info, 'The entry changed since it was read; read it again for the current ETag and retry');
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+/** 413: the request body is over the API's size limit */
+export class PayloadTooLargeError extends OpenCloudError {
+  readonly kind = 'payload_too_large';
+
+  constructor(info: OpenCloudErrorInfo) {
+    super(info, 'The value is over the size limit for this API; split it across several keys');
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/** 429: the request was throttled and retries ran out */
+export class RateLimitedError extends OpenCloudError {
+  readonly kind = 'rate_limited';
+  readonly retryAfterMs?: number;
+
+  constructor(info: OpenCloudErrorInfo) {
+    const wait = info.retryAfterMs !== undefined ? `after ${Math.ceil(info.retryAfterMs / 1000)}s` : 'later';
+    super(info, `Rate limited by Open Cloud; retry ${wait} or lower the request rate`);
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = info.retryAfterMs;
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), retryAfterMs: this.retryAfterMs };
+  }
+}
+
+// API-key permission each API needs, by path and method. Order matters: more specific paths first.
+const PERMISSIONS: { path: RegExp; permission: (method: string, urlPath: string) => string }[] = [
+  {
+    path: /\/standard-datastores\/datastore\/[^/]+\/entries\/entry\/versions/,
+    permission: (_method, urlPath) => `universe-datastores.versions:${/\/versions\/version/.test(urlPath) ? 'read' : 'list'}`,
+  },
+  {
+    path: /\/standard-datastores\/datastore\/[^/]+\/entries\/entry\/increment/,
+    permission: () => 'universe-datastores.objects:update',
+  },
+  {
+    path: /\/standard-datastores\/datastore\/[^/]+\/entries\/entry/,
+    permission: (method) =>
+      ({ GET: 'universe-datastores.objects:read', DELETE: 'universe-datastores.objects:delete' })[method] ??
+      'universe-datastores.objects:create and universe-datastores.objects:update',
+  },
+  { path: /\/standard-datastores\/datastore\/entries/, permission: () => 'universe-datastores.objects:list' },
+  { path: /\/standard-datastores\/?$/, permission: () => 'universe-datastores.control:list' },
+  {
+    path: /\/orderedDataStores\//,
+    permission: (method) => `universe.ordered-data-store.scope.entry:${method === 'GET' ? 'read' : 'write'}`,
+  },
+  {
+    path: /\/memory-store\/sorted-maps\//,
+    permission: (method) => `memory-store.sorted-map:${method === 'GET' ? 'read' : 'write'}`,
+  },
+  { path: /\/memory-store\/queues\/[^/]+\/items:read/, permission: () => 'memory-store.queue:dequeue' },
+  { path: /\/memory-store\/queues\/[^/]+\/items:discard/, permission: () => 'memory-store.queue:discard' },
+  { path: /\/memory-store\/queues\//, permission: () => 'memory-store.queue:add' },
+  { path: /\/messaging-service\//, permission: () => 'universe-messaging-service:publish' },
+  {
+    path: /\/luau-execution-session/,
+    permission: (method) => `universe.place.luau-execution-session:${method === 'GET' ? 'read' : 'write'}`,
+  },
+  { path: /\/universes\/v1\/[^/]+\/places\//, permission: () => 'universe-places:write' },
+];
+
+/**
+ * API-key permission a request needs, e.g. `universe-datastores.objects:read`
+ */
+export function requiredPermission(method: string, urlPath: string): string | undefined {
+  const rule = PERMISSIONS.find((p) => p.path.test(urlPath));
+  return rule?.permission(method.toUpperCase(), urlPath);
+}
+
+/**
+ * Error code and message from an Open Cloud error body. The v1 APIs send
+ * `{ error, message }`, v2 sends `{ code, message }` and older endpoints
+ * `{ errors: [{ code, message }] }`.
+ */
+function readErrorBody(data: unknown): { code?: string; message?: string } {
+  let body = data;
+  if (typeof data === 'string') {
+    try {
+      body = JSON.parse(data);
+    } catch {
+      return { message: data.trim().slice(0, 200) || undefined };
+    }
+  }
+  if (!body || typeof body !== 'object') return {};
+  const record = body as Record<string, any>;
+  const first = Array.isArray(record.errors) ? record.errors[0] : undefined;
+  const code = record.error ?? record.code ?? first?.code;
+  const message = record.message ?? first?.message;
+  return {
+    code: typeof code === 'string' || typeof code === 'number' ? String(code) : undefined,
+    message: typeof message === 'string' ? message : undefined,
+  };
+}
+
+/**
+ * Build the typed error for a failed Open Cloud response
+ */
+export function toOpenCloudError(info: Omit<OpenCloudErrorInfo, 'code' | 'serverMessage'>): OpenCloudError {
+  const { code, message } = readErrorBody(info.data);
+  const full: OpenCloudErrorInfo = { ...info, method: info.method.toUpperCase(), code, serverMessage: message };
+  switch (info.status) {
+    case 401:
+      return new UnauthorizedError(full);
+    case 403:
+      return new InsufficientScopeError(full);
+    case 404:
+      return new NotFoundError(full);
+    case 412:
+      return new PreconditionFailedError(full);
+    case 413:
+      return new PayloadTooLargeError(full);
+    case 429:
+      return new RateLimitedError(full);
+    default:
+      return new OpenCloudError(full);
+  }
+}
@@ -0,0 +1,162 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { OpenCloudConfig, redact } from './config.js';
+
+/** Per-call safeguards for requests that change data */
+export interface RequestGuard {
+  /** Describe the first mutating request instead of sending it */
+  dryRun?: boolean;
+  /** The caller passed the confirm token required by protected profiles */
+  confirmed?: boolean;
+}
+
+/** A request as it would go over the wire */
+export interface DescribedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  /** Conditional headers that make the write fail if the target changed */
+  preconditions: Record<string, string>;
+}
+
+/** Thrown instead of sending a mutating request in dry-run mode */
+export class DryRunInterrupt extends Error {
+  constructor(readonly request: DescribedRequest) {
+    super(`Dry run: ${request.method} ${request.url} was not sent`);
+    this.name = 'DryRunInterrupt';
+  }
+}
+
+/** Thrown when a read-only or protected profile refuses a mutating request */
+export class WriteBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WriteBlockedError';
+  }
+}
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+/** Conditional request headers, lower-case */
+export const PRECONDITION_HEADERS = ['if-match', 'if-none-match'];
+
+export function isMutatingMethod(method: string | undefined): boolean {
+  return !SAFE_METHODS.has((method || 'get').toUpperCase());
+}
+
+/**
+ * Whether a request changes data: its `mutating` flag when set (e.g. a
+ * MemoryStore queue read, which hides the items it returns), else its method
+ */
+export function isMutating(req: Pick<InternalAxiosRequestConfig, 'method' | 'mutating'>): boolean {
+  return req.mutating ?? isMutatingMethod(req.method);
+}
+
+function describeBody(data: unknown): string | undefined {
+  if (data === undefined || data === null) return undefined;
+  if (typeof data === 'string') return data;
+  if (Buffer.isBuffer(data)) return `<${data.length} bytes>`;
+  return JSON.stringify(data);
+}
+
+export function describeRequest(http: AxiosInstance, req: InternalAxiosRequestConfig): DescribedRequest {
+  const headers: Record<string, string> = {};
+  const preconditions: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers.toJSON())) {
+    if (value === undefined || value === null) continue;
+    const text = name.toLowerCase() === 'x-api-key' ? redact(String(value)) : String(value);
+    headers[name] = text;
+    if (PRECONDITION_HEADERS.includes(name.toLowerCase())) preconditions[name] = text;
+  }
+  return {
+    method: (req.method || 'get').toUpperCase(),
+    url: http.getUri(req),
+    headers,
+    body: describeBody(req.data),
+    preconditions,
+  };
+}
+
+/**
+ * Apply read-only, protected and dry-run rules to an outgoing request.
+ * Reads always pass so multi-step tools can prepare their write.
+ */
+export function guardRequest(
+  http: AxiosInstance,
+  cfg: OpenCloudConfig,
+  guard: RequestGuard,
+  req: InternalAxiosRequestConfig
+): void {
+  if (!isMutating(req)) return;
+
+  const profile = cfg.profile ? `Open Cloud profile "${cfg.profile}"` : 'Open Cloud configuration';
+  if (cfg.readOnly) {
+    const { method, url } = describeRequest(http, req);
+    throw new WriteBlockedError(`${profile} is read-only; ${method} ${url} was not sent`);
+  }
+  if (guard.dryRun) {
+    throw new DryRunInterrupt(describeRequest(http, req));
+  }
+  if (cfg.protected && !guard.confirmed) {
+    throw new WriteBlockedError(
+      `${profile} (universe ${cfg.universeId}) is protected; run the tool with dryRun to review the request and get its confirm token (valid for ${CONFIRM_TOKEN_TTL_MS / 60_000} minutes)`
+    );
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** How long the confirm token from a dry run stays valid */
+export const CONFIRM_TOKEN_TTL_MS = 5 * 60_000;
+
+// Signs confirm tokens; created per process, so a token cannot be computed
+// from the call alone and does not survive a server restart
+const CONFIRM_SECRET = randomBytes(32);
+
+function confirmSignature(tool: string, universeId: string, args: Record<string, unknown>, issuedAt: number): string {
+  return createHmac('sha256', CONFIRM_SECRET)
+    .update(stableStringify({ tool, universeId, args, issuedAt }))
+    .digest('hex')
+    .slice(0, 24);
+}
+
+/**
+ * Token that confirms one specific tool call against a protected universe:
+ * `<issued at, seconds>.<HMAC>`. It changes whenever the tool, universe or
+ * any argument changes, and expires after CONFIRM_TOKEN_TTL_MS.
+ */
+export function confirmToken(tool: string, universeId: string, args: Record<string, unknown>, now = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000);
+  return `${issuedAt}.${confirmSignature(tool, universeId, args, issuedAt)}`;
+}
+
+/**
+ * Whether a token from confirmToken matches this call and has not expired
+ */
+export function verifyConfirmToken(
+  token: string,
+  tool: string,
+  universeId: string,
+  args: Record<string, unknown>,
+  now = Date.now()
+): boolean {
+  const match = /^(\d+)\.([0-9a-f]+)$/.exec(token);
+  if (!match) return false;
+  const issuedAt = Number(match[1]);
+  const age = now - issuedAt * 1000;
+  // Allow for the second the issue time was rounded down to
+  if (age < -1000 || age > CONFIRM_TOKEN_TTL_MS) return false;
+  const expected = Buffer.from(confirmSignature(tool, universeId, args, issuedAt));
+  const actual = Buffer.from(match[2]);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -1,8 +1,49 @@
-import axios, { AxiosError, AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
 import { OpenCloudConfig, redact } from './config.js';
+import {
+  DryRunInterrupt,
+  PRECONDITION_HEADERS,
+  RequestGuard,
+  WriteBlockedError,
+  guardRequest,
+  isMutating,
+} from './guard.js';
+import { AuditEntry, appendAuditEntry, auditTarget, hashBody, loadAuditLogPathFromEnv } from './audit.js';
+import { RateLimitedError, toOpenCloudError } from './errors.js';
+import { MAX_RETRY_AFTER_MS, parseRateLimitHeaders, parseRetryAfter, rateLimitBucket, rateLimitKey } from './rate-limit.js';
 
 export type HttpClient = AxiosInstance;
 
+/** Per-request override of the client's retry behaviour */
+export interface RetryPolicy {
+  /**
+   * Replaying the request cannot apply it twice, so it may be retried even
+   * though its method changes data
+   */
+  idempotent?: boolean;
+  /** Total attempts including the first (default: maxRetries + 1) */
+  maxAttempts?: number;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    retry?: RetryPolicy;
+    /** Treat the request as a write whatever its method, for the write guard and retries */
+    mutating?: boolean;
+    /** Retries already made for this request */
+    retryCount?: number;
+    /** When the request interceptor saw the request, for the audit log's duration */
+    startedAt?: number;
+  }
+}
+
+export interface HttpClientOptions extends RequestGuard {
+  /** Tool making the calls, recorded in the audit log */
+  tool?: string;
+  /** Audit log file; `false` disables auditing (default: ROBLOX_AUDIT_LOG) */
+  auditLog?: string | false;
+}
+
 function sleep(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -12,9 +53,21 @@ function computeDelay(attempt: number, base = 300): number {
   return Math.min(5000, base * Math.pow(2, attempt)) + jitter;
 }
 
-export function createHttpClient(cfg: OpenCloudConfig): HttpClient {
+/**
+ * Reads are always safe to retry. A write is safe when its policy says so, or
+ * when it carries an If-Match/If-None-Match precondition: if the first attempt
+ * did land, the replay fails the precondition instead of writing again.
+ */
+function isRetrySafe(req: InternalAxiosRequestConfig): boolean {
+  if (req.retry?.idempotent !== undefined) return req.retry.idempotent;
+  if (!isMutating(req)) return true;
+  const headers = req.headers?.toJSON?.() ?? {};
+  return Object.keys(headers).some((name) => PRECONDITION_HEADERS.includes(name.toLowerCase()));
+}
+
+export function createHttpClient(cfg: OpenCloudConfig, options: HttpClientOptions = {}): HttpClient {
   const instance = axios.create({
-    baseURL: 'https://apis.roblox.com',
+    baseURL: cfg.baseUrl ?? 'https://apis.roblox.com',
     timeout: cfg.timeoutMs,
     headers: {
       'x-api-key': cfg.apiKey,
@@ -24,44 +77,89 @@ export function createHttpClient(cfg: OpenCloudConfig): HttpClient {
     validateStatus: () => true, // we handle non-2xx manually
   });
 
-  instance.interceptors.request.use((req) => {
+  const auditLog = options.auditLog === false ? undefined : options.auditLog ?? loadAuditLogPathFromEnv();
+  const audit = async (req: InternalAxiosRequestConfig, fields: Pick<AuditEntry, 'outcome' | 'status' | 'requestId'>) => {
+    if (!auditLog) return;
+    const urlPath = new URL(instance.getUri(req)).pathname;
+    await appendAuditEntry(auditLog, {
+      timestamp: new Date().toISOString(),
+      tool: options.tool,
+      profile: cfg.profile,
+      universeId: cfg.universeId,
+      method: (req.method || 'get').toUpperCase(),
+      path: urlPath,
+      ...auditTarget(urlPath, req.params),
+      bodySha256: hashBody(req.data),
+      durationMs: req.startedAt ? Date.now() - req.startedAt : undefined,
+      ...fields,
+    });
+  };
+
+  instance.interceptors.request.use(async (req) => {
     // Never log secrets; redact if needed
     if (req.headers) {
       const key = req.headers['x-api-key'] as string | undefined;
       if (key) req.headers['x-api-key'] = key; // ensure header present, but don't log
     }
+    req.startedAt = Date.now();
+    try {
+      guardRequest(instance, cfg, options, req);
+    } catch (error) {
+      await audit(req, { outcome: error instanceof DryRunInterrupt ? 'dry-run' : 'blocked' });
+      throw error;
+    }
+    // Wait for the universe's rate-limit bucket instead of running into 429s
+    const urlPath = new URL(instance.getUri(req)).pathname;
+    try {
+      await rateLimitBucket(rateLimitKey(cfg.universeId, urlPath)).take({ method: req.method || 'get', path: urlPath });
+    } catch (error) {
+      await audit(req, { outcome: 'blocked' });
+      throw error;
+    }
     return req;
   });
 
   instance.interceptors.response.use(
     async (res) => {
-      // Handle 429/5xx retries here for idempotent GET/PUT
-  const method = (res.config.method || 'get').toUpperCase();
-  const idempotent = method === 'GET' || method === 'HEAD' || method === 'OPTIONS';
-  const shouldRetry = (status: number) => status === 429 || (status >= 500 && status <= 599);
-  if (idempotent && shouldRetry(res.status)) {
-        const attempt = ((res.config as any).__retryCount || 0) as number;
-        if (attempt < cfg.maxRetries) {
-          (res.config as any).__retryCount = attempt + 1;
-          const retryAfterHeader = res.headers['retry-after'];
-          const retryAfter = retryAfterHeader ? Number(retryAfterHeader) * 1000 : computeDelay(attempt);
-          await sleep(retryAfter);
+      // Every attempt is audited, including ones that are retried below
+      const requestId = res.headers['x-request-id'] || res.headers['roblox-id'] || undefined;
+      await audit(res.config, { outcome: 'sent', status: res.status, requestId });
+
+      const bucket = rateLimitBucket(rateLimitKey(cfg.universeId, new URL(instance.getUri(res.config)).pathname));
+      const rateLimit = parseRateLimitHeaders(res.headers);
+      if (rateLimit) bucket.update(rateLimit);
+
+      // Retry 429/5xx when replaying the request cannot apply it twice
+      const retryAfter = parseRetryAfter(res.headers['retry-after']);
+      if (res.status === 429 && retryAfter !== undefined) bucket.pause(retryAfter);
+      const shouldRetry = res.status === 429 || (res.status >= 500 && res.status <= 599);
+      if (shouldRetry && isRetrySafe(res.config)) {
+        const attempt = res.config.retryCount ?? 0;
+        const maxAttempts = res.config.retry?.maxAttempts ?? cfg.maxRetries + 1;
+        if (attempt + 1 < maxAttempts && (retryAfter ?? 0) <= MAX_RETRY_AFTER_MS) {
+          res.config.retryCount = attempt + 1;
+          await sleep(retryAfter ?? computeDelay(attempt));
           return instance.request(res.config);
         }
       }
 
       if (res.status < 200 || res.status >= 300) {
-        const requestId = res.headers['x-request-id'] || res.headers['roblox-id'] || undefined;
-        const safeMsg = `Open Cloud error ${res.status}${requestId ? ` (req ${requestId})` : ''}`;
-        const error = new Error(safeMsg) as AxiosError & { status?: number; data?: any };
-        (error as any).status = res.status;
-        (error as any).data = res.data;
-        throw error;
+        throw toOpenCloudError({
+          status: res.status,
+          method: res.config.method || 'get',
+          path: new URL(instance.getUri(res.config)).pathname,
+          requestId,
+          data: res.data,
+          retryAfterMs: retryAfter,
+        });
       }
 
       return res;
     },
-    (error: AxiosError) => {
+    async (error: AxiosError) => {
+      // Refused by the write guard or the rate limiter; nothing was sent
+      if (error instanceof DryRunInterrupt || error instanceof WriteBlockedError || error instanceof RateLimitedError) throw error;
+      if (error.config) await audit(error.config, { outcome: 'network-error' });
       // Network/timeouts
       const msg = `Open Cloud network error: ${error.message}`;
       const e = new Error(msg) as AxiosError & { status?: number };
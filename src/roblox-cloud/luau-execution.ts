@@ -0,0 +1,133 @@
+import { HttpClient } from './http.js';
+import { OpenCloudConfig } from './config.js';
+
+export type LuauTaskState = 'STATE_UNSPECIFIED' | 'QUEUED' | 'PROCESSING' | 'CANCELLED' | 'COMPLETE' | 'FAILED';
+
+// Minimal types resembling Open Cloud Luau execution responses
+export interface LuauExecutionTask {
+  /** e.g. `universes/1/places/2/versions/3/luau-execution-sessions/x/tasks/y` */
+  path: string;
+  state: LuauTaskState;
+  createTime?: string;
+  updateTime?: string;
+  error?: { code?: string; message?: string };
+  output?: { results?: unknown[] };
+}
+
+export interface LuauExecutionOptions {
+  placeId: string;
+  /** Place version to run against; the latest saved version when omitted */
+  versionId?: string;
+  script: string;
+  /** Server-side limit on the script's run time */
+  timeoutSeconds?: number;
+}
+
+export interface RunLuauOptions extends LuauExecutionOptions {
+  /** How long to wait for the task to finish before giving up */
+  pollTimeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+export interface LuauExecutionResult {
+  taskPath: string;
+  state: LuauTaskState;
+  /** Values returned by the script */
+  results: unknown[];
+  logs: string[];
+  error?: { code?: string; message?: string };
+}
+
+const TERMINAL_STATES = new Set<LuauTaskState>(['COMPLETE', 'FAILED', 'CANCELLED']);
+const MAX_LOG_PAGES = 10;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function createLuauExecutionTask(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  opts: LuauExecutionOptions
+): Promise<{ success: true; task: LuauExecutionTask } | { success: false; error: string }> {
+  if (!opts.script.trim()) {
+    return { success: false, error: 'script is empty' };
+  }
+
+  const version = opts.versionId ? `/versions/${encodeURIComponent(opts.versionId)}` : '';
+  const url = `/cloud/v2/universes/${cfg.universeId}/places/${encodeURIComponent(opts.placeId)}${version}/luau-execution-session-tasks`;
+  const body: Record<string, unknown> = { script: opts.script };
+  if (opts.timeoutSeconds) body.timeout = `${opts.timeoutSeconds}s`;
+  const res = await http.post<LuauExecutionTask>(url, body);
+  return { success: true, task: res.data };
+}
+
+export async function getLuauExecutionTask(
+  http: HttpClient,
+  taskPath: string
+): Promise<{ success: true; task: LuauExecutionTask } | { success: false; error: string }> {
+  const res = await http.get<LuauExecutionTask>(`/cloud/v2/${taskPath}`);
+  return { success: true, task: res.data };
+}
+
+export async function getLuauExecutionLogs(
+  http: HttpClient,
+  taskPath: string
+): Promise<{ success: true; logs: string[] } | { success: false; error: string }> {
+  const logs: string[] = [];
+  let pageToken: string | undefined;
+  for (let page = 0; page < MAX_LOG_PAGES; page++) {
+    const res = await http.get<{ luauExecutionSessionTaskLogs?: { messages?: string[] }[]; nextPageToken?: string }>(
+      `/cloud/v2/${taskPath}/logs`,
+      { params: pageToken ? { pageToken } : {} }
+    );
+    for (const entry of res.data.luauExecutionSessionTaskLogs || []) {
+      logs.push(...(entry.messages || []));
+    }
+    pageToken = res.data.nextPageToken || undefined;
+    if (!pageToken) break;
+  }
+  return { success: true, logs };
+}
+
+/**
+ * Submit a script as a Luau execution task, poll it until it finishes and
+ * collect its return values and logs
+ */
+export async function runLuauScript(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  opts: RunLuauOptions
+): Promise<{ success: true; result: LuauExecutionResult } | { success: false; error: string }> {
+  const created = await createLuauExecutionTask(http, cfg, opts);
+  if (!created.success) return created;
+
+  let task = created.task;
+  const pollTimeoutMs = opts.pollTimeoutMs ?? 120_000;
+  const deadline = Date.now() + pollTimeoutMs;
+  while (!TERMINAL_STATES.has(task.state)) {
+    if (Date.now() >= deadline) {
+      return {
+        success: false,
+        error: `Luau execution task still ${task.state} after ${Math.round(pollTimeoutMs / 1000)}s (task ${task.path})`,
+      };
+    }
+    await sleep(opts.pollIntervalMs ?? 2000);
+    const polled = await getLuauExecutionTask(http, task.path);
+    if (!polled.success) return polled;
+    task = polled.task;
+  }
+
+  const logs = await getLuauExecutionLogs(http, task.path);
+  if (!logs.success) return logs;
+  return {
+    success: true,
+    result: {
+      taskPath: task.path,
+      state: task.state,
+      results: task.output?.results ?? [],
+      logs: logs.logs,
+      error: task.error,
+    },
+  };
+}
@@ -0,0 +1,257 @@
+import { HttpClient } from './http.js';
+import { OpenCloudConfig } from './config.js';
+
+/** Documented MemoryStore limits */
+export const MEMORYSTORE_LIMITS = {
+  keyLength: 128,
+  sortKeyLength: 128,
+  valueBytes: 32 * 1024,
+  maxTtlSeconds: 45 * 24 * 60 * 60,
+  maxReadCount: 200,
+} as const;
+
+// Minimal types resembling Open Cloud MemoryStore responses
+export interface SortedMapItem {
+  path: string;
+  id: string;
+  value: unknown;
+  etag?: string;
+  expireTime?: string;
+  stringSortKey?: string;
+  numericSortKey?: number;
+}
+
+export interface QueueItem {
+  path: string;
+  data: unknown;
+  priority?: number;
+  expireTime?: string;
+}
+
+export interface SortedMapWrite {
+  value: unknown;
+  ttlSeconds: number;
+  /** Strings and numbers sort separately; numbers before strings */
+  sortKey?: string | number;
+}
+
+export interface ListSortedMapOptions {
+  descending?: boolean;
+  limit?: number;
+  cursor?: string;
+  /** Raw Open Cloud filter, e.g. `id > "player_100"` */
+  filter?: string;
+}
+
+function sortedMapUrl(cfg: OpenCloudConfig, map: string): string {
+  return `/cloud/v2/universes/${cfg.universeId}/memory-store/sorted-maps/${encodeURIComponent(map)}/items`;
+}
+
+function queueUrl(cfg: OpenCloudConfig, queue: string): string {
+  return `/cloud/v2/universes/${cfg.universeId}/memory-store/queues/${encodeURIComponent(queue)}/items`;
+}
+
+function checkKey(key: string): string | undefined {
+  if (key.length === 0 || key.length > MEMORYSTORE_LIMITS.keyLength) {
+    return `Key must be 1-${MEMORYSTORE_LIMITS.keyLength} characters`;
+  }
+  return undefined;
+}
+
+function checkValue(name: string, value: unknown): string | undefined {
+  let body: string | undefined;
+  try {
+    body = JSON.stringify(value);
+  } catch {
+    return `${name} must be JSON-serializable`;
+  }
+  if (body === undefined) return `${name} must be JSON-serializable`;
+  if (Buffer.byteLength(body, 'utf8') > MEMORYSTORE_LIMITS.valueBytes) {
+    return `${name} too large (>${MEMORYSTORE_LIMITS.valueBytes / 1024}KB)`;
+  }
+  return undefined;
+}
+
+function checkTtl(ttlSeconds: number): string | undefined {
+  if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1 || ttlSeconds > MEMORYSTORE_LIMITS.maxTtlSeconds) {
+    return `ttlSeconds must be an integer from 1 to ${MEMORYSTORE_LIMITS.maxTtlSeconds} (45 days)`;
+  }
+  return undefined;
+}
+
+function checkWrite(item: SortedMapWrite): string | undefined {
+  if (typeof item.sortKey === 'string' && item.sortKey.length > MEMORYSTORE_LIMITS.sortKeyLength) {
+    return `sortKey must be at most ${MEMORYSTORE_LIMITS.sortKeyLength} characters`;
+  }
+  return checkValue('value', item.value) ?? checkTtl(item.ttlSeconds);
+}
+
+function writeBody(item: SortedMapWrite, etag?: string): Record<string, unknown> {
+  const body: Record<string, unknown> = { value: item.value, ttl: `${item.ttlSeconds}s` };
+  if (typeof item.sortKey === 'number') body.numericSortKey = item.sortKey;
+  else if (typeof item.sortKey === 'string') body.stringSortKey = item.sortKey;
+  if (etag) body.etag = etag;
+  return body;
+}
+
+function toSortedMapItem(data: unknown): SortedMapItem {
+  const item = data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+  return {
+    path: text(item.path) ?? '',
+    id: text(item.id) ?? '',
+    value: item.value,
+    etag: text(item.etag),
+    expireTime: text(item.expireTime),
+    stringSortKey: typeof item.stringSortKey === 'string' ? item.stringSortKey : undefined,
+    // int64 sort keys may arrive as strings
+    numericSortKey: item.numericSortKey === undefined || item.numericSortKey === null ? undefined : Number(item.numericSortKey),
+  };
+}
+
+export async function listSortedMapItems(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  map: string,
+  opts?: ListSortedMapOptions
+): Promise<{ success: true; items: SortedMapItem[]; nextPageCursor?: string } | { success: false; error: string }> {
+  const params: Record<string, string | number> = {};
+  if (opts?.descending) params.orderBy = 'desc';
+  if (opts?.limit) params.maxPageSize = Math.min(Math.max(opts.limit, 1), 100);
+  if (opts?.cursor) params.pageToken = opts.cursor;
+  if (opts?.filter) params.filter = opts.filter;
+
+  const res = await http.get<{ memoryStoreSortedMapItems?: unknown[]; nextPageToken?: string }>(
+    sortedMapUrl(cfg, map),
+    { params }
+  );
+  return {
+    success: true,
+    items: (res.data.memoryStoreSortedMapItems || []).map(toSortedMapItem),
+    nextPageCursor: res.data.nextPageToken || undefined,
+  };
+}
+
+export async function getSortedMapItem(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  map: string,
+  key: string
+): Promise<{ success: true; item: SortedMapItem } | { success: false; error: string }> {
+  const invalid = checkKey(key);
+  if (invalid) return { success: false, error: invalid };
+
+  const res = await http.get(`${sortedMapUrl(cfg, map)}/${encodeURIComponent(key)}`);
+  return { success: true, item: toSortedMapItem(res.data) };
+}
+
+export async function createSortedMapItem(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  map: string,
+  key: string,
+  item: SortedMapWrite
+): Promise<{ success: true; item: SortedMapItem } | { success: false; error: string }> {
+  const invalid = checkKey(key) ?? checkWrite(item);
+  if (invalid) return { success: false, error: invalid };
+
+  const res = await http.post(sortedMapUrl(cfg, map), writeBody(item), { params: { id: key } });
+  return { success: true, item: toSortedMapItem(res.data) };
+}
+
+export async function updateSortedMapItem(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  map: string,
+  key: string,
+  item: SortedMapWrite,
+  opts?: { allowMissing?: boolean; etag?: string }
+): Promise<{ success: true; item: SortedMapItem } | { success: false; error: string }> {
+  const invalid = checkKey(key) ?? checkWrite(item);
+  if (invalid) return { success: false, error: invalid };
+
+  const res = await http.patch(`${sortedMapUrl(cfg, map)}/${encodeURIComponent(key)}`, writeBody(item, opts?.etag), {
+    params: { allowMissing: opts?.allowMissing ?? false },
+    // Setting an absolute value is safe to replay
+    retry: { idempotent: true },
+  });
+  return { success: true, item: toSortedMapItem(res.data) };
+}
+
+export async function deleteSortedMapItem(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  map: string,
+  key: string,
+  etag?: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  const invalid = checkKey(key);
+  if (invalid) return { success: false, error: invalid };
+
+  await http.delete(`${sortedMapUrl(cfg, map)}/${encodeURIComponent(key)}`, { params: etag ? { etag } : {} });
+  return { success: true };
+}
+
+export async function enqueueItem(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  queue: string,
+  data: unknown,
+  opts: { ttlSeconds: number; priority?: number }
+): Promise<{ success: true; item: QueueItem } | { success: false; error: string }> {
+  const invalid = checkValue('data', data) ?? checkTtl(opts.ttlSeconds);
+  if (invalid) return { success: false, error: invalid };
+
+  const body: Record<string, unknown> = { data, ttl: `${opts.ttlSeconds}s` };
+  if (opts.priority !== undefined) body.priority = opts.priority;
+  const res = await http.post(queueUrl(cfg, queue), body);
+  return { success: true, item: res.data as QueueItem };
+}
+
+export interface ReadQueueOptions {
+  /** Items to read, 1-200 */
+  count?: number;
+  /** Return nothing unless `count` items are available */
+  allOrNothing?: boolean;
+  /** Seconds the read items stay hidden from other readers before they reappear */
+  invisibilityWindowSeconds?: number;
+}
+
+/**
+ * Read items from a queue. Read items are hidden for the invisibility window;
+ * pass the returned `readId` to `discardQueueItems` to remove them for good.
+ * Hiding them makes the read a write: it goes through the write guard and a
+ * retry would hide a batch the caller never sees, so it is never retried.
+ */
+export async function readQueueItems(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  queue: string,
+  opts?: ReadQueueOptions
+): Promise<{ success: true; readId?: string; items: unknown[] } | { success: false; error: string }> {
+  const count = opts?.count ?? 1;
+  if (!Number.isInteger(count) || count < 1 || count > MEMORYSTORE_LIMITS.maxReadCount) {
+    return { success: false, error: `count must be an integer from 1 to ${MEMORYSTORE_LIMITS.maxReadCount}` };
+  }
+
+  const params: Record<string, string | number | boolean> = { count };
+  if (opts?.allOrNothing) params.allOrNothing = true;
+  if (opts?.invisibilityWindowSeconds) params.invisibilityWindow = `${opts.invisibilityWindowSeconds}s`;
+  const res = await http.get<{ readId?: string; data?: unknown[] }>(`${queueUrl(cfg, queue)}:read`, {
+    params,
+    mutating: true,
+    retry: { idempotent: false },
+  });
+  return { success: true, readId: res.data.readId || undefined, items: res.data.data || [] };
+}
+
+export async function discardQueueItems(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  queue: string,
+  readId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!readId) return { success: false, error: 'readId is required' };
+  await http.post(`${queueUrl(cfg, queue)}:discard`, { readId });
+  return { success: true };
+}
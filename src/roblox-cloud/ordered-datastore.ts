@@ -0,0 +1,149 @@
+import { HttpClient } from './http.js';
+import { OpenCloudConfig } from './config.js';
+
+// Minimal types resembling Open Cloud ordered data store responses
+export interface OrderedEntry {
+  /** Resource path, e.g. `universes/1/orderedDataStores/Kills/scopes/global/entries/user_1` */
+  path: string;
+  /** Entry key */
+  id: string;
+  value: number;
+}
+
+interface ListOrderedEntriesResponse {
+  entries?: OrderedEntry[];
+  nextPageToken?: string;
+}
+
+export interface ListOrderedEntriesOptions {
+  scope?: string;
+  /** Sort by value; ascending unless `descending` is set */
+  descending?: boolean;
+  /** Inclusive value bounds */
+  min?: number;
+  max?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+function entriesUrl(cfg: OpenCloudConfig, orderedDataStore: string, scope?: string): string {
+  return `/ordered-data-stores/v1/universes/${cfg.universeId}/orderedDataStores/${encodeURIComponent(
+    orderedDataStore
+  )}/scopes/${encodeURIComponent(scope ?? cfg.defaultScope ?? 'global')}/entries`;
+}
+
+function entryUrl(cfg: OpenCloudConfig, orderedDataStore: string, key: string, scope?: string): string {
+  return `${entriesUrl(cfg, orderedDataStore, scope)}/${encodeURIComponent(key)}`;
+}
+
+function toEntry(data: unknown): OrderedEntry {
+  const entry = data as OrderedEntry;
+  // int64 values may arrive as strings
+  return { path: entry.path, id: entry.id, value: Number(entry.value) };
+}
+
+function checkValue(name: string, value: number): string | undefined {
+  return Number.isSafeInteger(value) ? undefined : `${name} must be an integer`;
+}
+
+export async function listOrderedEntries(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  orderedDataStore: string,
+  opts?: ListOrderedEntriesOptions
+): Promise<{ success: true; entries: OrderedEntry[]; nextPageCursor?: string } | { success: false; error: string }> {
+  if (opts?.min !== undefined && opts?.max !== undefined && opts.min > opts.max) {
+    return { success: false, error: 'min cannot be greater than max' };
+  }
+
+  const params: Record<string, string | number> = {};
+  if (opts?.descending) params.order_by = 'desc';
+  const filter: string[] = [];
+  if (opts?.min !== undefined) filter.push(`entry >= ${opts.min}`);
+  if (opts?.max !== undefined) filter.push(`entry <= ${opts.max}`);
+  if (filter.length > 0) params.filter = filter.join(' && ');
+  if (opts?.limit) params.max_page_size = Math.min(Math.max(opts.limit, 1), 100);
+  if (opts?.cursor) params.page_token = opts.cursor;
+
+  const res = await http.get<ListOrderedEntriesResponse>(entriesUrl(cfg, orderedDataStore, opts?.scope), { params });
+  return {
+    success: true,
+    entries: (res.data.entries || []).map(toEntry),
+    nextPageCursor: res.data.nextPageToken || undefined,
+  };
+}
+
+export async function getOrderedEntry(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  orderedDataStore: string,
+  key: string,
+  scope?: string
+): Promise<{ success: true; entry: OrderedEntry } | { success: false; error: string }> {
+  const res = await http.get(entryUrl(cfg, orderedDataStore, key, scope));
+  return { success: true, entry: toEntry(res.data) };
+}
+
+export async function createOrderedEntry(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  orderedDataStore: string,
+  key: string,
+  value: number,
+  scope?: string
+): Promise<{ success: true; entry: OrderedEntry } | { success: false; error: string }> {
+  const invalid = checkValue('value', value);
+  if (invalid) return { success: false, error: invalid };
+
+  const res = await http.post(entriesUrl(cfg, orderedDataStore, scope), { value }, { params: { id: key } });
+  return { success: true, entry: toEntry(res.data) };
+}
+
+export async function updateOrderedEntry(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  orderedDataStore: string,
+  key: string,
+  value: number,
+  opts?: { scope?: string; allowMissing?: boolean }
+): Promise<{ success: true; entry: OrderedEntry } | { success: false; error: string }> {
+  const invalid = checkValue('value', value);
+  if (invalid) return { success: false, error: invalid };
+
+  const res = await http.patch(
+    entryUrl(cfg, orderedDataStore, key, opts?.scope),
+    { value },
+    // Setting an absolute value is safe to replay
+    { params: { allow_missing: opts?.allowMissing ?? false }, retry: { idempotent: true } }
+  );
+  return { success: true, entry: toEntry(res.data) };
+}
+
+/**
+ * Atomically add `amount` to an entry's value
+ */
+export async function incrementOrderedEntry(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  orderedDataStore: string,
+  key: string,
+  amount: number,
+  scope?: string
+): Promise<{ success: true; entry: OrderedEntry } | { success: false; error: string }> {
+  const invalid = checkValue('amount', amount);
+  if (invalid) return { success: false, error: invalid };
+
+  const res = await http.post(`${entryUrl(cfg, orderedDataStore, key, scope)}:increment`, { amount });
+  return { success: true, entry: toEntry(res.data) };
+}
+
+export async function deleteOrderedEntry(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  orderedDataStore: string,
+  key: string,
+  scope?: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  await http.delete(entryUrl(cfg, orderedDataStore, key, scope));
+  return { success: true };
+}
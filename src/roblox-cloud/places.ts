@@ -0,0 +1,58 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { HttpClient } from './http.js';
+import { OpenCloudConfig } from './config.js';
+
+/** Place files above this size are rejected by the Place Publishing API */
+export const MAX_PLACE_FILE_BYTES = 100 * 1024 * 1024;
+
+export type PlaceVersionType = 'Saved' | 'Published';
+
+// Binary places are sent as-is; XML places need their own content type
+const PLACE_CONTENT_TYPES: Record<string, string> = {
+  '.rbxl': 'application/octet-stream',
+  '.rbxlx': 'application/xml',
+};
+
+/**
+ * Upload a place file as a new version of `placeId` in the configured universe
+ */
+export async function publishPlace(
+  http: HttpClient,
+  cfg: OpenCloudConfig,
+  filePath: string,
+  placeId: string,
+  versionType: PlaceVersionType
+): Promise<{ success: true; versionNumber: number } | { success: false; error: string }> {
+  const contentType = PLACE_CONTENT_TYPES[path.extname(filePath).toLowerCase()];
+  if (!contentType) {
+    return { success: false, error: `Unsupported place file ${path.basename(filePath)}; expected .rbxl or .rbxlx` };
+  }
+
+  let size: number;
+  try {
+    const stat = await fs.stat(filePath);
+    if (!stat.isFile()) return { success: false, error: `${filePath} is not a file` };
+    size = stat.size;
+  } catch (error) {
+    return { success: false, error: `Cannot read ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+  if (size === 0) {
+    return { success: false, error: `${filePath} is empty` };
+  }
+  if (size > MAX_PLACE_FILE_BYTES) {
+    return { success: false, error: `Place file too large (${(size / 1024 / 1024).toFixed(1)}MB > 100MB)` };
+  }
+
+  const body = await fs.readFile(filePath);
+  const url = `/universes/v1/${cfg.universeId}/places/${encodeURIComponent(placeId)}/versions`;
+  const res = await http.post<{ versionNumber?: number }>(url, body, {
+    params: { versionType },
+    headers: { 'Content-Type': contentType },
+    maxBodyLength: MAX_PLACE_FILE_BYTES,
+  });
+  if (typeof res.data?.versionNumber !== 'number') {
+    return { success: false, error: 'Place Publishing API did not return a version number' };
+  }
+  return { success: true, versionNumber: res.data.versionNumber };
+}
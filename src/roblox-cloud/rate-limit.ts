@@ -0,0 +1,139 @@
+import { OpenCloudErrorInfo, RateLimitedError } from './errors.js';
+
+/**
+ * Client-side throttling driven by the `x-ratelimit-*` headers Open Cloud
+ * returns, so a burst of calls slows down before the server starts sending 429s.
+ */
+
+/** Longest `Retry-After` the client is willing to wait before retrying */
+export const MAX_RETRY_AFTER_MS = 60_000;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * `Retry-After` in milliseconds; the header is either delta-seconds or an
+ * HTTP date. Returns undefined when the header is missing or unparseable.
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(Number(text) * 1000);
+  const date = Date.parse(text);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+// Headers look like `300` or `300, 300;w=60`; the first number is the value
+function leadingNumber(value: unknown): number | undefined {
+  const match = /^\s*(\d+(?:\.\d+)?)/.exec(String(value ?? ''));
+  return match ? Number(match[1]) : undefined;
+}
+
+function windowSeconds(value: unknown): number | undefined {
+  const match = /;\s*w=(\d+(?:\.\d+)?)/.exec(String(value ?? ''));
+  return match ? Number(match[1]) : undefined;
+}
+
+export interface RateLimitHeaders {
+  limit: number;
+  remaining: number;
+  /** Seconds until the window resets */
+  resetSeconds: number;
+}
+
+export function parseRateLimitHeaders(headers: Record<string, unknown>): RateLimitHeaders | undefined {
+  const limit = leadingNumber(headers['x-ratelimit-limit']);
+  const remaining = leadingNumber(headers['x-ratelimit-remaining']);
+  if (limit === undefined || remaining === undefined || limit <= 0) return undefined;
+  const resetSeconds = leadingNumber(headers['x-ratelimit-reset']) ?? windowSeconds(headers['x-ratelimit-limit']) ?? 60;
+  return { limit, remaining: Math.min(remaining, limit), resetSeconds: Math.max(resetSeconds, 0.001) };
+}
+
+/**
+ * Token bucket refilled at `limit` tokens per window. The server's view
+ * always wins: each response resets the bucket to what its headers report.
+ */
+export class TokenBucket {
+  private capacity = Infinity;
+  private tokens = Infinity;
+  private refillPerMs = 0;
+  private updatedAt = Date.now();
+  /** No requests until this time, after a 429 */
+  private pausedUntil = 0;
+
+  private refill(now: number) {
+    if (this.tokens < this.capacity) {
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    }
+    this.updatedAt = now;
+  }
+
+  update({ limit, remaining, resetSeconds }: RateLimitHeaders, now = Date.now()) {
+    this.capacity = limit;
+    this.tokens = remaining;
+    this.refillPerMs = limit / (resetSeconds * 1000);
+    this.updatedAt = now;
+  }
+
+  /** Hold every request for `ms`, at most MAX_RETRY_AFTER_MS */
+  pause(ms: number, now = Date.now()) {
+    this.pausedUntil = Math.max(this.pausedUntil, now + Math.min(ms, MAX_RETRY_AFTER_MS));
+  }
+
+  /** Milliseconds to wait before a token is available, taking it if there is none to wait for */
+  private reserve(now: number): number {
+    if (now < this.pausedUntil) return this.pausedUntil - now;
+    this.refill(now);
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    if (this.refillPerMs <= 0) return 0;
+    return Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  /**
+   * Wait for a token. Throws RateLimitedError instead of waiting longer than
+   * MAX_RETRY_AFTER_MS, e.g. when the server reports a window that resets in an hour.
+   */
+  async take(request: Pick<OpenCloudErrorInfo, 'method' | 'path'>): Promise<void> {
+    for (;;) {
+      const wait = this.reserve(Date.now());
+      if (wait <= 0) return;
+      if (wait > MAX_RETRY_AFTER_MS) {
+        throw new RateLimitedError({ status: 429, ...request, retryAfterMs: wait });
+      }
+      await sleep(wait);
+    }
+  }
+}
+
+/**
+ * Which rate-limit bucket a request path counts against: Open Cloud limits
+ * each API separately, per universe
+ */
+export function rateLimitKey(universeId: string, urlPath: string): string {
+  const parts = urlPath.split('/').filter(Boolean);
+  // /cloud/v2/universes/{id}/<resource>/... groups by resource
+  const api = parts[0] === 'cloud' ? `cloud:${parts[4] ?? ''}` : parts[0] ?? '';
+  return `${universeId}:${api}`;
+}
+
+// Shared by every client so separate tool calls against one universe throttle together
+const buckets = new Map<string, TokenBucket>();
+
+export function rateLimitBucket(key: string): TokenBucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket();
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+/** Forget all buckets; for tests */
+export function resetRateLimits(): void {
+  buckets.clear();
+}
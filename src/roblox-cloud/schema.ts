@@ -0,0 +1,183 @@
+import * as path from 'path';
+import { z } from 'zod';
+import { loadLintConfig, LINT_CONFIG_FILE } from '../tool/lint-config.js';
+import { JsonSchema, findProfileStores, interfaceToJsonSchema, parseProjectSources, profileStoreSchema } from '../project/data-schema.js';
+
+/** Schema that values written to one DataStore must match */
+export interface DatastoreSchema {
+  schema: JsonSchema | z.ZodTypeAny;
+  /** Where the schema came from, reported with validation results */
+  source: string;
+  /**
+   * Values are ProfileStore profiles: when a value has the `{ Data, MetaData }`
+   * shape ProfileStore saves, only `Data` is checked against the template
+   */
+  profileStore?: boolean;
+}
+
+export interface SchemaIssue {
+  /** JSONPath-like location, e.g. `$.settings.musicEnabled` */
+  path: string;
+  message: string;
+}
+
+export interface SchemaCheck {
+  source: string;
+  issues: SchemaIssue[];
+}
+
+// `datastores` section of `.rbxts-mcp.json`
+const DatastoreConfigSchema = z.record(
+  z.union([
+    z.object({ schema: z.record(z.unknown()), profileStore: z.boolean().optional() }),
+    z.object({ interface: z.string().min(1), profileStore: z.boolean().optional() }),
+  ])
+);
+
+// Issues beyond this are dropped; the first ones are enough to fix a value
+const MAX_ISSUES = 50;
+
+const registered = new Map<string, DatastoreSchema>();
+
+/**
+ * Register a schema for a DataStore in this process. It takes precedence over
+ * `.rbxts-mcp.json` and schemas inferred from the project.
+ */
+export function registerDatastoreSchema(
+  datastore: string,
+  schema: JsonSchema | z.ZodTypeAny,
+  opts: { source?: string; profileStore?: boolean } = {}
+): void {
+  registered.set(datastore, { schema, source: opts.source ?? 'registered', profileStore: opts.profileStore });
+}
+
+export function clearDatastoreSchemas(): void {
+  registered.clear();
+}
+
+/**
+ * Schema for a DataStore, looked up in order: schemas registered in-process,
+ * the `datastores` section of `<projectRoot>/.rbxts-mcp.json` (an inline JSON
+ * Schema or the name of an interface in the project), then the template of a
+ * `ProfileStore.create("<datastore>", Template)` call in the project sources.
+ */
+export async function resolveDatastoreSchema(datastore: string, projectRoot?: string): Promise<DatastoreSchema | undefined> {
+  const own = registered.get(datastore);
+  if (own) return own;
+  if (!projectRoot) return undefined;
+
+  const config = await loadLintConfig(projectRoot);
+  const parsed = DatastoreConfigSchema.safeParse((config as Record<string, unknown>).datastores ?? {});
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `datastores.${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid ${LINT_CONFIG_FILE}: ${message}`);
+  }
+  const configured = parsed.data[datastore];
+  if (configured && 'schema' in configured) {
+    return { schema: configured.schema as JsonSchema, source: LINT_CONFIG_FILE, profileStore: configured.profileStore };
+  }
+
+  const sources = await parseProjectSources(projectRoot);
+  if (configured) {
+    const inferred = interfaceToJsonSchema(sources, configured.interface);
+    if (!inferred) {
+      throw new Error(`${LINT_CONFIG_FILE}: interface ${configured.interface} for DataStore ${datastore} was not found in ${path.resolve(projectRoot)}`);
+    }
+    return { ...inferred, profileStore: configured.profileStore };
+  }
+
+  const store = findProfileStores(sources).find((s) => s.datastore === datastore);
+  const inferred = store ? profileStoreSchema(sources, store) : undefined;
+  return inferred ? { ...inferred, source: `ProfileStore ${datastore}: ${inferred.source}`, profileStore: true } : undefined;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function validateJson(schema: JsonSchema, value: unknown, at: string, issues: SchemaIssue[]): void {
+  if (issues.length >= MAX_ISSUES) return;
+
+  if (schema.anyOf) {
+    const matched = schema.anyOf.some((option) => {
+      const optionIssues: SchemaIssue[] = [];
+      validateJson(option, value, at, optionIssues);
+      return optionIssues.length === 0;
+    });
+    if (!matched) issues.push({ path: at, message: `expected one of ${schema.anyOf.map((o) => o.type ?? 'any').join(' | ')}, got ${typeOf(value)}` });
+    return;
+  }
+  if (schema.type && !matchesType(schema.type, value)) {
+    issues.push({ path: at, message: `expected ${schema.type}, got ${typeOf(value)}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    issues.push({ path: at, message: `expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}` });
+    return;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateJson(schema.items!, item, `${at}[${index}]`, issues));
+  }
+  if (typeOf(value) === 'object' && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+    const record = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (!(name in record)) issues.push({ path: `${at}.${name}`, message: 'missing required property' });
+    }
+    for (const [name, item] of Object.entries(record)) {
+      const property = schema.properties?.[name];
+      if (property) validateJson(property, item, `${at}.${name}`, issues);
+      else if (schema.additionalProperties === false) issues.push({ path: `${at}.${name}`, message: 'unexpected property' });
+      else if (schema.additionalProperties && schema.additionalProperties !== true) {
+        validateJson(schema.additionalProperties, item, `${at}.${name}`, issues);
+      }
+    }
+  }
+}
+
+// Checked by shape: a caller's zod may be a different copy (ESM vs CommonJS) than this module's
+export function isZodSchema(schema: DatastoreSchema['schema']): schema is z.ZodTypeAny {
+  return typeof (schema as z.ZodTypeAny).safeParse === 'function';
+}
+
+/**
+ * Check a value against a DataStore schema; an empty issue list means it matches
+ */
+export function checkDatastoreValue(schema: DatastoreSchema, value: unknown): SchemaCheck {
+  let target = value;
+  let root = '$';
+  if (schema.profileStore && typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    if ('Data' in record && 'MetaData' in record) {
+      target = record.Data;
+      root = '$.Data';
+    }
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (isZodSchema(schema.schema)) {
+    const result = schema.schema.safeParse(target);
+    if (!result.success) {
+      for (const issue of result.error.issues.slice(0, MAX_ISSUES)) {
+        const suffix = issue.path.map((p) => (typeof p === 'number' ? `[${p}]` : `.${p}`)).join('');
+        issues.push({ path: `${root}${suffix}`, message: issue.message });
+      }
+    }
+  } else {
+    validateJson(schema.schema, target, root, issues);
+  }
+  return { source: schema.source, issues };
+}
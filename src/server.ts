@@ -5,6 +5,7 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { addResources } from './resources';
 import { addTools } from './tools';
 import { addPrompts } from './prompts';
+import { loadTransportConfigFromEnv, startHttpServer } from './http-server';
 
 /**
  * RobloxTS-MCP Server
@@ -13,10 +14,18 @@ import { addPrompts } from './prompts';
  * Enforces best practices and proper usage of @rbxts packages.
  */
 class RobloxTSMCPServer {
-  private server: Server;
+  private shutdown?: () => Promise<void>;
 
   constructor() {
-    this.server = new Server(
+    this.setupHandlers();
+  }
+
+  /**
+   * Build an MCP server with every resource, tool and prompt registered.
+   * The HTTP transport creates one per client session.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'RobloxTS-MCP',
         version: '1.0.2',
@@ -30,32 +39,48 @@ class RobloxTSMCPServer {
       }
     );
 
-    this.setupHandlers();
-    this.registerResourcesToolsAndPrompts();
-  }
-
-  private setupHandlers(): void {
     // Error handling
-    this.server.onerror = (error) => {
+    server.onerror = (error) => {
       console.error('[MCP Error]', error);
     };
 
-    process.on('SIGINT', async () => {
-      await this.server.close();
+    this.registerResourcesToolsAndPrompts(server);
+    return server;
+  }
+
+  private setupHandlers(): void {
+    let stopping = false;
+    const stop = async () => {
+      if (stopping) return;
+      stopping = true;
+      await this.shutdown?.();
       process.exit(0);
-    });
+    };
+
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
   }
 
-  private registerResourcesToolsAndPrompts(): void {
+  private registerResourcesToolsAndPrompts(server: Server): void {
     // Register resources, tools, and prompts
-    addResources(this.server);
-    addTools(this.server);
-    addPrompts(this.server);
+    addResources(server);
+    addTools(server);
+    addPrompts(server);
   }
 
   public async run(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    const config = loadTransportConfigFromEnv();
+
+    if (config.transport === 'http') {
+      const http = await startHttpServer(() => this.createServer(), config.http);
+      this.shutdown = () => http.close();
+      console.error(`RobloxTS-MCP server listening on ${http.url}/mcp (legacy SSE: ${http.url}/sse)${config.http.token ? ' with bearer token auth' : ''}`);
+      return;
+    }
+
+    const server = this.createServer();
+    this.shutdown = () => server.close();
+    await server.connect(new StdioServerTransport());
     console.error('RobloxTS-MCP server running on stdio');
   }
 }
@@ -2,19 +2,40 @@ import { z } from 'zod';
 
 // Validation schemas
 export const SimulateBuildSchema = z.object({
-  code: z.string().describe('TypeScript code to simulate compilation'),
+  code: z.string().optional().describe('TypeScript code to compile'),
+  filePath: z.string().optional().describe('File in the project to compile instead of a snippet'),
+  projectRoot: z.string().optional().describe('roblox-ts project whose node_modules provide rbxtsc'),
   target: z.enum(['server', 'client', 'shared']).optional().describe('Target environment'),
+}).refine((v) => v.code !== undefined || v.filePath !== undefined, {
+  message: 'Either code or filePath is required',
+  path: ['code'],
 });
 
 /**
- * Simulate TypeScript to Lua compilation and check for common issues
+ * Heuristic build check used when no roblox-ts compiler is available
  */
 export function simulateBuild(code: string, target: 'server' | 'client' | 'shared' = 'shared'): { success: boolean; output?: string; errors?: string[] } {
   const errors: string[] = [];
   const warnings: string[] = [];
-  
+
+  // Check for APIs that do not exist in Roblox
+  if (code.includes('document') || code.includes('window')) {
+    errors.push('Browser APIs like "document" and "window" are not available in Roblox Lua');
+  }
+
+  if (code.includes('localStorage') || code.includes('sessionStorage')) {
+    errors.push('Web storage APIs are not available in Roblox - use DataStoreService or ProfileStore');
+  }
+
+  if (code.includes('fetch') || code.includes('XMLHttpRequest')) {
+    errors.push('HTTP APIs are not available in Roblox client - use HttpService on server');
+  }
+
   // Check for server-only code in client target
   if (target === 'client') {
+    if (code.includes('HttpService')) {
+      errors.push('HttpService is only available on the server');
+    }
     if (code.includes('DataStoreService') || code.includes('ProfileStore')) {
       errors.push('DataStore operations are not allowed on the client');
     }
@@ -23,7 +44,7 @@ export function simulateBuild(code: string, target: 'server' | 'client' | 'share
     }
   }
 
-  // Check for client-only code in server target  
+  // Check for client-only code in server target
   if (target === 'server') {
     if (code.includes('UserInputService') || code.includes('ContextActionService')) {
       errors.push('Input services are not available on the server');
@@ -37,7 +58,7 @@ export function simulateBuild(code: string, target: 'server' | 'client' | 'share
   if (code.includes('eval(')) {
     errors.push('eval() is not supported in roblox-ts');
   }
-  
+
   if (code.includes('with (')) {
     errors.push('with statements are not supported in roblox-ts');
   }
@@ -47,20 +68,14 @@ export function simulateBuild(code: string, target: 'server' | 'client' | 'share
     warnings.push('Consider using @rbxts/services for better type safety');
   }
 
-  const success = errors.length === 0;
-  let output = '';
-  
-  if (success) {
-    output = `✅ Build simulation successful for ${target} target!\n\n`;
-    if (warnings.length > 0) {
-      output += `⚠️ Warnings:\n${warnings.map(w => `- ${w}`).join('\n')}\n\n`;
-    }
-    output += `Your code should compile successfully to Lua.`;
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  let output = `No common roblox-ts compilation issues detected for the ${target} target. No Luau was generated.`;
+  if (warnings.length > 0) {
+    output += `\n\n⚠️ Warnings:\n${warnings.map(w => `- ${w}`).join('\n')}`;
   }
 
-  return {
-    success,
-    output: success ? output : undefined,
-    errors: errors.length > 0 ? errors : undefined
-  };
+  return { success: true, output };
 }
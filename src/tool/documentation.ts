@@ -12,45 +12,76 @@ export const SummarizeRobloxDocSchema = z.object({
   url: z.string().describe('URL of the Roblox documentation page to summarize'),
 });
 
+// Search results by normalized query, kept for DOC_CACHE_TTL_MS
+const docCache = new Map<string, { data: { results: any[] }; timestamp: number }>();
+const DOC_CACHE_TTL_MS = 5 * 60_000;
+
 /**
- * Search official Roblox documentation
+ * Search Roblox documentation for relevant content
  */
 export async function searchRobloxDocs(query: string, limit: number = 5): Promise<{ results: any[]; cached?: boolean; error?: string }> {
+  const cacheKey = `search_${query.toLowerCase().trim()}`;
+  const cached = docCache.get(cacheKey);
+  
+  if (cached && Date.now() - cached.timestamp < DOC_CACHE_TTL_MS) {
+    return { ...cached.data, cached: true };
+  }
+
   try {
-    // Use Roblox's search API or scrape their docs
-    const searchUrl = `https://create.roblox.com/docs/reference/engine`;
-    
-    // This is a simplified implementation - in a real scenario, you'd want to:
-    // 1. Use a proper search API if available
-    // 2. Cache results for better performance
-    // 3. Parse the actual search results
+    const commonPages = [
+      { title: 'RemoteEvents and Callbacks', url: 'https://create.roblox.com/docs/scripting/events/remote', keywords: ['remote', 'event', 'callback', 'networking'] },
+      { title: 'DataStores', url: 'https://create.roblox.com/docs/cloud-services/datastores', keywords: ['datastore', 'data', 'save', 'persistence'] },
+      { title: 'TweenService', url: 'https://create.roblox.com/docs/reference/engine/classes/TweenService', keywords: ['tween', 'animation', 'smooth'] },
+      { title: 'UserInputService', url: 'https://create.roblox.com/docs/reference/engine/classes/UserInputService', keywords: ['input', 'keyboard', 'mouse', 'touch'] },
+      { title: 'Players Service', url: 'https://create.roblox.com/docs/reference/engine/classes/Players', keywords: ['player', 'character', 'spawn'] },
+      { title: 'Workspace', url: 'https://create.roblox.com/docs/reference/engine/classes/Workspace', keywords: ['workspace', 'parts', 'models'] },
+      { title: 'GUI Creation', url: 'https://create.roblox.com/docs/ui/gui-objects', keywords: ['gui', 'ui', 'interface', 'screen'] },
+      { title: 'Scripting Guide', url: 'https://create.roblox.com/docs/scripting/', keywords: ['script', 'coding', 'programming', 'lua'] },
+      { title: 'Events and Callbacks', url: 'https://create.roblox.com/docs/scripting/events/', keywords: ['event', 'callback', 'listener'] }
+    ];
+
+    const queryLower = query.toLowerCase();
+    const matchingPages = commonPages.filter(page => 
+      page.title.toLowerCase().includes(queryLower) ||
+      page.keywords.some(keyword => queryLower.includes(keyword) || keyword.includes(queryLower))
+    ).slice(0, limit);
+
+    const results = [];
     
-    const mockResults = [
-      {
-        title: `${query} Overview`,
-        url: `https://create.roblox.com/docs/reference/engine/classes/${query}`,
-        description: `Official documentation for ${query} in Roblox`,
-        relevance: 0.95
-      },
-      {
-        title: `Using ${query} in Scripts`,
-        url: `https://create.roblox.com/docs/scripting/${query.toLowerCase()}`,
-        description: `Learn how to use ${query} in your Roblox scripts`,
-        relevance: 0.85
-      },
-      {
-        title: `${query} Examples`,
-        url: `https://create.roblox.com/docs/tutorials/${query.toLowerCase()}-examples`,
-        description: `Code examples and tutorials for ${query}`,
-        relevance: 0.75
+    for (const page of matchingPages) {
+      try {
+        const response = await axios.get(page.url, {
+          headers: { 'User-Agent': 'RobloxTS-MCP-Server/1.0.0' },
+          timeout: 8000
+        });
+        
+        const $ = cheerio.load(response.data);
+        const description = $('meta[name="description"]').attr('content') || 
+                          $('p').first().text().trim().slice(0, 200);
+
+        results.push({
+          title: page.title,
+          url: page.url,
+          snippet: description + (description.length >= 200 ? '...' : ''),
+          relevance: page.keywords.filter(k => queryLower.includes(k)).length
+        });
+      } catch (error) {
+        console.warn(`Failed to fetch ${page.url}:`, error);
       }
-    ].slice(0, limit);
+    }
 
-    return { results: mockResults };
+    // Sort by relevance
+    results.sort((a, b) => b.relevance - a.relevance);
+
+    const result = { results: results.slice(0, limit) };
+    
+    docCache.set(cacheKey, { data: result, timestamp: Date.now() });
+    
+    return result;
   } catch (error) {
     return { 
       results: [], 
-      error: `Failed to search documentation: ${error instanceof Error ? error.message : 'Unknown error'}` 
+      error: `Failed to search Roblox documentation: ${error instanceof Error ? error.message : 'Unknown error'}` 
     };
   }
 }
@@ -59,67 +90,62 @@ export async function searchRobloxDocs(query: string, limit: number = 5): Promis
  * Summarize a specific Roblox documentation page
  */
 export async function summarizeRobloxDocPage(url: string): Promise<{ title?: string; summary: string; error?: string }> {
+  if (!url.startsWith('https://create.roblox.com/docs') && !url.startsWith('https://developer.roblox.com')) {
+    return { 
+      summary: '',
+      error: 'URL must be from official Roblox documentation (create.roblox.com/docs or developer.roblox.com)' 
+    };
+  }
+
   try {
     const response = await axios.get(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      },
-      timeout: 10000
+      headers: { 'User-Agent': 'RobloxTS-MCP-Server/1.0.0' },
+      timeout: 15000
     });
 
     const $ = cheerio.load(response.data);
     
-    // Extract title
-    const title = $('h1').first().text() || $('title').text() || 'Documentation Page';
+    const title = $('h1, title').first().text().trim()
+      .replace(' | Roblox Creator Documentation', '')
+      .replace(' | Roblox Developer Hub', '');
     
-    // Extract main content
-    let content = '';
+    const sections: string[] = [];
     
-    // Try to find main content areas
-    const contentSelectors = [
-      '.markdown-body',
-      '.content',
-      'main',
-      '.documentation-content',
-      'article'
-    ];
+    // Get description
+    const description = $('meta[name="description"]').attr('content') || 
+                      $('.description, .summary').first().text().trim() ||
+                      $('p').first().text().trim();
     
-    for (const selector of contentSelectors) {
-      const element = $(selector);
-      if (element.length > 0) {
-        content = element.text();
-        break;
-      }
-    }
-    
-    // If no main content found, get all paragraph text
-    if (!content) {
-      content = $('p').map((_, el) => $(el).text()).get().join(' ');
-    }
+    if (description) sections.push(`Description: ${description}`);
     
-    // Clean and truncate content
-    content = content
-      .replace(/\s+/g, ' ')
-      .trim()
-      .slice(0, 2000); // Limit to 2000 characters
+    // Get code examples (limit to 2)
+    $('pre code, .highlight code').slice(0, 2).each((i, el) => {
+      const code = $(el).text().trim();
+      if (code && code.length < 400) {
+        sections.push(`Code Example ${i + 1}:\n${code}`);
+      }
+    });
     
-    if (!content) {
-      return {
-        title,
-        summary: 'Unable to extract content from this page. It may require JavaScript or have restricted access.',
-        error: 'Content extraction failed'
-      };
-    }
+    // Get key sections
+    $('h2, h3').slice(0, 3).each((i, el) => {
+      const heading = $(el).text().trim();
+      const nextP = $(el).next('p').text().trim();
+      if (heading && nextP) {
+        sections.push(`${heading}: ${nextP.slice(0, 150)}${nextP.length > 150 ? '...' : ''}`);
+      }
+    });
+
+    const summary = sections.join('\n\n').slice(0, 1200) + 
+                   (sections.join('\n\n').length > 1200 ? '\n\n[Content truncated...]' : '');
     
     return {
       title,
-      summary: content
+      summary: summary || 'Unable to extract meaningful content from this page.'
     };
-
   } catch (error) {
     return {
-      summary: `Failed to fetch or parse the documentation page.`,
-      error: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      summary: '',
+      error: `Failed to summarize page: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
   }
 }
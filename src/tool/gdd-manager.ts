@@ -43,10 +43,23 @@ export interface ValidationResult {
   warnings: string[];
 }
 
+export type GDDErrorType = 'not_found' | 'invalid_params' | 'invalid_document' | 'conflict' | 'internal';
+
+/**
+ * Error raised by GDD operations, tagged with a category so callers can map it
+ */
+export class GDDError extends Error {
+  constructor(public readonly type: GDDErrorType, message: string) {
+    super(message);
+    this.name = 'GDDError';
+  }
+}
+
 export interface GDDResponse {
   success: boolean;
   data?: any;
   error?: string;
+  errorType?: GDDErrorType;
   warnings?: string[];
   metadata?: {
     fileSize: number;
@@ -128,7 +141,7 @@ function parseFrontmatter(content: string): ParsedGDD {
   const match = content.match(frontmatterRegex);
   
   if (!match) {
-    throw new Error('Invalid GDD format: Missing frontmatter');
+    throw new GDDError('invalid_document', 'Invalid GDD format: Missing frontmatter');
   }
   
   const [, frontmatterYaml, markdownContent] = match;
@@ -137,7 +150,7 @@ function parseFrontmatter(content: string): ParsedGDD {
     const frontmatter = yaml.load(frontmatterYaml) as GDDFrontmatter;
     return { frontmatter, content: markdownContent };
   } catch (error) {
-    throw new Error(`Invalid YAML frontmatter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new GDDError('invalid_document', `Invalid YAML frontmatter: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
@@ -227,20 +240,20 @@ function addFeature(frontmatter: GDDFrontmatter, feature: GDDFeature): GDDFrontm
   // Check for duplicate IDs
   const existingFeature = frontmatter.features.find(f => f.id === feature.id);
   if (existingFeature) {
-    throw new Error(`Feature with ID '${feature.id}' already exists`);
+    throw new GDDError('conflict', `Feature with ID '${feature.id}' already exists`);
   }
   
   // Validate milestone reference
   const milestoneExists = frontmatter.milestones.some(m => m.id === feature.milestone);
   if (!milestoneExists) {
-    throw new Error(`Referenced milestone '${feature.milestone}' does not exist`);
+    throw new GDDError('invalid_params', `Referenced milestone '${feature.milestone}' does not exist`);
   }
   
   // Check for duplicate task IDs within the feature
   const taskIds = new Set<string>();
   for (const task of feature.tasks) {
     if (taskIds.has(task.id)) {
-      throw new Error(`Duplicate task ID '${task.id}' in feature '${feature.id}'`);
+      throw new GDDError('invalid_params', `Duplicate task ID '${task.id}' in feature '${feature.id}'`);
     }
     taskIds.add(task.id);
   }
@@ -257,7 +270,7 @@ function addFeature(frontmatter: GDDFrontmatter, feature: GDDFeature): GDDFrontm
 function updateFeature(frontmatter: GDDFrontmatter, featureId: string, updates: Partial<GDDFeature>): GDDFrontmatter {
   const featureIndex = frontmatter.features.findIndex(f => f.id === featureId);
   if (featureIndex === -1) {
-    throw new Error(`Feature with ID '${featureId}' not found`);
+    throw new GDDError('not_found', `Feature with ID '${featureId}' not found`);
   }
   
   const existingFeature = frontmatter.features[featureIndex];
@@ -267,7 +280,7 @@ function updateFeature(frontmatter: GDDFrontmatter, featureId: string, updates:
   if (updates.milestone) {
     const milestoneExists = frontmatter.milestones.some(m => m.id === updates.milestone);
     if (!milestoneExists) {
-      throw new Error(`Referenced milestone '${updates.milestone}' does not exist`);
+      throw new GDDError('invalid_params', `Referenced milestone '${updates.milestone}' does not exist`);
     }
   }
   
@@ -286,7 +299,7 @@ function updateFeature(frontmatter: GDDFrontmatter, featureId: string, updates:
 function addTaskToFeature(frontmatter: GDDFrontmatter, featureId: string, task: GDDTask): GDDFrontmatter {
   const featureIndex = frontmatter.features.findIndex(f => f.id === featureId);
   if (featureIndex === -1) {
-    throw new Error(`Feature with ID '${featureId}' not found`);
+    throw new GDDError('not_found', `Feature with ID '${featureId}' not found`);
   }
   
   const feature = frontmatter.features[featureIndex];
@@ -294,7 +307,7 @@ function addTaskToFeature(frontmatter: GDDFrontmatter, featureId: string, task:
   // Check for duplicate task ID within the feature
   const existingTask = feature.tasks.find(t => t.id === task.id);
   if (existingTask) {
-    throw new Error(`Task with ID '${task.id}' already exists in feature '${featureId}'`);
+    throw new GDDError('conflict', `Task with ID '${task.id}' already exists in feature '${featureId}'`);
   }
   
   const updatedFeature = {
@@ -335,7 +348,7 @@ function updateTask(frontmatter: GDDFrontmatter, taskId: string, updates: Partia
     }
   }
   
-  throw new Error(`Task with ID '${taskId}' not found`);
+  throw new GDDError('not_found', `Task with ID '${taskId}' not found`);
 }
 
 /**
@@ -622,7 +635,8 @@ export async function manageGDD(params: z.infer<typeof GDDManagerSchema>): Promi
       if (action === 'read' || action.startsWith('query') || action === 'validate_structure' || action === 'export_summary') {
         return {
           success: false,
-          error: `File not found: ${file_path}`
+          error: `File not found: ${file_path}`,
+          errorType: 'not_found'
         };
       }
     }
@@ -637,7 +651,8 @@ export async function manageGDD(params: z.infer<typeof GDDManagerSchema>): Promi
     } catch (error) {
       return {
         success: false,
-        error: `Failed to parse GDD file: ${error instanceof Error ? error.message : 'Unknown error'}`
+        error: `Failed to parse GDD file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorType: error instanceof GDDError ? error.type : (error as NodeJS.ErrnoException)?.code === 'ENOENT' ? 'not_found' : 'internal'
       };
     }
     
@@ -652,7 +667,7 @@ export async function manageGDD(params: z.infer<typeof GDDManagerSchema>): Promi
         
       case 'update_frontmatter':
         if (!validatedParams.updates) {
-          throw new Error('Updates parameter is required for update_frontmatter action');
+          throw new GDDError('invalid_params', 'Updates parameter is required for update_frontmatter action');
         }
         updatedGDD = {
           ...gdd!,
@@ -664,7 +679,7 @@ export async function manageGDD(params: z.infer<typeof GDDManagerSchema>): Promi
         
       case 'update_content':
         if (!validatedParams.section || !validatedParams.content) {
-          throw new Error('Section and content parameters are required for update_content action');
+          throw new GDDError('invalid_params', 'Section and content parameters are required for update_content action');
         }
         const updatedContent = updateContentSection(
           gdd!.content,
@@ -679,7 +694,7 @@ export async function manageGDD(params: z.infer<typeof GDDManagerSchema>): Promi
         
       case 'add_feature':
         if (!validatedParams.feature) {
-          throw new Error('Feature parameter is required for add_feature action');
+          throw new GDDError('invalid_params', 'Feature parameter is required for add_feature action');
         }
         const featureToAdd = validatedParams.feature as GDDFeature;
         updatedGDD = {
@@ -692,7 +707,7 @@ export async function manageGDD(params: z.infer<typeof GDDManagerSchema>): Promi
         
       case 'update_feature':
         if (!validatedParams.feature_id || !validatedParams.updates) {
-          throw new Error('Feature ID and updates parameters are required for update_feature action');
+          throw new GDDError('invalid_params', 'Feature ID and updates parameters are required for update_feature action');
         }
         updatedGDD = {
           ...gdd!,
@@ -704,7 +719,7 @@ export async function manageGDD(params: z.infer<typeof GDDManagerSchema>): Promi
         
       case 'add_task':
         if (!validatedParams.feature_id || !validatedParams.task) {
-          throw new Error('Feature ID and task parameters are required for add_task action');
+          throw new GDDError('invalid_params', 'Feature ID and task parameters are required for add_task action');
         }
         updatedGDD = {
           ...gdd!,
@@ -716,7 +731,7 @@ export async function manageGDD(params: z.infer<typeof GDDManagerSchema>): Promi
         
       case 'update_task':
         if (!validatedParams.task_id || !validatedParams.updates) {
-          throw new Error('Task ID and updates parameters are required for update_task action');
+          throw new GDDError('invalid_params', 'Task ID and updates parameters are required for update_task action');
         }
         updatedGDD = {
           ...gdd!,
@@ -765,7 +780,7 @@ export async function manageGDD(params: z.infer<typeof GDDManagerSchema>): Promi
         break;
         
       default:
-        throw new Error(`Unknown action: ${action}`);
+        throw new GDDError('invalid_params', `Unknown action: ${action}`);
     }
     
     // Write file if needed
@@ -786,7 +801,10 @@ export async function manageGDD(params: z.infer<typeof GDDManagerSchema>): Promi
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
+      error: error instanceof z.ZodError
+        ? error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(', ')
+        : error instanceof Error ? error.message : 'Unknown error occurred',
+      errorType: error instanceof GDDError ? error.type : error instanceof z.ZodError ? 'invalid_params' : 'internal'
     };
   }
 }
@@ -1,6 +1,16 @@
 // Export all tools in a modular way
-export { validateSyntax } from './validation.js';
-export { generatePattern } from './pattern-generation.js';
-export { simulateBuild } from './build-simulation.js';
-export { searchRobloxDocs, summarizeRobloxDocPage } from './documentation.js';
-export { manageGDD, GDDManagerSchema } from './gdd-manager.js';
+export { validateSyntax, ValidateSyntaxSchema } from './validation.js';
+export { lintRules } from './lint-rules.js';
+export { loadLintConfig, LintConfig } from './lint-config.js';
+export { generatePattern, GeneratePatternSchema } from './pattern-generation.js';
+export { simulateBuild, SimulateBuildSchema } from './build-simulation.js';
+export { findRobloxTsCompiler, compileRobloxTs, CompileResult } from './roblox-ts-compiler.js';
+export { searchRobloxDocs, summarizeRobloxDocPage, SearchRobloxDocsSchema, SummarizeRobloxDocSchema } from './documentation.js';
+export {
+  analyzePackage,
+  suggestPackageIntegration,
+  PackageAnalyzeSchema,
+  PackageIntegrationSchema,
+  PackageTroubleshootSchema
+} from './package-assistance.js';
+export { manageGDD, GDDManagerSchema, GDDErrorType } from './gdd-manager.js';
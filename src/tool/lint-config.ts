@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getLintRule } from './lint-rules.js';
+
+export const LINT_CONFIG_FILE = '.rbxts-mcp.json';
+
+export const RuleSettingSchema = z.enum(['off', 'suggestion', 'warning', 'error']);
+export type RuleSetting = z.infer<typeof RuleSettingSchema>;
+
+/**
+ * Shape of `.rbxts-mcp.json`, e.g.
+ * `{ "rules": { "prefer-fusion": "error", "prefer-try-catch": "off" } }`
+ */
+export const LintConfigSchema = z.object({
+  rules: z.record(RuleSettingSchema).optional().default({}),
+}).passthrough();
+
+export type LintConfig = z.infer<typeof LintConfigSchema>;
+
+/**
+ * Load lint configuration from `<projectRoot>/.rbxts-mcp.json`.
+ * A missing file yields the defaults; an invalid file or unknown rule id throws.
+ */
+export async function loadLintConfig(projectRoot: string): Promise<LintConfig> {
+  const filePath = path.join(projectRoot, LINT_CONFIG_FILE);
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return LintConfigSchema.parse({});
+    }
+    throw error;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid ${LINT_CONFIG_FILE}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const parsed = LintConfigSchema.safeParse(json);
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid ${LINT_CONFIG_FILE}: ${message}`);
+  }
+
+  const unknown = Object.keys(parsed.data.rules).filter((id) => !getLintRule(id));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid ${LINT_CONFIG_FILE}: unknown rule(s) ${unknown.join(', ')}`);
+  }
+
+  return parsed.data;
+}
@@ -0,0 +1,259 @@
+import * as ts from 'typescript';
+import { AnalysisContext, FixEdit, ImportRequest, RuleFix, SERVICES_MODULE, stringArgument } from './lint-rules.js';
+
+function lineIndent(sourceFile: ts.SourceFile, pos: number): string {
+  const text = sourceFile.text;
+  const lineStart = text.lastIndexOf('\n', pos - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))![0];
+}
+
+function indentUnit(indent: string): string {
+  return indent.includes('\t') ? '\t' : '  ';
+}
+
+/**
+ * Range covering a whole statement line, including its trailing newline
+ */
+function statementLineRange(sourceFile: ts.SourceFile, statement: ts.Statement): { start: number; end: number } {
+  const text = sourceFile.text;
+  const start = text.lastIndexOf('\n', statement.getStart(sourceFile) - 1) + 1;
+  let end = statement.getEnd();
+  while (end < text.length && (text[end] === ' ' || text[end] === '\t')) end++;
+  if (text[end] === '\r') end++;
+  if (text[end] === '\n') end++;
+  return { start, end };
+}
+
+/**
+ * Replace `game.GetService("X")` with the `X` export of @rbxts/services.
+ * `const X = game.GetService("X")` is removed entirely since the import takes its place.
+ */
+export function serviceImportFix(ctx: AnalysisContext, call: ts.CallExpression): RuleFix | undefined {
+  const service = stringArgument(call);
+  if (!service) return undefined;
+
+  // Reuse an existing (possibly aliased) import of the same service
+  let localName: string | undefined;
+  for (const [name, binding] of ctx.imports) {
+    if (binding.module === SERVICES_MODULE && binding.imported === service) localName = name;
+  }
+  const imports: ImportRequest[] = localName ? [] : [{ module: SERVICES_MODULE, name: service }];
+  localName ??= service;
+
+  const declaration = call.parent;
+  if (
+    ts.isVariableDeclaration(declaration)
+    && declaration.initializer === call
+    && ts.isIdentifier(declaration.name)
+    && declaration.name.text === localName
+    && ts.isVariableDeclarationList(declaration.parent)
+    && declaration.parent.declarations.length === 1
+    && ts.isVariableStatement(declaration.parent.parent)
+  ) {
+    const { start, end } = statementLineRange(ctx.sourceFile, declaration.parent.parent);
+    return { edits: [{ start, end, replacement: '' }], imports };
+  }
+
+  return {
+    edits: [{ start: call.getStart(ctx.sourceFile), end: call.getEnd(), replacement: localName }],
+    imports,
+  };
+}
+
+/**
+ * Add the checker-inferred return type to an exported function. Nothing is
+ * offered when inference falls back to `any` (e.g. Roblox types are involved).
+ */
+export function returnTypeFix(ctx: AnalysisContext, fn: ts.SignatureDeclaration): RuleFix | undefined {
+  const closeParen = fn.getChildren(ctx.sourceFile).find((child) => child.kind === ts.SyntaxKind.CloseParenToken);
+  if (!closeParen) return undefined;
+
+  const checker = ctx.getTypeChecker();
+  const signature = checker.getSignatureFromDeclaration(fn);
+  if (!signature) return undefined;
+  const returnType = checker.typeToString(
+    checker.getReturnTypeOfSignature(signature),
+    fn,
+    ts.TypeFormatFlags.NoTruncation | ts.TypeFormatFlags.UseFullyQualifiedType
+  );
+  if (/\bany\b/.test(returnType)) return undefined;
+
+  const at = closeParen.getEnd();
+  return { edits: [{ start: at, end: at, replacement: `: ${returnType}` }] };
+}
+
+function containsReturn(node: ts.Node): boolean {
+  let found = false;
+  const visit = (child: ts.Node): void => {
+    if (found || ts.isFunctionLike(child)) return;
+    if (ts.isReturnStatement(child)) found = true;
+    else ts.forEachChild(child, visit);
+  };
+  ts.forEachChild(node, visit);
+  return found;
+}
+
+/**
+ * Statements to place in the try block, given the protected function and its
+ * arguments. `assignTo` turns the function's value into an assignment.
+ */
+function protectedBody(
+  sourceFile: ts.SourceFile,
+  fn: ts.Expression,
+  args: readonly ts.Expression[],
+  assignTo: string | undefined,
+  indent: string
+): string | undefined {
+  const prefix = assignTo ? `${assignTo} = ` : '';
+  if ((ts.isArrowFunction(fn) || ts.isFunctionExpression(fn)) && fn.parameters.length === 0 && args.length === 0) {
+    if (!ts.isBlock(fn.body)) {
+      return `${indent}${prefix}${fn.body.getText(sourceFile)};`;
+    }
+    // A return inside the try block would leave the enclosing function instead
+    if (assignTo || containsReturn(fn.body)) return undefined;
+    const statements = fn.body.statements;
+    if (statements.length === 0) return '';
+    const bodyIndent = lineIndent(sourceFile, statements[0].getStart(sourceFile));
+    const text = sourceFile.text.slice(statements[0].getStart(sourceFile), statements[statements.length - 1].getEnd());
+    return indent + text.split('\n').map((line) => (line.startsWith(bodyIndent) ? line.slice(bodyIndent.length) : line)).join(`\n${indent}`);
+  }
+
+  const callee = ts.isIdentifier(fn) || ts.isPropertyAccessExpression(fn) ? fn.getText(sourceFile) : `(${fn.getText(sourceFile)})`;
+  return `${indent}${prefix}${callee}(${args.map((a) => a.getText(sourceFile)).join(', ')});`;
+}
+
+/**
+ * Rewrite `pcall(fn)` / `xpcall(fn, handler)` used as a statement, or as the
+ * initializer of `const [ok, result] = ...`, into try/catch.
+ */
+export function tryCatchFix(ctx: AnalysisContext, call: ts.CallExpression): RuleFix | undefined {
+  const sourceFile = ctx.sourceFile;
+  const isXpcall = ts.isIdentifier(call.expression) && call.expression.text === 'xpcall';
+  const [fn, ...rest] = call.arguments;
+  if (!fn || (isXpcall && rest.length === 0)) return undefined;
+  const handler = isXpcall ? rest[0] : undefined;
+  const args = isXpcall ? rest.slice(1) : rest;
+  const handlerCall = handler
+    ? `${ts.isIdentifier(handler) ? handler.getText(sourceFile) : `(${handler.getText(sourceFile)})`}(err)`
+    : undefined;
+
+  let statement: ts.Statement;
+  let okName: string | undefined;
+  let resultName: string | undefined;
+
+  if (ts.isExpressionStatement(call.parent)) {
+    statement = call.parent;
+  } else if (
+    ts.isVariableDeclaration(call.parent)
+    && call.parent.initializer === call
+    && ts.isArrayBindingPattern(call.parent.name)
+    && ts.isVariableDeclarationList(call.parent.parent)
+    && call.parent.parent.declarations.length === 1
+    && ts.isVariableStatement(call.parent.parent.parent)
+  ) {
+    statement = call.parent.parent.parent;
+    const [ok, result] = call.parent.name.elements;
+    const nameOf = (element: ts.ArrayBindingElement | undefined) =>
+      element && ts.isBindingElement(element) && ts.isIdentifier(element.name) && !element.initializer
+        ? element.name.text
+        : undefined;
+    okName = nameOf(ok);
+    resultName = nameOf(result);
+    if (call.parent.name.elements.length > 2 || (ok && !okName && !ts.isOmittedExpression(ok)) || (result && !resultName)) {
+      return undefined;
+    }
+  } else {
+    return undefined;
+  }
+
+  const indent = lineIndent(sourceFile, statement.getStart(sourceFile));
+  const inner = indent + indentUnit(indent);
+  const body = protectedBody(sourceFile, fn, args, resultName, inner);
+  if (body === undefined) return undefined;
+
+  const catchLines: string[] = [];
+  if (okName) catchLines.push(`${inner}${okName} = false;`);
+  if (resultName) catchLines.push(`${inner}${resultName} = ${handlerCall ?? 'err'};`);
+  else catchLines.push(`${inner}${handlerCall ?? 'warn(err)'};`);
+
+  const lines: string[] = [];
+  if (okName) lines.push(`let ${okName} = true;`);
+  if (resultName) lines.push(`let ${resultName};`);
+  lines.push('try {');
+  if (body) lines.push(body);
+  lines.push('} catch (err) {', ...catchLines, `${indent}}`);
+
+  const replacement = lines.map((line, i) => (i === 0 || line.startsWith(indent) ? line : indent + line)).join('\n');
+  return { edits: [{ start: statement.getStart(sourceFile), end: statement.getEnd(), replacement }] };
+}
+
+/**
+ * Turn requested imports into edits: extend an existing named import from the
+ * same module, or add a new import after the last import declaration.
+ */
+function importEdits(sourceFile: ts.SourceFile, requests: ImportRequest[]): FixEdit[] {
+  const byModule = new Map<string, Set<string>>();
+  for (const { module, name } of requests) {
+    if (!byModule.has(module)) byModule.set(module, new Set());
+    byModule.get(module)!.add(name);
+  }
+
+  const importDeclarations = sourceFile.statements.filter(ts.isImportDeclaration);
+  const lastImport = importDeclarations[importDeclarations.length - 1];
+  const quote = lastImport && sourceFile.text[lastImport.moduleSpecifier.getStart(sourceFile)] === "'" ? "'" : '"';
+  const edits: FixEdit[] = [];
+
+  for (const [module, names] of byModule) {
+    const existing = importDeclarations.find(
+      (d) => ts.isStringLiteral(d.moduleSpecifier)
+        && d.moduleSpecifier.text === module
+        && d.importClause?.namedBindings
+        && ts.isNamedImports(d.importClause.namedBindings)
+    );
+    if (existing) {
+      const named = existing.importClause!.namedBindings as ts.NamedImports;
+      const missing = [...names].filter((n) => !named.elements.some((e) => e.name.text === n));
+      if (missing.length === 0) continue;
+      const at = named.elements.length > 0 ? named.elements[named.elements.length - 1].getEnd() : named.getStart(sourceFile) + 1;
+      const separator = named.elements.length > 0 ? ', ' : ' ';
+      edits.push({ start: at, end: at, replacement: `${separator}${missing.join(', ')}${named.elements.length > 0 ? '' : ' '}` });
+      continue;
+    }
+
+    const line = `import { ${[...names].join(', ')} } from ${quote}${module}${quote};`;
+    if (lastImport) {
+      edits.push({ start: lastImport.getEnd(), end: lastImport.getEnd(), replacement: `\n${line}` });
+    } else {
+      edits.push({ start: 0, end: 0, replacement: `${line}\n\n` });
+    }
+  }
+  return edits;
+}
+
+/**
+ * Resolve fixes into a single set of non-overlapping edits and the rewritten
+ * source. Fixes that collide with an earlier one are dropped whole; running the
+ * fixer again on the output picks them up.
+ */
+export function applyFixes(sourceFile: ts.SourceFile, fixes: RuleFix[]): { edits: FixEdit[]; output: string; applied: RuleFix[] } {
+  const accepted: FixEdit[] = [];
+  const applied: RuleFix[] = [];
+  const overlaps = (a: FixEdit, b: FixEdit) =>
+    a.start < b.end && b.start < a.end || (a.start === a.end && a.start > b.start && a.start < b.end)
+    || (b.start === b.end && b.start > a.start && b.start < a.end);
+
+  for (const fix of fixes) {
+    if (fix.edits.some((edit) => accepted.some((other) => overlaps(edit, other)))) continue;
+    accepted.push(...fix.edits);
+    applied.push(fix);
+  }
+
+  const edits = [...accepted, ...importEdits(sourceFile, applied.flatMap((fix) => fix.imports ?? []))]
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  let output = sourceFile.text;
+  for (const edit of [...edits].reverse()) {
+    output = output.slice(0, edit.start) + edit.replacement + output.slice(edit.end);
+  }
+  return { edits, output, applied };
+}
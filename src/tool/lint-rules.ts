@@ -0,0 +1,428 @@
+import * as ts from 'typescript';
+import { returnTypeFix, serviceImportFix, tryCatchFix } from './lint-fixes.js';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'suggestion';
+
+/**
+ * A single import binding, e.g. `import { Players as P } from "@rbxts/services"`
+ * is recorded under `P` as { module: '@rbxts/services', imported: 'Players' }.
+ */
+export interface ImportBinding {
+  module: string;
+  imported: string;
+}
+
+/**
+ * Facts about the analysed file shared by every rule
+ */
+export interface AnalysisContext {
+  sourceFile: ts.SourceFile;
+  imports: Map<string, ImportBinding>;
+  importedModules: Set<string>;
+  /** Names declared in the file by anything other than an import */
+  localNames: Set<string>;
+  /** Variables bound to the `game` DataModel */
+  gameAliases: Set<string>;
+  /** Variables bound to `game.GetService` itself */
+  getServiceAliases: Set<string>;
+  /** Variables bound to a service instance, mapped to the service name */
+  serviceVariables: Map<string, string>;
+  /** Type checker over the snippet alone, created on first use */
+  getTypeChecker(): ts.TypeChecker;
+}
+
+/** Replace source offsets [start, end) with `replacement` */
+export interface FixEdit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+/** A named import the fix relies on, merged into the file's imports when applied */
+export interface ImportRequest {
+  module: string;
+  name: string;
+}
+
+export interface RuleFix {
+  edits: FixEdit[];
+  imports?: ImportRequest[];
+}
+
+/**
+ * Reports a finding for the rule currently being run. `message` and
+ * `suggestion` default to the rule's own; `fix` is only evaluated in fix mode.
+ */
+export type RuleReporter = (
+  node: ts.Node,
+  message?: string,
+  suggestion?: string,
+  fix?: () => RuleFix | undefined
+) => void;
+
+export interface LintRule {
+  id: string;
+  defaultSeverity: DiagnosticSeverity;
+  docs: string;
+  message: string;
+  suggestion?: string;
+  check(ctx: AnalysisContext, node: ts.Node, report: RuleReporter): void;
+}
+
+export const SERVICES_MODULE = '@rbxts/services';
+const REMOTE_CLASSES = new Set(['RemoteEvent', 'RemoteFunction', 'UnreliableRemoteEvent']);
+const GUI_CLASSES = new Set([
+  'ScreenGui', 'BillboardGui', 'SurfaceGui', 'Frame', 'ScrollingFrame', 'TextLabel',
+  'TextButton', 'TextBox', 'ImageLabel', 'ImageButton', 'CanvasGroup',
+]);
+
+export function stringArgument(call: ts.CallExpression | ts.NewExpression, index = 0): string | undefined {
+  const arg = call.arguments?.[index];
+  return arg && ts.isStringLiteralLike(arg) ? arg.text : undefined;
+}
+
+export function isGameExpression(ctx: AnalysisContext, expr: ts.Expression): boolean {
+  return ts.isIdentifier(expr) && (expr.text === 'game' || ctx.gameAliases.has(expr.text));
+}
+
+/**
+ * True for `game.GetService(...)`, `game["GetService"](...)` and calls through
+ * a variable that aliases either `game` or `game.GetService`.
+ */
+export function isGetServiceCall(ctx: AnalysisContext, call: ts.CallExpression): boolean {
+  const callee = call.expression;
+  if (ts.isPropertyAccessExpression(callee)) {
+    return callee.name.text === 'GetService' && isGameExpression(ctx, callee.expression);
+  }
+  if (ts.isElementAccessExpression(callee)) {
+    const arg = callee.argumentExpression;
+    return ts.isStringLiteralLike(arg) && arg.text === 'GetService' && isGameExpression(ctx, callee.expression);
+  }
+  return ts.isIdentifier(callee) && ctx.getServiceAliases.has(callee.text);
+}
+
+/**
+ * Resolve an expression to the Roblox service it refers to, if any
+ */
+function resolveService(ctx: AnalysisContext, expr: ts.Expression): string | undefined {
+  if (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isNonNullExpression(expr)) {
+    return resolveService(ctx, expr.expression);
+  }
+  if (ts.isIdentifier(expr)) {
+    const binding = ctx.imports.get(expr.text);
+    if (binding) return binding.module === SERVICES_MODULE ? binding.imported : undefined;
+    return ctx.serviceVariables.get(expr.text);
+  }
+  if (ts.isCallExpression(expr) && isGetServiceCall(ctx, expr)) {
+    return stringArgument(expr);
+  }
+  return undefined;
+}
+
+/**
+ * Build a program containing only the snippet (plus the default libs) so fixes
+ * can ask the checker for inferred types without the user's project on disk
+ */
+function createSnippetProgram(sourceFile: ts.SourceFile): ts.Program {
+  const options: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    jsx: ts.JsxEmit.React,
+    strict: true,
+    noEmit: true,
+    types: [],
+  };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) =>
+    fileName === sourceFile.fileName ? sourceFile : getSourceFile(fileName, languageVersion, onError, shouldCreate);
+  return ts.createProgram([sourceFile.fileName], options, host);
+}
+
+/**
+ * First pass: collect imports and the aliases the rules need to see through
+ */
+export function createAnalysisContext(sourceFile: ts.SourceFile): AnalysisContext {
+  const ctx: AnalysisContext = {
+    sourceFile,
+    imports: new Map(),
+    importedModules: new Set(),
+    localNames: new Set(),
+    gameAliases: new Set(),
+    getServiceAliases: new Set(),
+    serviceVariables: new Map(),
+    getTypeChecker() {
+      const checker = createSnippetProgram(sourceFile).getTypeChecker();
+      ctx.getTypeChecker = () => checker;
+      return checker;
+    },
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const module = node.moduleSpecifier.text;
+      ctx.importedModules.add(module);
+      const clause = node.importClause;
+      if (clause?.name) ctx.imports.set(clause.name.text, { module, imported: 'default' });
+      const bindings = clause?.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        ctx.imports.set(bindings.name.text, { module, imported: '*' });
+      } else if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) {
+          ctx.imports.set(element.name.text, { module, imported: (element.propertyName ?? element.name).text });
+        }
+      }
+      return;
+    }
+
+    if (ts.isImportEqualsDeclaration(node)) {
+      const ref = node.moduleReference;
+      if (ts.isExternalModuleReference(ref) && ts.isStringLiteral(ref.expression)) {
+        ctx.importedModules.add(ref.expression.text);
+        ctx.imports.set(node.name.text, { module: ref.expression.text, imported: '*' });
+      }
+      return;
+    }
+
+    if (ts.isVariableDeclaration(node)) {
+      const init = node.initializer;
+      if (ts.isIdentifier(node.name)) {
+        ctx.localNames.add(node.name.text);
+        if (init) {
+          if (isGameExpression(ctx, init)) {
+            ctx.gameAliases.add(node.name.text);
+          } else if (ts.isPropertyAccessExpression(init) && init.name.text === 'GetService' && isGameExpression(ctx, init.expression)) {
+            ctx.getServiceAliases.add(node.name.text);
+          } else {
+            const service = resolveService(ctx, init);
+            if (service) ctx.serviceVariables.set(node.name.text, service);
+          }
+        }
+      } else if (ts.isObjectBindingPattern(node.name)) {
+        for (const element of node.name.elements) {
+          if (!ts.isIdentifier(element.name)) continue;
+          ctx.localNames.add(element.name.text);
+          const property = element.propertyName && ts.isIdentifier(element.propertyName)
+            ? element.propertyName.text
+            : element.name.text;
+          if (init && property === 'GetService' && isGameExpression(ctx, init)) {
+            ctx.getServiceAliases.add(element.name.text);
+          }
+        }
+      }
+    } else if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) && node.name) {
+      ctx.localNames.add(node.name.text);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return ctx;
+}
+
+export function isExported(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node)
+    && (ts.getModifiers(node) ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+/**
+ * Services must come from @rbxts/services, never game.GetService()
+ */
+const noGetService: LintRule = {
+  id: 'no-get-service',
+  defaultSeverity: 'error',
+  docs: 'https://www.npmjs.com/package/@rbxts/services',
+  message: 'Use @rbxts/services for service imports instead of game.GetService()',
+  suggestion: 'Replace game.GetService("Players") with import { Players } from "@rbxts/services"',
+  check(ctx, node, report) {
+    if (!ts.isCallExpression(node) || !isGetServiceCall(ctx, node)) return;
+    const service = stringArgument(node) ?? 'Players';
+    report(
+      node,
+      undefined,
+      `Replace game.GetService("${service}") with import { ${service} } from "${SERVICES_MODULE}"`,
+      () => serviceImportFix(ctx, node)
+    );
+  },
+};
+
+/**
+ * Raw RemoteEvent/RemoteFunction usage when @rbxts/net is not imported
+ */
+const preferNet: LintRule = {
+  id: 'prefer-net',
+  defaultSeverity: 'warning',
+  docs: 'https://www.npmjs.com/package/@rbxts/net',
+  message: 'Consider using @rbxts/net for type-safe networking instead of raw RemoteEvents',
+  suggestion: 'Install @rbxts/net and define remote events with type safety',
+  check(ctx, node, report) {
+    if (ctx.importedModules.has('@rbxts/net')) return;
+
+    let className: string | undefined;
+    if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+      className = node.typeName.text;
+    } else if (ts.isNewExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'Instance') {
+      className = stringArgument(node);
+    } else if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) && node.expression.name.text === 'IsA') {
+      className = stringArgument(node);
+    }
+
+    if (className && REMOTE_CLASSES.has(className)) report(node);
+  },
+};
+
+/**
+ * Direct DataStoreService access when @rbxts/profile-store is not imported
+ */
+const preferProfileStore: LintRule = {
+  id: 'prefer-profile-store',
+  defaultSeverity: 'warning',
+  docs: 'https://www.npmjs.com/package/@rbxts/profile-store',
+  message: 'Consider using @rbxts/profile-store for robust data management',
+  suggestion: 'ProfileStore provides session locking and data reconciliation',
+  check(ctx, node, report) {
+    if (ctx.importedModules.has('@rbxts/profile-store')) return;
+
+    let usesDataStore = false;
+    if (ts.isImportSpecifier(node)) {
+      const declaration = node.parent.parent.parent;
+      usesDataStore = ts.isStringLiteral(declaration.moduleSpecifier)
+        && declaration.moduleSpecifier.text === SERVICES_MODULE
+        && (node.propertyName ?? node.name).text === 'DataStoreService';
+    } else if (ts.isCallExpression(node) && isGetServiceCall(ctx, node)) {
+      usesDataStore = stringArgument(node) === 'DataStoreService';
+    } else if (ts.isIdentifier(node) && node.text === 'DataStoreService') {
+      // A free identifier: neither imported nor declared locally
+      const parent = node.parent;
+      const isName = ts.isImportSpecifier(parent)
+        || (ts.isPropertyAccessExpression(parent) && parent.name === node)
+        || (ts.isPropertyAssignment(parent) && parent.name === node)
+        || (ts.isBindingElement(parent) && parent.propertyName === node);
+      usesDataStore = !isName && !ctx.imports.has(node.text) && !ctx.localNames.has(node.text);
+    }
+
+    if (usesDataStore) report(node);
+  },
+};
+
+/**
+ * BasePart.Touched used for zone detection when @rbxts/zone-plus is not imported
+ */
+const preferZonePlus: LintRule = {
+  id: 'prefer-zone-plus',
+  defaultSeverity: 'warning',
+  docs: 'https://www.npmjs.com/package/@rbxts/zone-plus',
+  message: 'Consider using @rbxts/zone-plus for reliable zone detection instead of Touched events',
+  suggestion: 'Zone-Plus handles overlapping parts and provides better performance',
+  check(ctx, node, report) {
+    if (ctx.importedModules.has('@rbxts/zone-plus')) return;
+    if (ts.isPropertyAccessExpression(node) && node.name.text === 'Touched') report(node.name);
+  },
+};
+
+/**
+ * Manual GUI construction with new Instance() when @rbxts/fusion is not imported
+ */
+const preferFusion: LintRule = {
+  id: 'prefer-fusion',
+  defaultSeverity: 'suggestion',
+  docs: 'https://www.npmjs.com/package/@rbxts/fusion',
+  message: 'Consider using @rbxts/fusion for reactive UI development',
+  check(ctx, node, report) {
+    if (ctx.importedModules.has('@rbxts/fusion')) return;
+    if (ts.isNewExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'Instance') {
+      const className = stringArgument(node);
+      if (className && GUI_CLASSES.has(className)) report(node);
+    }
+  },
+};
+
+/**
+ * Parameters and exported functions without explicit types. Callbacks passed as
+ * arguments are contextually typed and therefore not reported.
+ */
+const explicitTypes: LintRule = {
+  id: 'explicit-types',
+  defaultSeverity: 'warning',
+  docs: 'https://www.typescriptlang.org/docs/handbook/2/functions.html',
+  message: 'Consider adding explicit type annotations for better type safety',
+  suggestion: 'Example: function processPlayer(player: Player): void { ... }',
+  check(ctx, node, report) {
+    let fn: ts.SignatureDeclaration | undefined;
+    let exported = false;
+
+    if (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) {
+      fn = node;
+      exported = ts.isFunctionDeclaration(node) && isExported(node);
+    } else if (
+      (ts.isArrowFunction(node) || ts.isFunctionExpression(node))
+      && ts.isVariableDeclaration(node.parent)
+      && node.parent.initializer === node
+      && !node.parent.type
+    ) {
+      fn = node;
+      const statement = node.parent.parent.parent;
+      exported = ts.isVariableStatement(statement) && isExported(statement);
+    }
+    if (!fn) return;
+
+    for (const param of fn.parameters) {
+      if (!param.type && !param.initializer) {
+        report(param, `Parameter '${param.name.getText(ctx.sourceFile)}' has no type annotation`);
+      }
+    }
+
+    if (exported && !fn.type) {
+      const name = fn.name ?? (ts.isVariableDeclaration(fn.parent) ? fn.parent.name : undefined);
+      const signature = fn;
+      report(
+        name ?? fn,
+        `Exported function '${name ? name.getText(ctx.sourceFile) : 'default'}' has no return type annotation`,
+        undefined,
+        () => returnTypeFix(ctx, signature)
+      );
+    }
+  },
+};
+
+/**
+ * Lua-style pcall/xpcall instead of TypeScript try/catch
+ */
+const preferTryCatch: LintRule = {
+  id: 'prefer-try-catch',
+  defaultSeverity: 'suggestion',
+  docs: 'https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Statements/try...catch',
+  message: 'Use try-catch blocks for error handling in TypeScript instead of pcall',
+  check(ctx, node, report) {
+    if (
+      ts.isCallExpression(node)
+      && ts.isIdentifier(node.expression)
+      && (node.expression.text === 'pcall' || node.expression.text === 'xpcall')
+      && !ctx.localNames.has(node.expression.text)
+    ) {
+      report(
+        node.expression,
+        `Use try-catch blocks for error handling in TypeScript instead of ${node.expression.text}`,
+        undefined,
+        () => tryCatchFix(ctx, node)
+      );
+    }
+  },
+};
+
+/**
+ * All built-in rules, in reporting order
+ */
+export const lintRules: readonly LintRule[] = [
+  noGetService,
+  preferNet,
+  preferProfileStore,
+  preferZonePlus,
+  preferFusion,
+  explicitTypes,
+  preferTryCatch,
+];
+
+export function getLintRule(id: string): LintRule | undefined {
+  return lintRules.find((rule) => rule.id === id);
+}
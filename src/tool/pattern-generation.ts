@@ -15,6 +15,89 @@ export function generatePattern(feature: string, libraries: string[] = []): { co
   let explanation = '';
 
   switch (feature.toLowerCase()) {
+    case 'attributes-catalog':
+    case 'attributes':
+    case 'attribute-catalog': {
+      explanation = 'Attributes Catalog: KEYS + derived key type, meta with attribute name, type, default, and optional numeric bounds; map satisfies Record<CatalogKey, CatalogMeta>.';
+      code = `/**
+ * REQUIRED Pattern: Attributes Catalog
+ * - Do NOT rename identifiers or alter derivations.
+ * - Designed for Roblox Instance Attributes (SetAttribute/GetAttribute).
+ */
+
+/* REQUIRED: KEYS — Do NOT rename this constant or remove 'as const'. */
+export const CATALOG_KEYS = [
+  "HEALTH",
+  "STAMINA",
+  "MANA",
+  "IS_NPC",
+] as const;
+
+/* REQUIRED: Key type — must be derived from CATALOG_KEYS; do NOT change derivation style. */
+export type CatalogKey = typeof CATALOG_KEYS[number];
+
+/* Attribute data types supported by this catalog */
+export type AttributeType = 'number' | 'string' | 'boolean' | 'Vector3' | 'Color3';
+
+/* REQUIRED: Meta interface — core fields for attributes. */
+export interface CatalogMeta {
+  key: CatalogKey;
+  /** The actual attribute name stored on the Instance */
+  attribute: string;
+  description: string;
+  type: AttributeType;
+  /** Default value to apply when missing */
+  default: number | string | boolean | Vector3 | Color3;
+  /** Optional numeric bounds (only applicable when type === 'number') */
+  min?: number;
+  max?: number;
+  /** Whether this attribute is expected to replicate (Attributes replicate by default) */
+  replicate?: boolean;
+}
+
+/* REQUIRED: Catalog map — must cover ALL keys and MUST use 'satisfies Record<CatalogKey, CatalogMeta>'. */
+export const CATALOG_META = {
+  HEALTH: {
+    key: "HEALTH",
+    attribute: "Health",
+    description: "Current health points for a character or entity.",
+    type: 'number',
+    default: 100,
+    min: 0,
+    max: 100,
+    replicate: true,
+  },
+  STAMINA: {
+    key: "STAMINA",
+    attribute: "Stamina",
+    description: "Energy used for sprinting and actions.",
+    type: 'number',
+    default: 50,
+    min: 0,
+    max: 100,
+    replicate: true,
+  },
+  MANA: {
+    key: "MANA",
+    attribute: "Mana",
+    description: "Resource for casting abilities.",
+    type: 'number',
+    default: 0,
+    min: 0,
+    max: 100,
+    replicate: true,
+  },
+  IS_NPC: {
+    key: "IS_NPC",
+    attribute: "IsNPC",
+    description: "Marks a character as an NPC.",
+    type: 'boolean',
+    default: false,
+    replicate: true,
+  },
+} satisfies Record<CatalogKey, CatalogMeta>;`;
+      break;
+    }
     case 'damage-types-catalog':
     case 'damage-types':
     case 'arpg-damage-types':
@@ -805,7 +888,22 @@ export class ServiceManager {
       break;
 
     default:
-  throw new Error(`Unknown pattern: ${feature}. Available patterns: player-data, networking, zone, ui, service, key-meta-catalog, damage-types-catalog`);
+      explanation = 'Basic Roblox-ts class template';
+      code = `// Basic Roblox-ts Class Template
+export class ${feature.replace(/[^a-zA-Z0-9]/g, '')} {
+  constructor() {
+    // Initialize your class here
+  }
+
+  public start(): void {
+    // Start logic here
+  }
+
+  public stop(): void {
+    // Cleanup logic here
+  }
+}`;
+      break;
   }
 
   return { code, explanation, dependencies };
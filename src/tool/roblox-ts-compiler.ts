@@ -0,0 +1,225 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import * as ts from 'typescript';
+
+export type BuildTarget = 'server' | 'client' | 'shared';
+
+export interface RobloxTsCompiler {
+  /** Path to the roblox-ts CLI entry point (what `rbxtsc` runs) */
+  cliPath: string;
+  version: string;
+  /** node_modules directory roblox-ts was found in (may belong to a parent of the project) */
+  nodeModules: string;
+}
+
+export interface CompileResult {
+  success: boolean;
+  /** Compiled Luau for the requested snippet or file, when compilation succeeded */
+  luau?: string;
+  /** Compiler diagnostics, one per line of CLI output */
+  diagnostics: string[];
+  compilerVersion: string;
+}
+
+export interface CompileOptions {
+  projectRoot: string;
+  /** Snippet to compile; ignored when `filePath` is given */
+  code?: string;
+  /** File inside the project to compile, absolute or relative to `projectRoot` */
+  filePath?: string;
+  target?: BuildTarget;
+  timeoutMs?: number;
+}
+
+// Layout of the roblox-ts "game" template, used for snippets
+const SNIPPET_TSCONFIG = {
+  compilerOptions: {
+    allowSyntheticDefaultImports: true,
+    downlevelIteration: true,
+    jsx: 'react',
+    jsxFactory: 'React.createElement',
+    jsxFragmentFactory: 'React.Fragment',
+    module: 'commonjs',
+    moduleResolution: 'Node',
+    noLib: true,
+    resolveJsonModule: true,
+    experimentalDecorators: true,
+    forceConsistentCasingInFileNames: true,
+    moduleDetection: 'force',
+    strict: true,
+    target: 'ESNext',
+    typeRoots: ['node_modules/@rbxts'],
+    rootDir: 'src',
+    outDir: 'out',
+    baseUrl: 'src',
+  },
+};
+
+const SNIPPET_ROJO_PROJECT = {
+  name: 'simulate-build',
+  tree: {
+    $className: 'DataModel',
+    ServerScriptService: { $className: 'ServerScriptService', TS: { $path: 'out/server' } },
+    StarterPlayer: {
+      $className: 'StarterPlayer',
+      StarterPlayerScripts: { $className: 'StarterPlayerScripts', TS: { $path: 'out/client' } },
+    },
+    ReplicatedStorage: {
+      $className: 'ReplicatedStorage',
+      rbxts_include: {
+        $path: 'include',
+        node_modules: { $className: 'Folder', '@rbxts': { $path: 'node_modules/@rbxts' } },
+      },
+      TS: { $path: 'out/shared' },
+    },
+  },
+};
+
+const SNIPPET_FILES: Record<BuildTarget, string> = {
+  server: 'server/main.server.ts',
+  client: 'client/main.client.ts',
+  shared: 'shared/module.ts',
+};
+
+/**
+ * The node_modules directory Node's lookup from `projectRoot` finds roblox-ts
+ * in, without following symlinks so pnpm layouts keep their sibling packages
+ */
+async function findNodeModules(projectRoot: string, packageJsonPath: string): Promise<string> {
+  for (let dir = path.resolve(projectRoot); ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, 'node_modules');
+    try {
+      await fs.access(path.join(candidate, 'roblox-ts', 'package.json'));
+      return candidate;
+    } catch {
+      // keep walking up, as require.resolve does
+    }
+    if (path.dirname(dir) === dir) break;
+  }
+  return path.dirname(path.dirname(packageJsonPath));
+}
+
+/**
+ * Locate a roblox-ts install reachable from the project's node_modules
+ */
+export async function findRobloxTsCompiler(projectRoot: string): Promise<RobloxTsCompiler | undefined> {
+  let packageJsonPath: string;
+  try {
+    packageJsonPath = require.resolve('roblox-ts/package.json', { paths: [path.resolve(projectRoot)] });
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const pkg = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'));
+    const bin = typeof pkg.bin === 'string' ? pkg.bin : pkg.bin?.rbxtsc;
+    if (!bin) return undefined;
+    const cliPath = path.join(path.dirname(packageJsonPath), bin);
+    await fs.access(cliPath);
+    return { cliPath, version: pkg.version ?? 'unknown', nodeModules: await findNodeModules(projectRoot, packageJsonPath) };
+  } catch {
+    return undefined;
+  }
+}
+
+function runCli(cliPath: string, args: string[], cwd: string, timeoutMs: number): Promise<{ exitCode: number; output: string }> {
+  return new Promise((resolve) => {
+    const env = { ...process.env, FORCE_COLOR: '0', NO_COLOR: '1' };
+    execFile(process.execPath, [cliPath, ...args], { cwd, env, timeout: timeoutMs, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
+      const output = `${stdout}\n${stderr}`;
+      if (error && (error as NodeJS.ErrnoException & { killed?: boolean }).killed) {
+        resolve({ exitCode: 1, output: `${output}\nroblox-ts compilation timed out after ${timeoutMs}ms` });
+        return;
+      }
+      resolve({ exitCode: error ? (typeof error.code === 'number' ? error.code : 1) : 0, output });
+    });
+  });
+}
+
+async function readLuau(outFileWithoutExtension: string): Promise<string | undefined> {
+  for (const extension of ['.luau', '.lua']) {
+    try {
+      return await fs.readFile(outFileWithoutExtension + extension, 'utf-8');
+    } catch {
+      // try the next extension; older roblox-ts versions emit .lua
+    }
+  }
+  return undefined;
+}
+
+/**
+ * rootDir/outDir from a project's tsconfig.json (roblox-ts defaults: src/out)
+ */
+function readProjectLayout(projectRoot: string): { rootDir: string; outDir: string } {
+  const configPath = path.join(projectRoot, 'tsconfig.json');
+  const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+  const options = config?.compilerOptions ?? {};
+  return { rootDir: options.rootDir ?? 'src', outDir: options.outDir ?? 'out' };
+}
+
+/**
+ * Compile a snippet or project file with the project's own roblox-ts in a
+ * temporary copy of the project, so nothing in the real project is written.
+ */
+export async function compileRobloxTs(compiler: RobloxTsCompiler, options: CompileOptions): Promise<CompileResult> {
+  const projectRoot = path.resolve(options.projectRoot);
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rbxts-mcp-build-'));
+
+  try {
+    // The install roblox-ts was found in, which is a parent's in monorepos and hoisted installs
+    await fs.symlink(compiler.nodeModules, path.join(tempDir, 'node_modules'), 'junction');
+
+    let sourceRelative: string;
+    let layout = { rootDir: 'src', outDir: 'out' };
+
+    if (options.filePath) {
+      const absolute = path.resolve(projectRoot, options.filePath);
+      layout = readProjectLayout(projectRoot);
+      sourceRelative = path.relative(path.join(projectRoot, layout.rootDir), absolute);
+      if (sourceRelative.startsWith('..') || path.isAbsolute(sourceRelative)) {
+        throw new Error(`${options.filePath} is outside the project's rootDir (${layout.rootDir})`);
+      }
+
+      for (const entry of await fs.readdir(projectRoot)) {
+        if (entry === 'tsconfig.json' || entry === 'package.json' || entry.endsWith('.project.json')) {
+          await fs.copyFile(path.join(projectRoot, entry), path.join(tempDir, entry));
+        }
+      }
+      await fs.cp(path.join(projectRoot, layout.rootDir), path.join(tempDir, layout.rootDir), { recursive: true });
+    } else {
+      sourceRelative = SNIPPET_FILES[options.target ?? 'shared'];
+      const sourcePath = path.join(tempDir, 'src', sourceRelative);
+      await fs.mkdir(path.dirname(sourcePath), { recursive: true });
+      await fs.writeFile(sourcePath, options.code ?? '', 'utf-8');
+      await fs.writeFile(path.join(tempDir, 'tsconfig.json'), JSON.stringify(SNIPPET_TSCONFIG, null, 2));
+      await fs.writeFile(path.join(tempDir, 'default.project.json'), JSON.stringify(SNIPPET_ROJO_PROJECT, null, 2));
+      await fs.writeFile(path.join(tempDir, 'package.json'), JSON.stringify({ name: 'simulate-build', private: true }));
+    }
+
+    const { exitCode, output } = await runCli(compiler.cliPath, ['--project', tempDir], tempDir, options.timeoutMs ?? 120000);
+    const diagnostics = output
+      .split(/\r?\n/)
+      .map((line) => line.replace(/\x1b\[[0-9;]*m/g, '').trimEnd())
+      .filter((line) => line.trim().length > 0)
+      .map((line) => line.split(tempDir + path.sep).join(''));
+
+    // roblox-ts emits `index.ts` as `init.luau`
+    const outRelative = sourceRelative.replace(/(^|[\\/])index((\.(server|client))?\.tsx?)$/, '$1init$2').replace(/\.tsx?$/, '');
+    const outFile = path.join(tempDir, layout.outDir, outRelative);
+    const luau = exitCode === 0 ? await readLuau(outFile) : undefined;
+    if (exitCode === 0 && luau === undefined) {
+      diagnostics.push(`Compiled output for ${sourceRelative} was not found in ${layout.outDir}`);
+    }
+
+    return {
+      success: exitCode === 0 && luau !== undefined,
+      luau,
+      diagnostics,
+      compilerVersion: compiler.version,
+    };
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
@@ -1,62 +1,160 @@
 import { z } from 'zod';
+import * as ts from 'typescript';
+import { DiagnosticSeverity, RuleFix, RuleReporter, createAnalysisContext, lintRules } from './lint-rules.js';
+import { applyFixes } from './lint-fixes.js';
+import { LintConfig, RuleSetting } from './lint-config.js';
+
+export type { DiagnosticSeverity } from './lint-rules.js';
 
 // Validation schemas
 export const ValidateSyntaxSchema = z.object({
   code: z.string().describe('Roblox-ts code to validate'),
+  projectRoot: z.string().optional().describe('Project root containing an optional .rbxts-mcp.json rule configuration'),
+  fix: z.boolean().optional().default(false).describe('Return text edits and the rewritten source for fixable findings'),
 });
 
+/** 1-based line/column position in the validated source */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface ValidationDiagnostic {
+  rule: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  suggestion?: string;
+  docs?: string;
+  range: SourceRange;
+  /** Set in fix mode when an automatic fix for this finding was applied */
+  fixed?: boolean;
+}
+
+export interface TextEdit {
+  range: SourceRange;
+  replacement: string;
+}
+
+export interface SyntaxValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  suggestions: string[];
+  diagnostics: ValidationDiagnostic[];
+  /** Present in fix mode: the edits applied and the rewritten source */
+  fix?: {
+    edits: TextEdit[];
+    output: string;
+  };
+}
+
+function toRange(sourceFile: ts.SourceFile, start: number, end: number): SourceRange {
+  const s = sourceFile.getLineAndCharacterOfPosition(start);
+  const e = sourceFile.getLineAndCharacterOfPosition(end);
+  return {
+    start: { line: s.line + 1, column: s.character + 1 },
+    end: { line: e.line + 1, column: e.character + 1 },
+  };
+}
+
+export interface ValidateSyntaxOptions {
+  /** Per-rule overrides, usually loaded from `.rbxts-mcp.json` */
+  config?: LintConfig;
+  /** Compute text edits for fixable findings and return the rewritten source */
+  fix?: boolean;
+}
+
 /**
- * Validate Roblox-ts code for proper syntax and library usage
+ * Validate Roblox-ts code for proper syntax and library usage.
+ *
+ * The code is parsed with the TypeScript compiler, so identifiers inside
+ * strings and comments are ignored and every finding carries a source range.
  */
-export function validateSyntax(code: string): { valid: boolean; errors: string[]; warnings: string[]; suggestions: string[] } {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  const suggestions: string[] = [];
-
-  // Check for proper service imports
-  if (code.includes('game.GetService') && !code.includes('@rbxts/services')) {
-    errors.push('Use @rbxts/services for service imports instead of game.GetService()');
-    suggestions.push('Replace game.GetService("Players") with import { Players } from "@rbxts/services"');
-  }
+export function validateSyntax(code: string, options: ValidateSyntaxOptions = {}): SyntaxValidationResult {
+  const fileName = 'snippet.tsx';
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+  const diagnostics: ValidationDiagnostic[] = [];
 
-  // Check for networking without @rbxts/net
-  if ((code.includes('RemoteEvent') || code.includes('RemoteFunction')) && !code.includes('@rbxts/net')) {
-    warnings.push('Consider using @rbxts/net for type-safe networking instead of raw RemoteEvents');
-    suggestions.push('Install @rbxts/net and define remote events with type safety');
+  // Syntax errors reported by the compiler itself
+  const { diagnostics: syntactic = [] } = ts.transpileModule(code, { fileName, reportDiagnostics: true });
+  for (const diagnostic of syntactic) {
+    if (diagnostic.start === undefined) continue;
+    diagnostics.push({
+      rule: 'syntax',
+      severity: 'error',
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      range: toRange(sourceFile, diagnostic.start, diagnostic.start + (diagnostic.length ?? 0)),
+    });
   }
 
-  // Check for data storage without ProfileStore
-  if (code.includes('DataStoreService') && !code.includes('@rbxts/profile-store')) {
-    warnings.push('Consider using @rbxts/profile-store for robust data management');
-    suggestions.push('ProfileStore provides session locking and data reconciliation');
-  }
+  const ctx = createAnalysisContext(sourceFile);
+  const fixable = new Map<ValidationDiagnostic, () => RuleFix | undefined>();
+  const settings: Record<string, RuleSetting> = options.config?.rules ?? {};
+  const enabled = lintRules.flatMap((rule) => {
+    const severity = settings[rule.id] ?? rule.defaultSeverity;
+    if (severity === 'off') return [];
+    const report: RuleReporter = (node, message, suggestion, fix) => {
+      const diagnostic: ValidationDiagnostic = {
+        rule: rule.id,
+        severity,
+        message: message ?? rule.message,
+        suggestion: suggestion ?? rule.suggestion,
+        docs: rule.docs,
+        range: toRange(sourceFile, node.getStart(sourceFile), node.getEnd()),
+      };
+      diagnostics.push(diagnostic);
+      if (fix) fixable.set(diagnostic, fix);
+    };
+    return [{ rule, report }];
+  });
 
-  // Check for zone detection with Touched events
-  if (code.includes('.Touched') && !code.includes('@rbxts/zone-plus')) {
-    warnings.push('Consider using @rbxts/zone-plus for reliable zone detection instead of Touched events');
-    suggestions.push('Zone-Plus handles overlapping parts and provides better performance');
-  }
+  const visit = (node: ts.Node): void => {
+    for (const { rule, report } of enabled) rule.check(ctx, node, report);
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
 
-  // Check for manual GUI manipulation without Fusion
-  if (code.includes('new Instance') && code.includes('ScreenGui') && !code.includes('@rbxts/fusion')) {
-    suggestions.push('Consider using @rbxts/fusion for reactive UI development');
-  }
+  diagnostics.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.column - b.range.start.column);
 
-  // Check for type annotations
-  if (code.includes('function') && !code.includes(':') && code.includes('=')) {
-    warnings.push('Consider adding explicit type annotations for better type safety');
-    suggestions.push('Example: function processPlayer(player: Player): void { ... }');
+  let fix: SyntaxValidationResult['fix'];
+  if (options.fix) {
+    // Rewriting code the parser could not make sense of is not safe
+    const hasSyntaxErrors = diagnostics.some((d) => d.rule === 'syntax');
+    const candidates: { diagnostic: ValidationDiagnostic; fix: RuleFix }[] = [];
+    for (const diagnostic of hasSyntaxErrors ? [] : diagnostics) {
+      const computed = fixable.get(diagnostic)?.();
+      if (computed) candidates.push({ diagnostic, fix: computed });
+    }
+    const { edits, output, applied } = applyFixes(sourceFile, candidates.map((c) => c.fix));
+    for (const candidate of candidates) {
+      if (applied.includes(candidate.fix)) candidate.diagnostic.fixed = true;
+    }
+    fix = {
+      edits: edits.map((edit) => ({ range: toRange(sourceFile, edit.start, edit.end), replacement: edit.replacement })),
+      output,
+    };
   }
 
-  // Check for proper error handling
-  if (code.includes('pcall') || code.includes('xpcall')) {
-    suggestions.push('Use try-catch blocks for error handling in TypeScript instead of pcall');
-  }
+  const format = (d: ValidationDiagnostic) => `${d.range.start.line}:${d.range.start.column} ${d.message}`;
+  const errors = diagnostics.filter((d) => d.severity === 'error').map(format);
+  const warnings = diagnostics.filter((d) => d.severity === 'warning').map(format);
+  const suggestions = [
+    ...new Set(
+      diagnostics.flatMap((d) => (d.severity === 'suggestion' ? [d.message] : d.suggestion ? [d.suggestion] : []))
+    ),
+  ];
 
   return {
     valid: errors.length === 0,
     errors,
     warnings,
-    suggestions
+    suggestions,
+    diagnostics,
+    fix,
   };
 }
@@ -6,890 +6,124 @@ import {
   ErrorCode,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
-import { 
-  analyzePackage, 
-  suggestPackageIntegration, 
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  validateSyntax,
+  ValidateSyntaxSchema,
+  loadLintConfig,
+  LintConfig,
+  generatePattern,
+  GeneratePatternSchema,
+  simulateBuild,
+  SimulateBuildSchema,
+  findRobloxTsCompiler,
+  compileRobloxTs,
+  CompileResult,
+  searchRobloxDocs,
+  summarizeRobloxDocPage,
+  SearchRobloxDocsSchema,
+  SummarizeRobloxDocSchema,
+  analyzePackage,
+  suggestPackageIntegration,
   PackageAnalyzeSchema,
   PackageIntegrationSchema,
-  PackageTroubleshootSchema 
-} from './package-assistance.js';
-
-// Import Roblox Open Cloud tool bridge
-import { RobloxCloudToolDefinitions, handleRobloxCloudTool } from './tools/roblox-cloud.js';
-
-/**
- * Tools for Roblox-ts development assistance
- */
-
-// Validation schemas
-const ValidateSyntaxSchema = z.object({
-  code: z.string().describe('Roblox-ts code to validate'),
-});
+  PackageTroubleshootSchema,
+  manageGDD,
+  GDDManagerSchema,
+  GDDErrorType,
+} from './tool/index.js';
 
-const GeneratePatternSchema = z.object({
-  feature: z.string().describe('Feature to generate pattern for'),
-  libraries: z.array(z.string()).optional().describe('Specific @rbxts libraries to use'),
-});
-
-const SimulateBuildSchema = z.object({
-  code: z.string().describe('TypeScript code to simulate compilation'),
-  target: z.enum(['server', 'client', 'shared']).optional().describe('Target environment'),
+import {
+  loadProjectRootFromEnv,
+  loadProjectContext,
+  inferBuildTarget,
+  resolveDataModelLocation,
+  targetForInstancePath,
+  ProjectContext,
+  InstalledPackage,
+} from './project/context.js';
+import { analyzeBoundaries } from './project/boundary.js';
+import { RobloxCloudToolDefinitions, handleRobloxCloudTool, resolveProjectFile } from './tools/roblox-cloud.js';
+
+const ProjectInfoSchema = z.object({
+  projectRoot: z.string().optional().describe('roblox-ts project root (defaults to the server\'s --project)'),
 });
 
-const SearchRobloxDocsSchema = z.object({
-  query: z.string().describe('Search query for Roblox documentation'),
-  limit: z.number().optional().default(5).describe('Maximum number of results to return'),
+const AnalyzeBoundariesSchema = z.object({
+  projectRoot: z.string().optional().describe('roblox-ts project root (defaults to the server\'s --project)'),
 });
 
-const SummarizeRobloxDocSchema = z.object({
-  url: z.string().describe('URL of the Roblox documentation page to summarize'),
+const ResolveDataModelPathSchema = z.object({
+  filePath: z.string().describe('Project file, e.g. src/server/foo.ts or include/Promise.lua'),
+  projectRoot: z.string().optional().describe('roblox-ts project root (defaults to the server\'s --project)'),
 });
 
 /**
- * Validate Roblox-ts code for proper syntax and library usage
+ * Derive an MCP tool input schema from a zod schema so the two never drift apart
  */
-function validateSyntax(code: string): { valid: boolean; errors: string[]; warnings: string[]; suggestions: string[] } {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  const suggestions: string[] = [];
-
-  // Check for proper service imports
-  if (code.includes('game.GetService') && !code.includes('@rbxts/services')) {
-    errors.push('Use @rbxts/services for service imports instead of game.GetService()');
-    suggestions.push('Replace game.GetService("Players") with import { Players } from "@rbxts/services"');
-  }
-
-  // Check for networking without @rbxts/net
-  if ((code.includes('RemoteEvent') || code.includes('RemoteFunction')) && !code.includes('@rbxts/net')) {
-    warnings.push('Consider using @rbxts/net for type-safe networking instead of raw RemoteEvents');
-    suggestions.push('Install @rbxts/net and define remote events with type safety');
-  }
-
-  // Check for data storage without ProfileStore
-  if (code.includes('DataStoreService') && !code.includes('@rbxts/profile-store')) {
-    warnings.push('Consider using @rbxts/profile-store for robust data management');
-    suggestions.push('ProfileStore provides session locking and data reconciliation');
-  }
-
-  // Check for zone detection with Touched events
-  if (code.includes('.Touched') && !code.includes('@rbxts/zone-plus')) {
-    warnings.push('Consider using @rbxts/zone-plus for reliable zone detection instead of Touched events');
-    suggestions.push('Zone-Plus handles overlapping parts and provides better performance');
-  }
-
-  // Check for manual GUI manipulation without Fusion
-  if (code.includes('new Instance') && code.includes('ScreenGui') && !code.includes('@rbxts/fusion')) {
-    suggestions.push('Consider using @rbxts/fusion for reactive UI development');
-  }
-
-  // Check for type annotations
-  if (code.includes('function') && !code.includes(':') && code.includes('=')) {
-    warnings.push('Consider adding explicit type annotations for better type safety');
-    suggestions.push('Example: function processPlayer(player: Player): void { ... }');
-  }
-
-  // Check for proper error handling
-  if (code.includes('pcall') || code.includes('xpcall')) {
-    suggestions.push('Use try-catch blocks for error handling in TypeScript instead of pcall');
-  }
-
-  return {
-    valid: errors.length === 0,
-    errors,
-    warnings,
-    suggestions
-  };
+function toInputSchema(schema: z.ZodTypeAny): { type: 'object'; [key: string]: unknown } {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  return { ...jsonSchema, type: 'object' };
 }
 
 /**
- * Generate boilerplate code for common Roblox-ts patterns
+ * Map GDD manager failure categories onto MCP error codes
  */
-function generatePattern(feature: string, libraries: string[] = []): { code: string; explanation: string; dependencies: string[] } {
-  const dependencies: string[] = [];
-  let code = '';
-  let explanation = '';
-
-  switch (feature.toLowerCase()) {
-    case 'attributes-catalog':
-    case 'attributes':
-    case 'attribute-catalog': {
-      explanation = 'Attributes Catalog: KEYS + derived key type, meta with attribute name, type, default, and optional numeric bounds; map satisfies Record<CatalogKey, CatalogMeta>.';
-      code = `/**
- * REQUIRED Pattern: Attributes Catalog
- * - Do NOT rename identifiers or alter derivations.
- * - Designed for Roblox Instance Attributes (SetAttribute/GetAttribute).
- */
-
-/* REQUIRED: KEYS — Do NOT rename this constant or remove 'as const'. */
-export const CATALOG_KEYS = [
-  "HEALTH",
-  "STAMINA",
-  "MANA",
-  "IS_NPC",
-] as const;
-
-/* REQUIRED: Key type — must be derived from CATALOG_KEYS; do NOT change derivation style. */
-export type CatalogKey = typeof CATALOG_KEYS[number];
-
-/* Attribute data types supported by this catalog */
-export type AttributeType = 'number' | 'string' | 'boolean' | 'Vector3' | 'Color3';
-
-/* REQUIRED: Meta interface — core fields for attributes. */
-export interface CatalogMeta {
-  key: CatalogKey;
-  /** The actual attribute name stored on the Instance */
-  attribute: string;
-  description: string;
-  type: AttributeType;
-  /** Default value to apply when missing */
-  default: number | string | boolean | Vector3 | Color3;
-  /** Optional numeric bounds (only applicable when type === 'number') */
-  min?: number;
-  max?: number;
-  /** Whether this attribute is expected to replicate (Attributes replicate by default) */
-  replicate?: boolean;
-}
-
-/* REQUIRED: Catalog map — must cover ALL keys and MUST use 'satisfies Record<CatalogKey, CatalogMeta>'. */
-export const CATALOG_META = {
-  HEALTH: {
-    key: "HEALTH",
-    attribute: "Health",
-    description: "Current health points for a character or entity.",
-    type: 'number',
-    default: 100,
-    min: 0,
-    max: 100,
-    replicate: true,
-  },
-  STAMINA: {
-    key: "STAMINA",
-    attribute: "Stamina",
-    description: "Energy used for sprinting and actions.",
-    type: 'number',
-    default: 50,
-    min: 0,
-    max: 100,
-    replicate: true,
-  },
-  MANA: {
-    key: "MANA",
-    attribute: "Mana",
-    description: "Resource for casting abilities.",
-    type: 'number',
-    default: 0,
-    min: 0,
-    max: 100,
-    replicate: true,
-  },
-  IS_NPC: {
-    key: "IS_NPC",
-    attribute: "IsNPC",
-    description: "Marks a character as an NPC.",
-    type: 'boolean',
-    default: false,
-    replicate: true,
-  },
-} satisfies Record<CatalogKey, CatalogMeta>;`;
-      break;
-    }
-    case 'damage-types-catalog':
-    case 'damage-types':
-    case 'arpg-damage-types':
-      explanation = 'Action RPG Damage Types catalog: KEYS, derived key type, meta interface (no min/max), and a catalog map that satisfies Record<CatalogKey, CatalogMeta>.';
-      code = `/**
- * REQUIRED Pattern: Damage Types Catalog (Action RPG)
- * - Do NOT rename identifiers or alter derivations.
- * - No min/max fields for damage types.
- */
-
-/* REQUIRED: KEYS — Do NOT rename this constant or remove 'as const'. */
-export const CATALOG_KEYS = [
-  "PHYSICAL",
-  "SLASH",
-  "PIERCE",
-  "BLUNT",
-  "FIRE",
-  "ICE",
-  "LIGHTNING",
-  "POISON",
-  "HOLY",
-  "SHADOW",
-  "ARCANE",
-  "TRUE",
-] as const;
-
-/* REQUIRED: Key type — must be derived from CATALOG_KEYS; do NOT change derivation style. */
-export type CatalogKey = typeof CATALOG_KEYS[number];
-
-/* REQUIRED: Meta interface — core fields for damage types (no min/max). */
-export interface CatalogMeta {
-  key: CatalogKey;
-  description: string;
-  icon: string; // URL or asset ID with descriptive_underscored_name
-}
-
-/* REQUIRED: Catalog map — must cover ALL keys and MUST use 'satisfies Record<CatalogKey, CatalogMeta>'. */
-export const CATALOG_META = {
-  PHYSICAL: {
-    key: "PHYSICAL",
-    description: "Base non-elemental damage; typically mitigated by armor.",
-    icon: "https://assets.yourgame.com/icons/damage_physical.png",
-  },
-  SLASH: {
-    key: "SLASH",
-    description: "Cutting damage from blades; excels versus unarmored foes.",
-    icon: "https://assets.yourgame.com/icons/damage_slash.png",
-  },
-  PIERCE: {
-    key: "PIERCE",
-    description: "Penetrating damage from arrows/spears; strong vs. light armor.",
-    icon: "https://assets.yourgame.com/icons/damage_pierce.png",
-  },
-  BLUNT: {
-    key: "BLUNT",
-    description: "Impact damage from hammers/maces; effective vs. heavy armor.",
-    icon: "https://assets.yourgame.com/icons/damage_blunt.png",
-  },
-  FIRE: {
-    key: "FIRE",
-    description: "Burning damage; may apply ignite over time.",
-    icon: "https://assets.yourgame.com/icons/damage_fire.png",
-  },
-  ICE: {
-    key: "ICE",
-    description: "Chilling damage; may slow or freeze targets.",
-    icon: "https://assets.yourgame.com/icons/damage_ice.png",
-  },
-  LIGHTNING: {
-    key: "LIGHTNING",
-    description: "Shock damage; may stun or chain to nearby enemies.",
-    icon: "https://assets.yourgame.com/icons/damage_lightning.png",
-  },
-  POISON: {
-    key: "POISON",
-    description: "Toxic damage; commonly applies damage over time (DoT).",
-    icon: "https://assets.yourgame.com/icons/damage_poison.png",
-  },
-  HOLY: {
-    key: "HOLY",
-    description: "Radiant damage; especially effective against undead.",
-    icon: "https://assets.yourgame.com/icons/damage_holy.png",
-  },
-  SHADOW: {
-    key: "SHADOW",
-    description: "Dark damage; corrupting force effective against light-aligned.",
-    icon: "https://assets.yourgame.com/icons/damage_shadow.png",
-  },
-  ARCANE: {
-    key: "ARCANE",
-    description: "Pure magical damage; often bypasses mundane resistances.",
-    icon: "https://assets.yourgame.com/icons/damage_arcane.png",
-  },
-  TRUE: {
-    key: "TRUE",
-    description: "Unmitigated damage that ignores defenses and resistances.",
-    icon: "https://assets.yourgame.com/icons/damage_true.png",
-  },
-} satisfies Record<CatalogKey, CatalogMeta>;`;
-      break;
-    case 'key-meta-catalog':
-    case 'catalog-meta':
-    case 'key-meta':
-      explanation = 'Key/Meta Catalog pattern: defines KEYS, derived key type, meta interface, and a catalog map that satisfies Record<CatalogKey, CatalogMeta>.';
-      code = `/**
- * REQUIRED Pattern: Key/Meta Catalog
- * - Do NOT rename the identifiers below or alter their derivations.
- * - Generators and validators expect this exact shape.
- */
-
-/* REQUIRED: KEYS — Do NOT rename this constant or remove 'as const'. */
-export const CATALOG_KEYS = [
-  "EXAMPLE_KEY_1",
-  "EXAMPLE_KEY_2",
-  "EXAMPLE_KEY_3",
-] as const;
-
-/* REQUIRED: Key type — must be derived from CATALOG_KEYS; do NOT change derivation style. */
-export type CatalogKey = typeof CATALOG_KEYS[number];
-
-/* REQUIRED: Meta interface — core fields are mandatory; add fields only in an additive, backward-compatible way. */
-export interface CatalogMeta {
-  key: CatalogKey;
-  description: string;
-  icon: string; // URL or asset ID
-  maxValue: number;
-  minValue: number;
-}
-
-/* REQUIRED: Catalog map — must cover ALL keys and MUST use 'satisfies Record<CatalogKey, CatalogMeta>'. */
-export const CATALOG_META = {
-  EXAMPLE_KEY_1: {
-    key: "EXAMPLE_KEY_1",
-    description: "An example key for demonstration purposes.",
-    icon: "rbxassetid://123456789",
-    maxValue: 100,
-    minValue: 0,
-  },
-  EXAMPLE_KEY_2: {
-    key: "EXAMPLE_KEY_2",
-    description: "Another example key for demonstration purposes.",
-    icon: "rbxassetid://987654321",
-    maxValue: 200,
-    minValue: 50,
-  },
-  EXAMPLE_KEY_3: {
-    key: "EXAMPLE_KEY_3",
-    description: "Yet another example key for demonstration purposes.",
-    icon: "rbxassetid://456789123",
-    maxValue: 300,
-    minValue: 100,
-  },
-} satisfies Record<CatalogKey, CatalogMeta>;`;
-      break;
-    case 'player-data':
-    case 'data-management':
-      dependencies.push('@rbxts/profile-store');
-      explanation = 'Complete player data management system using ProfileStore for persistence';
-      code = `// Player Data Management with ProfileStore
-import { ProfileStore } from "@rbxts/profile-store";
-import { Players } from "@rbxts/services";
-
-// Define the player data structure
-interface PlayerProfile {
-  coins: number;
-  level: number;
-  experience: number;
-  inventory: string[];
-  settings: {
-    musicEnabled: boolean;
-    sfxEnabled: boolean;
-  };
-}
-
-// Default profile template
-const ProfileTemplate: PlayerProfile = {
-  coins: 100,
-  level: 1,
-  experience: 0,
-  inventory: [],
-  settings: {
-    musicEnabled: true,
-    sfxEnabled: true,
-  },
-};
-
-// Create ProfileStore
-const PlayerProfiles = ProfileStore.create("PlayerData", ProfileTemplate);
-
-export class PlayerDataService {
-  private profiles = new Map<Player, typeof PlayerProfiles.mock>();
-
-  public async loadPlayer(player: Player): Promise<boolean> {
-    const profile = PlayerProfiles.loadProfileAsync(\`Player_\${player.UserId}\`);
-    
-    if (profile) {
-      profile.reconcile();
-      profile.listenToRelease(() => {
-        this.profiles.delete(player);
-        player.kick("Profile session ended");
-      });
-      
-      this.profiles.set(player, profile);
-      return true;
-    }
-    
-    return false;
-  }
-
-  public getProfile(player: Player) {
-    return this.profiles.get(player);
-  }
-
-  public addCoins(player: Player, amount: number): void {
-    const profile = this.getProfile(player);
-    if (profile) {
-      profile.data.coins += amount;
-    }
-  }
-
-  public playerLeaving(player: Player): void {
-    const profile = this.profiles.get(player);
-    if (profile) {
-      profile.release();
-    }
-  }
-}`;
-      break;
-
-    case 'networking':
-    case 'remotes':
-      dependencies.push('@rbxts/net');
-      explanation = 'Type-safe networking setup using @rbxts/net';
-      code = `// Type-safe Networking with @rbxts/net
-import { NetDefinitions } from "@rbxts/net";
-
-// Define all remote events and functions in a shared module
-const remotes = NetDefinitions.create({
-  // Server to Client events
-  PlayerJoined: NetDefinitions.serverToClientEvent<[player: Player]>(),
-  CoinUpdate: NetDefinitions.serverToClientEvent<[newAmount: number]>(),
-  
-  // Client to Server events
-  BuyItem: NetDefinitions.clientToServerEvent<[itemId: string, cost: number]>(),
-  RequestData: NetDefinitions.clientToServerEvent<[]>(),
-  
-  // Remote functions
-  GetPlayerStats: NetDefinitions.clientToServerFunction<[], { level: number; coins: number }>(),
-});
-
-// Export for use in client and server
-export default remotes;
-
-// Server usage example:
-// remotes.server.PlayerJoined.sendToAllClients(player);
-// remotes.server.BuyItem.connect((player, itemId, cost) => {
-//   // Handle purchase logic
-// });
-
-// Client usage example:
-// remotes.client.CoinUpdate.connect((newAmount) => {
-//   updateCoinDisplay(newAmount);
-// });
-// remotes.client.BuyItem.sendToServer("sword", 100);`;
-      break;
-
-    case 'zone':
-    case 'area-detection':
-      dependencies.push('@rbxts/zone-plus');
-      explanation = 'Zone detection system using Zone-Plus for reliable spatial detection';
-      code = `// Zone Detection with Zone-Plus
-import { Zone } from "@rbxts/zone-plus";
-import { Players } from "@rbxts/services";
-
-export class ZoneManager {
-  private zones = new Map<string, Zone>();
-
-  public createZone(name: string, container: Model | Folder): Zone {
-    const zone = new Zone(container);
-    this.zones.set(name, zone);
-
-    // Set up zone events
-    zone.playerEntered.Connect((player) => {
-      this.onPlayerEnterZone(name, player);
-    });
-
-    zone.playerExited.Connect((player) => {
-      this.onPlayerExitZone(name, player);
-    });
-
-    return zone;
-  }
-
-  public getZone(name: string): Zone | undefined {
-    return this.zones.get(name);
-  }
-
-  public getPlayersInZone(name: string): Player[] {
-    const zone = this.zones.get(name);
-    return zone ? zone.getPlayers() : [];
-  }
-
-  public isPlayerInZone(name: string, player: Player): boolean {
-    const zone = this.zones.get(name);
-    return zone ? zone.findPlayer(player) !== undefined : false;
-  }
-
-  private onPlayerEnterZone(zoneName: string, player: Player): void {
-    print(\`\${player.Name} entered zone: \${zoneName}\`);
-    
-    // Add zone-specific logic here
-    switch (zoneName) {
-      case "safe-zone":
-        // Apply safe zone effects
-        break;
-      case "pvp-zone":
-        // Enable PvP for player
-        break;
-    }
-  }
-
-  private onPlayerExitZone(zoneName: string, player: Player): void {
-    print(\`\${player.Name} exited zone: \${zoneName}\`);
-    
-    // Remove zone-specific effects
-  }
-}`;
-      break;
-
-    case 'ui':
-    case 'interface':
-      dependencies.push('@rbxts/fusion');
-      explanation = 'Reactive UI system using Fusion for dynamic interfaces';
-      code = `// Reactive UI with Fusion
-import { New, Value, Computed } from "@rbxts/fusion";
-import { Players } from "@rbxts/services";
-
-const playerGui = Players.LocalPlayer.WaitForChild("PlayerGui") as PlayerGui;
-
-// Reactive state
-const playerCoins = Value(100);
-const playerLevel = Value(1);
-const isShopOpen = Value(false);
-
-// Computed values
-const levelProgress = Computed(() => {
-  const level = playerLevel.get();
-  return \`Level \${level} (\${level * 100} XP to next)\`;
-});
-
-// Create main UI
-const mainGui = New("ScreenGui")({
-  Name: "MainGui",
-  Parent: playerGui,
-  
-  Children: [
-    // Coin display
-    New("Frame")({
-      Name: "CoinFrame",
-      Size: new UDim2(0, 200, 0, 50),
-      Position: new UDim2(0, 10, 0, 10),
-      BackgroundColor3: Color3.fromRGB(0, 0, 0),
-      BackgroundTransparency: 0.3,
-      
-      Children: [
-        New("TextLabel")({
-          Size: new UDim2(1, 0, 1, 0),
-          BackgroundTransparency: 1,
-          Text: Computed(() => \`Coins: \${playerCoins.get()}\`),
-          TextColor3: Color3.fromRGB(255, 255, 255),
-          TextScaled: true,
-          Font: Enum.Font.GothamBold,
-        }),
-      ],
-    }),
-    
-    // Level display
-    New("Frame")({
-      Name: "LevelFrame",
-      Size: new UDim2(0, 200, 0, 50),
-      Position: new UDim2(0, 10, 0, 70),
-      BackgroundColor3: Color3.fromRGB(0, 100, 0),
-      BackgroundTransparency: 0.3,
-      
-      Children: [
-        New("TextLabel")({
-          Size: new UDim2(1, 0, 1, 0),
-          BackgroundTransparency: 1,
-          Text: levelProgress,
-          TextColor3: Color3.fromRGB(255, 255, 255),
-          TextScaled: true,
-          Font: Enum.Font.Gotham,
-        }),
-      ],
-    }),
-    
-    // Shop button
-    New("TextButton")({
-      Name: "ShopButton",
-      Size: new UDim2(0, 100, 0, 50),
-      Position: new UDim2(1, -110, 0, 10),
-      BackgroundColor3: Color3.fromRGB(100, 0, 100),
-      Text: "Shop",
-      TextColor3: Color3.fromRGB(255, 255, 255),
-      TextScaled: true,
-      Font: Enum.Font.GothamBold,
-      
-      [New.Event("Activated")] = () => {
-        isShopOpen.set(!isShopOpen.get());
-      },
-    }),
-  ],
-});
-
-// Export functions to update state
-export const UIController = {
-  updateCoins: (amount: number) => playerCoins.set(amount),
-  updateLevel: (level: number) => playerLevel.set(level),
-  toggleShop: () => isShopOpen.set(!isShopOpen.get()),
-};`;
-      break;
-
-    case 'service':
-    case 'game-service':
-      explanation = 'Server-side service template following best practices';
-      code = `// Game Service Template
-import { Players, RunService } from "@rbxts/services";
-
-export class GameService {
-  private isRunning = false;
-  private connections: RBXScriptConnection[] = [];
-
-  public start(): void {
-    if (this.isRunning) return;
-    
-    this.isRunning = true;
-    this.setupConnections();
-    this.onStart();
-  }
-
-  public stop(): void {
-    if (!this.isRunning) return;
-    
-    this.isRunning = false;
-    this.cleanupConnections();
-    this.onStop();
-  }
-
-  protected onStart(): void {
-    // Override in subclasses for start logic
-  }
-
-  protected onStop(): void {
-    // Override in subclasses for cleanup logic
-  }
-
-  private setupConnections(): void {
-    // Player connections
-    this.connections.push(
-      Players.PlayerAdded.Connect((player) => this.onPlayerAdded(player))
-    );
-    
-    this.connections.push(
-      Players.PlayerRemoving.Connect((player) => this.onPlayerRemoving(player))
-    );
-
-    // Game loop connection (if needed)
-    this.connections.push(
-      RunService.Heartbeat.Connect((deltaTime) => this.onUpdate(deltaTime))
-    );
-  }
-
-  private cleanupConnections(): void {
-    for (const connection of this.connections) {
-      connection.Disconnect();
-    }
-    this.connections.clear();
-  }
-
-  protected onPlayerAdded(player: Player): void {
-    print(\`Player \${player.Name} joined the game\`);
-    // Override in subclasses
-  }
-
-  protected onPlayerRemoving(player: Player): void {
-    print(\`Player \${player.Name} is leaving the game\`);
-    // Override in subclasses
-  }
-
-  protected onUpdate(deltaTime: number): void {
-    // Override in subclasses for game loop logic
-  }
-}`;
-      break;
-
+function gddErrorCode(type: GDDErrorType | undefined): ErrorCode {
+  switch (type) {
+    case 'not_found':
+    case 'invalid_params':
+      return ErrorCode.InvalidParams;
+    case 'invalid_document':
+    case 'conflict':
+      return ErrorCode.InvalidRequest;
     default:
-  explanation = 'Basic Roblox-ts class template';
-  code = `// Basic Roblox-ts Class Template
-export class ${feature.replace(/[^a-zA-Z0-9]/g, '')} {
-  constructor() {
-    // Initialize your class here
+      return ErrorCode.InternalError;
   }
-
-  public start(): void {
-    // Start logic here
-  }
-
-  public stop(): void {
-    // Cleanup logic here
-  }
-}`;
-  break;
-  }
-
-  return { code, explanation, dependencies };
 }
 
 /**
- * Simulate TypeScript to Lua compilation
+ * Project root for a tool call: the `projectRoot` argument, else the server's
+ * configured project (`--project` / MCP_PROJECT_ROOT)
  */
-function simulateBuild(code: string, target: 'server' | 'client' | 'shared' = 'shared'): { success: boolean; output?: string; errors?: string[] } {
-  const errors: string[] = [];
-  
-  // Check for common compilation issues
-  if (code.includes('document') || code.includes('window')) {
-    errors.push('Browser APIs like "document" and "window" are not available in Roblox Lua');
-  }
-  
-  if (code.includes('localStorage') || code.includes('sessionStorage')) {
-    errors.push('Web storage APIs are not available in Roblox - use DataStoreService or ProfileStore');
-  }
-  
-  if (code.includes('fetch') || code.includes('XMLHttpRequest')) {
-    errors.push('HTTP APIs are not available in Roblox client - use HttpService on server');
-  }
-  
-  if (target === 'client' && code.includes('HttpService')) {
-    errors.push('HttpService is only available on the server');
-  }
-  
-  if (target === 'client' && code.includes('DataStoreService')) {
-    errors.push('DataStoreService is only available on the server');
-  }
+function resolveProjectRoot(projectRoot: string | undefined): string | undefined {
+  return projectRoot ?? loadProjectRootFromEnv();
+}
 
-  if (errors.length > 0) {
-    return { success: false, errors };
+async function loadProjectForTool(projectRoot: string): Promise<ProjectContext> {
+  try {
+    return await loadProjectContext(projectRoot);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
   }
-
-  // Simulate successful compilation
-  const luaOutput = `-- Compiled Lua output (simulated)
--- Target: ${target}
--- Original TypeScript compiled successfully
-
-${code.split('\n').map(line => `-- ${line}`).join('\n')}
-
--- Note: This is a simulation. Actual roblox-ts compilation would produce optimized Lua code.`;
-
-  return { success: true, output: luaOutput };
 }
 
 /**
- * Search Roblox documentation for relevant content
+ * Project context for tools that cannot work without a project
  */
-async function searchRobloxDocs(query: string, limit: number = 5): Promise<{ results: any[]; cached?: boolean; error?: string }> {
-  // Simple in-memory cache
-  const cacheKey = `search_${query.toLowerCase().trim()}`;
-  const cached = (global as any).docCache?.get(cacheKey);
-  
-  if (cached && Date.now() - cached.timestamp < 300000) { // 5 min cache
-    return { ...cached.data, cached: true };
+async function requireProject(projectRoot: string | undefined, options: { rojo?: boolean } = {}): Promise<ProjectContext> {
+  const root = resolveProjectRoot(projectRoot);
+  if (!root) {
+    throw new McpError(ErrorCode.InvalidParams, 'No project configured: pass projectRoot or start the server with --project / MCP_PROJECT_ROOT');
   }
-
-  try {
-    const commonPages = [
-      { title: 'RemoteEvents and Callbacks', url: 'https://create.roblox.com/docs/scripting/events/remote', keywords: ['remote', 'event', 'callback', 'networking'] },
-      { title: 'DataStores', url: 'https://create.roblox.com/docs/cloud-services/datastores', keywords: ['datastore', 'data', 'save', 'persistence'] },
-      { title: 'TweenService', url: 'https://create.roblox.com/docs/reference/engine/classes/TweenService', keywords: ['tween', 'animation', 'smooth'] },
-      { title: 'UserInputService', url: 'https://create.roblox.com/docs/reference/engine/classes/UserInputService', keywords: ['input', 'keyboard', 'mouse', 'touch'] },
-      { title: 'Players Service', url: 'https://create.roblox.com/docs/reference/engine/classes/Players', keywords: ['player', 'character', 'spawn'] },
-      { title: 'Workspace', url: 'https://create.roblox.com/docs/reference/engine/classes/Workspace', keywords: ['workspace', 'parts', 'models'] },
-      { title: 'GUI Creation', url: 'https://create.roblox.com/docs/ui/gui-objects', keywords: ['gui', 'ui', 'interface', 'screen'] },
-      { title: 'Scripting Guide', url: 'https://create.roblox.com/docs/scripting/', keywords: ['script', 'coding', 'programming', 'lua'] },
-      { title: 'Events and Callbacks', url: 'https://create.roblox.com/docs/scripting/events/', keywords: ['event', 'callback', 'listener'] }
-    ];
-
-    const queryLower = query.toLowerCase();
-    const matchingPages = commonPages.filter(page => 
-      page.title.toLowerCase().includes(queryLower) ||
-      page.keywords.some(keyword => queryLower.includes(keyword) || keyword.includes(queryLower))
-    ).slice(0, limit);
-
-    const results = [];
-    
-    for (const page of matchingPages) {
-      try {
-        const response = await axios.get(page.url, {
-          headers: { 'User-Agent': 'RobloxTS-MCP-Server/1.0.0' },
-          timeout: 8000
-        });
-        
-        const $ = cheerio.load(response.data);
-        const description = $('meta[name="description"]').attr('content') || 
-                          $('p').first().text().trim().slice(0, 200);
-
-        results.push({
-          title: page.title,
-          url: page.url,
-          snippet: description + (description.length >= 200 ? '...' : ''),
-          relevance: page.keywords.filter(k => queryLower.includes(k)).length
-        });
-      } catch (error) {
-        console.warn(`Failed to fetch ${page.url}:`, error);
-      }
-    }
-
-    // Sort by relevance
-    results.sort((a, b) => b.relevance - a.relevance);
-
-    const result = { results: results.slice(0, limit) };
-    
-    // Cache result
-    if (!(global as any).docCache) (global as any).docCache = new Map();
-    (global as any).docCache.set(cacheKey, { data: result, timestamp: Date.now() });
-    
-    return result;
-  } catch (error) {
-    return { 
-      results: [], 
-      error: `Failed to search Roblox documentation: ${error instanceof Error ? error.message : 'Unknown error'}` 
-    };
+  const ctx = await loadProjectForTool(root);
+  if (options.rojo && !ctx.rojoProjectFile) {
+    throw new McpError(ErrorCode.InvalidParams, `No usable default.project.json in ${ctx.root}${ctx.problems.length > 0 ? `: ${ctx.problems.join('; ')}` : ''}`);
   }
+  return ctx;
 }
 
 /**
- * Summarize a specific Roblox documentation page
+ * The project's entry for a package, `null` when it is not a dependency, or
+ * `undefined` when there is no project to look in
  */
-async function summarizeRobloxDocPage(url: string): Promise<{ title?: string; summary: string; error?: string }> {
-  if (!url.startsWith('https://create.roblox.com/docs') && !url.startsWith('https://developer.roblox.com')) {
-    return { 
-      summary: '',
-      error: 'URL must be from official Roblox documentation (create.roblox.com/docs or developer.roblox.com)' 
-    };
-  }
-
-  try {
-    const response = await axios.get(url, {
-      headers: { 'User-Agent': 'RobloxTS-MCP-Server/1.0.0' },
-      timeout: 15000
-    });
-
-    const $ = cheerio.load(response.data);
-    
-    const title = $('h1, title').first().text().trim()
-      .replace(' | Roblox Creator Documentation', '')
-      .replace(' | Roblox Developer Hub', '');
-    
-    const sections: string[] = [];
-    
-    // Get description
-    const description = $('meta[name="description"]').attr('content') || 
-                      $('.description, .summary').first().text().trim() ||
-                      $('p').first().text().trim();
-    
-    if (description) sections.push(`Description: ${description}`);
-    
-    // Get code examples (limit to 2)
-    $('pre code, .highlight code').slice(0, 2).each((i, el) => {
-      const code = $(el).text().trim();
-      if (code && code.length < 400) {
-        sections.push(`Code Example ${i + 1}:\n${code}`);
-      }
-    });
-    
-    // Get key sections
-    $('h2, h3').slice(0, 3).each((i, el) => {
-      const heading = $(el).text().trim();
-      const nextP = $(el).next('p').text().trim();
-      if (heading && nextP) {
-        sections.push(`${heading}: ${nextP.slice(0, 150)}${nextP.length > 150 ? '...' : ''}`);
-      }
-    });
-
-    const summary = sections.join('\n\n').slice(0, 1200) + 
-                   (sections.join('\n\n').length > 1200 ? '\n\n[Content truncated...]' : '');
-    
-    return {
-      title,
-      summary: summary || 'Unable to extract meaningful content from this page.'
-    };
-  } catch (error) {
-    return {
-      summary: '',
-      error: `Failed to summarize page: ${error instanceof Error ? error.message : 'Unknown error'}`
-    };
-  }
+async function installedPackage(packageName: string, projectRoot: string | undefined): Promise<InstalledPackage | null | undefined> {
+  const root = resolveProjectRoot(projectRoot);
+  if (!root) return undefined;
+  const ctx = await loadProjectForTool(root);
+  return ctx.packages[packageName] ?? null;
 }
 
 /**
@@ -909,6 +143,14 @@ export function addTools(server: Server): void {
               code: {
                 type: 'string',
                 description: 'The Roblox-ts code to validate'
+              },
+              projectRoot: {
+                type: 'string',
+                description: 'Project root to load rule settings from .rbxts-mcp.json (optional, defaults to the server\'s --project)'
+              },
+              fix: {
+                type: 'boolean',
+                description: 'Return text edits and the rewritten source for fixable findings (default: false)'
               }
             },
             required: ['code']
@@ -935,21 +177,28 @@ export function addTools(server: Server): void {
         },
         {
           name: 'simulate-build',
-          description: 'Simulate TypeScript to Lua compilation and check for common issues',
+          description: 'Compile roblox-ts code to Luau with the project\'s rbxtsc, or check for common issues when the compiler is not installed',
           inputSchema: {
             type: 'object',
             properties: {
               code: {
                 type: 'string',
-                description: 'The TypeScript code to simulate compilation for'
+                description: 'The TypeScript code to compile (required unless filePath is given)'
+              },
+              filePath: {
+                type: 'string',
+                description: 'File inside projectRoot to compile instead of a snippet'
+              },
+              projectRoot: {
+                type: 'string',
+                description: 'roblox-ts project root (defaults to the server\'s --project); when it has roblox-ts installed the code is really compiled with rbxtsc'
               },
               target: {
                 type: 'string',
                 enum: ['server', 'client', 'shared'],
-                description: 'Target environment (server, client, or shared)'
+                description: 'Target environment (server, client, or shared); inferred from the Rojo mapping of filePath when omitted'
               }
-            },
-            required: ['code']
+            }
           }
         },
         {
@@ -999,6 +248,10 @@ export function addTools(server: Server): void {
               codeContext: {
                 type: 'string',
                 description: 'Optional existing code context for better assistance'
+              },
+              projectRoot: {
+                type: 'string',
+                description: 'roblox-ts project to report the installed version from (optional, defaults to the server\'s --project)'
               }
             },
             required: ['packageName']
@@ -1040,11 +293,35 @@ export function addTools(server: Server): void {
               codeSnippet: {
                 type: 'string',
                 description: 'Code that is causing issues'
+              },
+              projectRoot: {
+                type: 'string',
+                description: 'roblox-ts project to report the installed version from (optional, defaults to the server\'s --project)'
               }
             },
             required: ['packageName', 'codeSnippet']
           }
-  },
+        },
+        {
+          name: 'project-info',
+          description: 'Show what the server knows about a roblox-ts project: Rojo mappings, rootDir/outDir and installed @rbxts packages',
+          inputSchema: toInputSchema(ProjectInfoSchema)
+        },
+        {
+          name: 'resolve-datamodel-path',
+          description: 'Find the DataModel location (e.g. game.ServerScriptService.TS.foo) a project file is synced to by Rojo',
+          inputSchema: toInputSchema(ResolveDataModelPathSchema)
+        },
+        {
+          name: 'analyze-boundaries',
+          description: 'Walk a roblox-ts project\'s import graph and report client code that reaches server-only APIs (DataStoreService, ServerStorage, ProfileStore, HttpService) and server code that reaches UserInputService/PlayerGui, with the full import chain',
+          inputSchema: toInputSchema(AnalyzeBoundariesSchema)
+        },
+        {
+          name: 'manage-gdd',
+          description: 'Read, query, update, validate and export Game Design Documents (YAML frontmatter + Markdown)',
+          inputSchema: toInputSchema(GDDManagerSchema)
+        },
   // Roblox Open Cloud tools
   ...RobloxCloudToolDefinitions
       ]
@@ -1052,14 +329,23 @@ export function addTools(server: Server): void {
   });
 
   // Call tool handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
 
   try {
       switch (name) {
         case 'validate-syntax': {
           const parsed = ValidateSyntaxSchema.parse(args);
-          const result = validateSyntax(parsed.code);
+          let config: LintConfig | undefined;
+          const projectRoot = resolveProjectRoot(parsed.projectRoot);
+          if (projectRoot) {
+            try {
+              config = await loadLintConfig(projectRoot);
+            } catch (error) {
+              throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+            }
+          }
+          const result = validateSyntax(parsed.code, { config, fix: parsed.fix });
           return {
             content: [{
               type: 'text',
@@ -1165,13 +451,81 @@ ${result.summary}
 
         case 'simulate-build': {
           const parsed = SimulateBuildSchema.parse(args);
-          const result = simulateBuild(parsed.code, parsed.target);
-          
+          const projectRoot = resolveProjectRoot(parsed.projectRoot);
+          const inferred = !parsed.target && parsed.filePath && projectRoot
+            ? inferBuildTarget(await loadProjectForTool(projectRoot), parsed.filePath)
+            : undefined;
+          const target = parsed.target || inferred?.target || 'shared';
+          const targetLabel = inferred ? `${target} (inferred: ${inferred.reason})` : target;
+          const compiler = projectRoot ? await findRobloxTsCompiler(projectRoot) : undefined;
+
+          if (compiler && projectRoot) {
+            let result: CompileResult;
+            try {
+              result = await compileRobloxTs(compiler, {
+                projectRoot,
+                code: parsed.code,
+                filePath: parsed.filePath,
+                target,
+              });
+            } catch (error) {
+              throw new McpError(ErrorCode.InvalidParams, `roblox-ts build failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+
+            const diagnosticsText = result.diagnostics.length > 0
+              ? `**Compiler Output:**
+\`\`\`
+${result.diagnostics.join('\n')}
+\`\`\``
+              : '';
+
+            return {
+              content: [{
+                type: 'text',
+                text: result.success
+                  ? `## Compilation Successful
+
+**Compiler:** roblox-ts ${result.compilerVersion}
+**Target:** ${parsed.filePath ? `${parsed.filePath}, ${targetLabel}` : target}
+
+**Output:**
+\`\`\`lua
+${result.luau}
+\`\`\`
+
+${diagnosticsText}`.trimEnd()
+                  : `## Compilation Failed
+
+**Compiler:** roblox-ts ${result.compilerVersion}
+**Target:** ${parsed.filePath ? `${parsed.filePath}, ${targetLabel}` : target}
+
+${diagnosticsText || 'The compiler exited with an error but produced no output.'}`
+              }]
+            };
+          }
+
+          let code = parsed.code ?? '';
+          if (parsed.filePath) {
+            const filePath = resolveProjectFile(parsed.filePath, path.resolve(projectRoot ?? '.'));
+            try {
+              code = await fs.readFile(filePath, 'utf-8');
+            } catch (error) {
+              throw new McpError(ErrorCode.InvalidParams, `Cannot read ${parsed.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          }
+
+          const fallbackNote = projectRoot
+            ? `> ⚠️ roblox-ts (rbxtsc) was not found in ${projectRoot}/node_modules, so the code was NOT compiled. Only heuristic checks were run.`
+            : '> ⚠️ No projectRoot was given, so the code was NOT compiled with roblox-ts. Only heuristic checks were run.';
+          const result = simulateBuild(code, target);
+
           if (!result.success) {
             return {
               content: [{
                 type: 'text',
-                text: `## Compilation Failed
+                text: `## Heuristic Build Check Failed
+
+${fallbackNote}
 
 **Errors:**
 ${result.errors?.map(error => `- ${error}`).join('\n') || 'Unknown error'}`
@@ -1182,21 +536,21 @@ ${result.errors?.map(error => `- ${error}`).join('\n') || 'Unknown error'}`
           return {
             content: [{
               type: 'text',
-              text: `## Compilation Successful
+              text: `## Heuristic Build Check Passed
 
-**Target:** ${parsed.target || 'shared'}
+${fallbackNote}
 
-**Output:**
-\`\`\`lua
-${result.output}
-\`\`\``
+**Target:** ${targetLabel}
+
+${result.output}`
             }]
           };
         }
 
         case 'analyze-package': {
           const parsed = PackageAnalyzeSchema.parse(args);
-          const result = analyzePackage(parsed.packageName, parsed.codeContext);
+          const installed = await installedPackage(parsed.packageName, parsed.projectRoot);
+          const result = analyzePackage(parsed.packageName, parsed.codeContext, installed);
           
           return {
             content: [{
@@ -1221,7 +575,8 @@ ${result.output}
         case 'troubleshoot-package': {
           const parsed = PackageTroubleshootSchema.parse(args);
           // For now, provide basic troubleshooting based on package analysis
-          const packageAnalysis = analyzePackage(parsed.packageName, parsed.codeSnippet);
+          const installed = await installedPackage(parsed.packageName, parsed.projectRoot);
+          const packageAnalysis = analyzePackage(parsed.packageName, parsed.codeSnippet, installed);
           
           const troubleshootResult = `# Package Troubleshooting: ${parsed.packageName}
 
@@ -1260,9 +615,76 @@ ${packageAnalysis}
           };
         }
 
+        case 'project-info': {
+          const parsed = ProjectInfoSchema.parse(args);
+          const ctx = await requireProject(parsed.projectRoot);
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(ctx, null, 2)
+            }]
+          };
+        }
+
+        case 'resolve-datamodel-path': {
+          const parsed = ResolveDataModelPathSchema.parse(args);
+          const ctx = await requireProject(parsed.projectRoot, { rojo: true });
+
+          const location = resolveDataModelLocation(ctx, parsed.filePath);
+          const result = location
+            ? {
+                filePath: parsed.filePath,
+                dataModelPath: ['game', ...location.instancePath].join('.'),
+                instancePath: location.instancePath,
+                scriptClass: location.scriptClass,
+                target: inferBuildTarget(ctx, parsed.filePath)?.target ?? targetForInstancePath(location.instancePath),
+                syncedPath: location.syncedPath,
+              }
+            : {
+                filePath: parsed.filePath,
+                dataModelPath: null,
+                note: `No $path in ${ctx.rojoProjectFile} contains this file, so Rojo does not sync it`,
+              };
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        }
+
+        case 'analyze-boundaries': {
+          const parsed = AnalyzeBoundariesSchema.parse(args);
+          const ctx = await requireProject(parsed.projectRoot, { rojo: true });
+
+          const report = await analyzeBoundaries(ctx);
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(report, null, 2)
+            }]
+          };
+        }
+
+        case 'manage-gdd': {
+          const parsed = GDDManagerSchema.parse(args);
+          const result = await manageGDD(parsed);
+
+          if (!result.success) {
+            throw new McpError(gddErrorCode(result.errorType), `GDD ${parsed.action} failed: ${result.error}`);
+          }
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ data: result.data, warnings: result.warnings, metadata: result.metadata }, null, 2)
+            }]
+          };
+        }
+
         default: {
           // Try Roblox Cloud tools
-          const maybe = await handleRobloxCloudTool(name, args);
+          const maybe = await handleRobloxCloudTool(name, args, extra);
           if (maybe) return maybe;
           throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
         }
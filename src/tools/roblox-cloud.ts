@@ -1,20 +1,85 @@
+import * as path from 'path';
 import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import { loadConfigFromEnv } from '../roblox-cloud/config.js';
-import { createHttpClient } from '../roblox-cloud/http.js';
-import { listDatastores, getEntry, setEntry } from '../roblox-cloud/datastore.js';
+import { McpError, ErrorCode, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { OpenCloudConfig, loadProfileConfig, loadProfilesFromEnv, redact } from '../roblox-cloud/config.js';
+import { HttpClient, createHttpClient } from '../roblox-cloud/http.js';
+import { DryRunInterrupt, WriteBlockedError, confirmToken, verifyConfirmToken } from '../roblox-cloud/guard.js';
+import { loadAuditLogPathFromEnv, queryAuditLog } from '../roblox-cloud/audit.js';
+import { OpenCloudError } from '../roblox-cloud/errors.js';
+import {
+  listDatastores,
+  listEntries,
+  iterateDatastores,
+  iterateEntries,
+  getEntry,
+  setEntry,
+  deleteEntry,
+  incrementEntry,
+  listEntryVersions,
+  getEntryVersion,
+  restoreEntryVersion,
+  Page,
+  MAX_ENTRY_USER_IDS,
+  MAX_ENTRY_ATTRIBUTES_LENGTH,
+} from '../roblox-cloud/datastore.js';
+import {
+  listOrderedEntries,
+  getOrderedEntry,
+  createOrderedEntry,
+  updateOrderedEntry,
+  incrementOrderedEntry,
+  deleteOrderedEntry,
+} from '../roblox-cloud/ordered-datastore.js';
+import {
+  MEMORYSTORE_LIMITS,
+  listSortedMapItems,
+  getSortedMapItem,
+  createSortedMapItem,
+  updateSortedMapItem,
+  deleteSortedMapItem,
+  enqueueItem,
+  readQueueItems,
+  discardQueueItems,
+} from '../roblox-cloud/memorystore.js';
+import { MAX_BULK_CONCURRENCY, BulkProgress, exportDatastore, importDatastore } from '../roblox-cloud/bulk.js';
+import { publishPlace } from '../roblox-cloud/places.js';
+import { DatastoreSchema, SchemaCheck, checkDatastoreValue, isZodSchema, resolveDatastoreSchema } from '../roblox-cloud/schema.js';
+import { runLuauScript } from '../roblox-cloud/luau-execution.js';
+import { loadProjectRootFromEnv } from '../project/context.js';
+import { findRobloxTsCompiler, compileRobloxTs } from '../tool/roblox-ts-compiler.js';
 import { publish } from '../roblox-cloud/messaging.js';
 
+// Upper bound on auto-pagination so one call cannot pull a whole universe into memory
+const MAX_PAGES = 50;
+
 const DsListSchema = z.object({
   prefix: z.string().min(1).max(100).optional(),
   limit: z.number().int().min(1).max(100).optional().default(25),
+  cursor: z.string().min(1).optional(),
+  maxPages: z.number().int().min(1).max(MAX_PAGES).optional(),
+});
+
+const DsListEntriesSchema = z.object({
+  datastoreName: z.string().min(1),
+  scope: z.string().min(1).optional(),
+  allScopes: z.boolean().optional(),
+  prefix: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(100).optional().default(25),
+  cursor: z.string().min(1).optional(),
+  maxPages: z.number().int().min(1).max(MAX_PAGES).optional(),
+}).refine((v) => !(v.allScopes && v.scope), {
+  message: 'scope cannot be combined with allScopes',
+  path: ['scope'],
 });
 
 const DsGetSchema = z.object({
   datastoreName: z.string().min(1),
   key: z.string().min(1),
   scope: z.string().min(1).optional(),
+  projectRoot: z.string().min(1).optional(),
 });
 
 const DsSetSchema = z.object({
@@ -24,6 +89,168 @@ const DsSetSchema = z.object({
   scope: z.string().min(1).optional(),
   ifMatch: z.string().min(1).optional(),
   ifNoneMatch: z.union([z.literal('*'), z.string().min(1)]).optional(),
+  userIds: z.array(z.number().int().positive()).max(MAX_ENTRY_USER_IDS).optional(),
+  attributes: z.record(z.unknown()).optional(),
+  projectRoot: z.string().min(1).optional(),
+  skipValidation: z.boolean().optional(),
+});
+const DsSchemaSchema = z.object({
+  datastoreName: z.string().min(1),
+  projectRoot: z.string().min(1).optional(),
+});
+const DsDeleteSchema = z.object({
+  datastoreName: z.string().min(1),
+  key: z.string().min(1),
+  scope: z.string().min(1).optional(),
+  ifMatch: z.string().min(1).optional(),
+});
+const DsIncrementSchema = z.object({
+  datastoreName: z.string().min(1),
+  key: z.string().min(1),
+  incrementBy: z.number().int(),
+  scope: z.string().min(1).optional(),
+});
+const DsListVersionsSchema = z.object({
+  datastoreName: z.string().min(1),
+  key: z.string().min(1),
+  scope: z.string().min(1).optional(),
+  startTime: z.string().datetime().optional(),
+  endTime: z.string().datetime().optional(),
+  sortOrder: z.enum(['Ascending', 'Descending']).optional(),
+  limit: z.number().int().min(1).max(100).optional().default(25),
+  cursor: z.string().min(1).optional(),
+});
+const DsGetVersionSchema = z.object({
+  datastoreName: z.string().min(1),
+  key: z.string().min(1),
+  versionId: z.string().min(1),
+  scope: z.string().min(1).optional(),
+});
+const DsRestoreVersionSchema = DsGetVersionSchema.extend({
+  ifMatch: z.string().min(1).optional(),
+  projectRoot: z.string().min(1).optional(),
+  skipValidation: z.boolean().optional(),
+});
+
+const DsExportSchema = z.object({
+  datastoreName: z.string().min(1),
+  filePath: z.string().min(1),
+  scope: z.string().min(1).optional(),
+  allScopes: z.boolean().optional(),
+  prefix: z.string().min(1).optional(),
+  concurrency: z.number().int().min(1).max(MAX_BULK_CONCURRENCY).optional(),
+}).refine((v) => !(v.allScopes && v.scope), {
+  message: 'scope cannot be combined with allScopes',
+  path: ['scope'],
+});
+
+const DsImportSchema = z.object({
+  datastoreName: z.string().min(1),
+  filePath: z.string().min(1),
+  conflict: z.enum(['skip', 'overwrite', 'ifMatch']).optional().default('skip'),
+  scope: z.string().min(1).optional(),
+  concurrency: z.number().int().min(1).max(MAX_BULK_CONCURRENCY).optional(),
+  resume: z.boolean().optional().default(true),
+  projectRoot: z.string().min(1).optional(),
+  skipValidation: z.boolean().optional(),
+});
+
+const OdsEntrySchema = z.object({
+  orderedDataStore: z.string().min(1),
+  key: z.string().min(1),
+  scope: z.string().min(1).optional(),
+});
+const OdsListSchema = z.object({
+  orderedDataStore: z.string().min(1),
+  scope: z.string().min(1).optional(),
+  order: z.enum(['ascending', 'descending']).optional().default('ascending'),
+  min: z.number().int().optional(),
+  max: z.number().int().optional(),
+  limit: z.number().int().min(1).max(100).optional().default(25),
+  cursor: z.string().min(1).optional(),
+}).refine((v) => v.min === undefined || v.max === undefined || v.min <= v.max, {
+  message: 'min cannot be greater than max',
+  path: ['min'],
+});
+const OdsWriteSchema = OdsEntrySchema.extend({
+  value: z.number().int(),
+});
+const OdsUpdateSchema = OdsWriteSchema.extend({
+  allowMissing: z.boolean().optional(),
+});
+const OdsIncrementSchema = OdsEntrySchema.extend({
+  amount: z.number().int(),
+});
+
+const MsKeySchema = z.string().min(1).max(MEMORYSTORE_LIMITS.keyLength);
+const MsTtlSchema = z.number().int().min(1).max(MEMORYSTORE_LIMITS.maxTtlSeconds);
+const MsMapItemSchema = z.object({
+  map: z.string().min(1),
+  key: MsKeySchema,
+});
+const MsMapListSchema = z.object({
+  map: z.string().min(1),
+  order: z.enum(['ascending', 'descending']).optional().default('ascending'),
+  filter: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(100).optional().default(25),
+  cursor: z.string().min(1).optional(),
+});
+const MsMapWriteSchema = MsMapItemSchema.extend({
+  value: z.any(),
+  ttlSeconds: MsTtlSchema,
+  sortKey: z.union([z.string().max(MEMORYSTORE_LIMITS.sortKeyLength), z.number()]).optional(),
+});
+const MsMapUpdateSchema = MsMapWriteSchema.extend({
+  allowMissing: z.boolean().optional(),
+  etag: z.string().min(1).optional(),
+});
+const MsMapDeleteSchema = MsMapItemSchema.extend({
+  etag: z.string().min(1).optional(),
+});
+const MsQueueEnqueueSchema = z.object({
+  queue: z.string().min(1),
+  data: z.any(),
+  ttlSeconds: MsTtlSchema,
+  priority: z.number().optional(),
+});
+const MsQueueReadSchema = z.object({
+  queue: z.string().min(1),
+  count: z.number().int().min(1).max(MEMORYSTORE_LIMITS.maxReadCount).optional().default(1),
+  allOrNothing: z.boolean().optional(),
+  invisibilityWindowSeconds: z.number().int().min(1).optional(),
+});
+const MsQueueDiscardSchema = z.object({
+  queue: z.string().min(1),
+  readId: z.string().min(1),
+});
+
+const PlacePublishSchema = z.object({
+  filePath: z.string().min(1),
+  placeId: z.string().regex(/^\d+$/, 'placeId must be numeric'),
+  versionType: z.enum(['Saved', 'Published']),
+});
+
+const LuauExecuteSchema = z.object({
+  placeId: z.string().regex(/^\d+$/, 'placeId must be numeric'),
+  versionId: z.string().regex(/^\d+$/, 'versionId must be numeric').optional(),
+  script: z.string().min(1).optional(),
+  filePath: z.string().min(1).optional(),
+  projectRoot: z.string().min(1).optional(),
+  timeoutSeconds: z.number().int().min(1).max(300).optional(),
+  pollTimeoutSeconds: z.number().int().min(1).max(900).optional().default(120),
+}).refine((v) => (v.script === undefined) !== (v.filePath === undefined), {
+  message: 'Provide exactly one of script or filePath',
+  path: ['script'],
+});
+
+const AuditQuerySchema = z.object({
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  key: z.string().min(1).optional(),
+  datastore: z.string().min(1).optional(),
+  tool: z.string().min(1).optional(),
+  status: z.union([z.number().int().min(100).max(599), z.enum(['2xx', '3xx', '4xx', '5xx'])]).optional(),
+  limit: z.number().int().min(1).max(1000).optional().default(100),
 });
 
 const MsgPublishSchema = z.object({
@@ -31,12 +258,186 @@ const MsgPublishSchema = z.object({
   message: z.any(),
 });
 
+const ProfileArgSchema = z.object({
+  profile: z.string().min(1).optional(),
+});
+
+const GuardArgSchema = z.object({
+  dryRun: z.boolean().optional(),
+  confirm: z.string().min(1).optional(),
+}).passthrough();
+
+/**
+ * Open Cloud configuration for the profile named in a tool call's arguments
+ */
+function loadToolConfig(args: unknown) {
+  const { profile } = ProfileArgSchema.parse(args ?? {});
+  try {
+    return loadProfileConfig(profile);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** The parts of the MCP request context the Open Cloud tools use */
+export type RobloxCloudToolExtra = Pick<RequestHandlerExtra<ServerRequest, ServerNotification>, '_meta' | 'sendNotification'>;
+
+/** Items of an auto-paginating listing and where to continue from */
+interface PagedResult<T> {
+  items: T[];
+  /** Set when maxPages stopped the listing before its last page */
+  nextPageCursor?: string;
+  pages: number;
+  note?: string;
+}
+
+/**
+ * Follow an auto-paginating listing for up to maxPages pages and return their
+ * items together. Each page is reported in a progress notification when the
+ * client sent a progress token; the items themselves are only in the result.
+ */
+async function collectPages<T>(pages: AsyncGenerator<Page<T>>, maxPages: number, extra?: RobloxCloudToolExtra): Promise<PagedResult<T>> {
+  const progressToken = extra?._meta?.progressToken;
+  const items: T[] = [];
+  let nextPageCursor: string | undefined;
+  let pageCount = 0;
+
+  for await (const page of pages) {
+    pageCount++;
+    items.push(...page.items);
+    nextPageCursor = page.nextPageCursor;
+    if (progressToken !== undefined) {
+      await extra!.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress: pageCount, total: maxPages, message: `Page ${pageCount}: ${items.length} items so far` },
+      });
+    }
+  }
+  return {
+    items,
+    nextPageCursor,
+    pages: pageCount,
+    note: nextPageCursor ? `Stopped after ${pageCount} pages (maxPages); pass nextPageCursor as cursor to list the rest` : undefined,
+  };
+}
+
+async function loadDatastoreSchema(datastore: string, projectRoot: string | undefined): Promise<DatastoreSchema | undefined> {
+  try {
+    return await resolveDatastoreSchema(datastore, projectRoot ?? loadProjectRootFromEnv());
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Throw when a value does not match the DataStore's schema
+ */
+function assertMatchesSchema(datastore: string, resolved: DatastoreSchema, value: unknown): void {
+  const { source, issues } = checkDatastoreValue(resolved, value);
+  if (issues.length > 0) {
+    const list = issues.map((i) => `${i.path}: ${i.message}`).join('; ');
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Value does not match the schema for DataStore ${datastore} (${source}): ${list}. Fix the value, or pass skipValidation to write it anyway`
+    );
+  }
+}
+
+/**
+ * Reject a write whose value does not match the DataStore's schema. Returns
+ * where the schema came from, or undefined when the DataStore has none.
+ */
+async function validateWrite(datastore: string, value: unknown, projectRoot: string | undefined): Promise<string | undefined> {
+  const resolved = await loadDatastoreSchema(datastore, projectRoot);
+  if (!resolved) return undefined;
+  assertMatchesSchema(datastore, resolved, value);
+  return resolved.source;
+}
+
+/**
+ * Validator for writes whose values are only known later (restores, imports),
+ * or undefined when validation is skipped or the DataStore has no schema
+ */
+async function schemaValidator(
+  datastore: string,
+  projectRoot: string | undefined,
+  skipValidation: boolean | undefined
+): Promise<{ source: string; validate: (value: unknown) => void } | undefined> {
+  const resolved = skipValidation ? undefined : await loadDatastoreSchema(datastore, projectRoot);
+  if (!resolved) return undefined;
+  return { source: resolved.source, validate: (value) => assertMatchesSchema(datastore, resolved, value) };
+}
+
+/**
+ * Resolve a tool's `filePath` against the project (default: the configured
+ * one), refusing paths that lead outside it
+ */
+export function resolveProjectFile(filePath: string, root = loadProjectRootFromEnv() ?? process.cwd()): string {
+  const resolved = path.resolve(root, filePath);
+  const relative = path.relative(root, resolved);
+  if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new McpError(ErrorCode.InvalidParams, `filePath must be a file inside the project (${root}): ${filePath}`);
+  }
+  return resolved;
+}
+
+/**
+ * Progress callback for the bulk tools; sends nothing unless the client asked
+ * for progress with a progress token
+ */
+function progressReporter(extra?: RobloxCloudToolExtra): ((progress: BulkProgress) => Promise<void>) | undefined {
+  const progressToken = extra?._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+  return async ({ done, message }) => {
+    await extra!.sendNotification({ method: 'notifications/progress', params: { progressToken, progress: done, message } });
+  };
+}
+
+/**
+ * Compile a roblox-ts file with the project's own compiler for a Luau execution task
+ */
+async function compileForExecution(filePath: string, projectRoot: string | undefined): Promise<string> {
+  if (!projectRoot) {
+    throw new McpError(ErrorCode.InvalidParams, 'filePath requires projectRoot (or --project / MCP_PROJECT_ROOT)');
+  }
+  const compiler = await findRobloxTsCompiler(projectRoot);
+  if (!compiler) {
+    throw new McpError(ErrorCode.InvalidParams, `roblox-ts (rbxtsc) was not found in ${projectRoot}/node_modules`);
+  }
+
+  let result;
+  try {
+    result = await compileRobloxTs(compiler, { projectRoot, filePath });
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `roblox-ts build failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!result.success || !result.luau) {
+    throw new McpError(ErrorCode.InvalidParams, `roblox-ts build failed:\n${result.diagnostics.join('\n')}`);
+  }
+  return result.luau;
+}
+
 export function registerRobloxCloudTools(server: Server) {
   // Note: Using SDK setRequestHandler in tools.ts, so here we expose a helper to register tools via ListTools/CallTool.
   // For convenience, we can also register using addTool if available; but current pattern relies on tools.ts.
 }
 
 // Helper exports for tools.ts registration
+const PROFILE_PROPERTY = {
+  type: 'string',
+  description: 'Open Cloud profile to use (see robloxcloud-profiles); default: ROBLOX_DEFAULT_PROFILE or ROBLOX_UNIVERSE_ID',
+} as const;
+
+const DRY_RUN_PROPERTY = {
+  type: 'boolean',
+  description: 'Return the HTTP request that would be sent (API key redacted) without sending it',
+} as const;
+
+const CONFIRM_PROPERTY = {
+  type: 'string',
+  description: 'Confirm token from a dryRun of this exact call; required by protected profiles',
+} as const;
+
 export const RobloxCloudToolDefinitions = [
   {
     name: 'robloxcloud-ds-list',
@@ -44,46 +445,524 @@ export const RobloxCloudToolDefinitions = [
     inputSchema: {
       type: 'object',
       properties: {
+        profile: PROFILE_PROPERTY,
         prefix: { type: 'string', description: 'Optional prefix filter' },
-        limit: { type: 'number', description: 'Max items, 1-100' },
+        limit: { type: 'number', description: 'Max items per page, 1-100' },
+        cursor: { type: 'string', description: 'nextPageCursor from a previous call to continue listing' },
+        maxPages: { type: 'number', description: `Follow cursors for up to this many pages (1-${MAX_PAGES}), and return their items together; nextPageCursor and a note are set when pages are left` },
       },
     },
   },
+  {
+    name: 'robloxcloud-ds-list-entries',
+    description: 'List entry keys in a DataStore (Open Cloud)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        datastoreName: { type: 'string', description: 'DataStore name' },
+        scope: { type: 'string', description: 'Optional scope (default: global or ROBLOX_SCOPE)' },
+        allScopes: { type: 'boolean', description: 'List keys in every scope; cannot be combined with scope' },
+        prefix: { type: 'string', description: 'Optional key prefix filter (scope/key prefix when allScopes is set)' },
+        limit: { type: 'number', description: 'Max keys per page, 1-100' },
+        cursor: { type: 'string', description: 'nextPageCursor from a previous call to continue listing' },
+        maxPages: { type: 'number', description: `Follow cursors for up to this many pages (1-${MAX_PAGES}), and return their items together; nextPageCursor and a note are set when pages are left` },
+      },
+      required: ['datastoreName'],
+    },
+  },
   {
     name: 'robloxcloud-ds-get',
-    description: 'Get a DataStore entry value',
+    description: 'Get a DataStore entry value with its ETag, user IDs and attributes (content MD5 is verified)',
     inputSchema: {
       type: 'object',
       properties: {
+        profile: PROFILE_PROPERTY,
         datastoreName: { type: 'string', description: 'DataStore name' },
         key: { type: 'string', description: 'Entry key' },
         scope: { type: 'string', description: 'Optional scope (default: global or ROBLOX_SCOPE)' },
+        projectRoot: { type: 'string', description: 'Project whose DataStore schemas the value is checked against for drift (default: the server\'s --project)' },
       },
       required: ['datastoreName', 'key'],
     },
   },
   {
     name: 'robloxcloud-ds-set',
-    description: 'Set a DataStore entry value (JSON)',
+    description: 'Set a DataStore entry value (JSON), validated against the DataStore\'s schema when the project defines one',
     inputSchema: {
       type: 'object',
       properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
         datastoreName: { type: 'string', description: 'DataStore name' },
         key: { type: 'string', description: 'Entry key' },
         value: { type: 'object', description: 'JSON-serializable value' },
         scope: { type: 'string', description: 'Optional scope' },
         ifMatch: { type: 'string', description: 'Optional ETag precondition (If-Match)' },
         ifNoneMatch: { type: 'string', description: "Optional If-None-Match ('*' or ETag)" },
+        userIds: {
+          type: 'array',
+          items: { type: 'number' },
+          description: `Player user IDs to tag the entry with for GDPR erasure (max ${MAX_ENTRY_USER_IDS})`,
+        },
+        attributes: {
+          type: 'object',
+          description: `Custom entry metadata (max ${MAX_ENTRY_ATTRIBUTES_LENGTH} characters as JSON)`,
+        },
+        projectRoot: { type: 'string', description: 'Project whose DataStore schemas the value is validated against (default: the server\'s --project)' },
+        skipValidation: { type: 'boolean', description: 'Write the value even if it does not match the DataStore schema' },
       },
       required: ['datastoreName', 'key', 'value'],
     },
   },
+  {
+    name: 'robloxcloud-ds-schema',
+    description: 'Show the schema DataStore writes are validated against: registered, from .rbxts-mcp.json, or inferred from a ProfileStore template in the project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        datastoreName: { type: 'string', description: 'DataStore name' },
+        projectRoot: { type: 'string', description: 'Project to read schemas from (default: the server\'s --project)' },
+      },
+      required: ['datastoreName'],
+    },
+  },
+  {
+    name: 'robloxcloud-ds-delete',
+    description: 'Delete a DataStore entry',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        datastoreName: { type: 'string', description: 'DataStore name' },
+        key: { type: 'string', description: 'Entry key' },
+        scope: { type: 'string', description: 'Optional scope' },
+        ifMatch: { type: 'string', description: 'Optional ETag precondition (If-Match)' },
+      },
+      required: ['datastoreName', 'key'],
+    },
+  },
+  {
+    name: 'robloxcloud-ds-increment',
+    description: 'Atomically increment a numeric DataStore entry',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        datastoreName: { type: 'string', description: 'DataStore name' },
+        key: { type: 'string', description: 'Entry key' },
+        incrementBy: { type: 'number', description: 'Integer amount to add (negative to subtract)' },
+        scope: { type: 'string', description: 'Optional scope' },
+      },
+      required: ['datastoreName', 'key', 'incrementBy'],
+    },
+  },
+  {
+    name: 'robloxcloud-ds-list-versions',
+    description: 'List the versions of a DataStore entry',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        datastoreName: { type: 'string', description: 'DataStore name' },
+        key: { type: 'string', description: 'Entry key' },
+        scope: { type: 'string', description: 'Optional scope' },
+        startTime: { type: 'string', description: 'Only versions created at or after this ISO time' },
+        endTime: { type: 'string', description: 'Only versions created at or before this ISO time' },
+        sortOrder: { type: 'string', enum: ['Ascending', 'Descending'], description: 'Order by creation time' },
+        limit: { type: 'number', description: 'Max versions per page, 1-100' },
+        cursor: { type: 'string', description: 'nextPageCursor from a previous call to continue listing' },
+      },
+      required: ['datastoreName', 'key'],
+    },
+  },
+  {
+    name: 'robloxcloud-ds-get-version',
+    description: 'Get the value of a DataStore entry at a specific version',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        datastoreName: { type: 'string', description: 'DataStore name' },
+        key: { type: 'string', description: 'Entry key' },
+        versionId: { type: 'string', description: 'Version from robloxcloud-ds-list-versions' },
+        scope: { type: 'string', description: 'Optional scope' },
+      },
+      required: ['datastoreName', 'key', 'versionId'],
+    },
+  },
+  {
+    name: 'robloxcloud-ds-restore-version',
+    description: 'Write an old version of a DataStore entry back as its current value, guarded by If-Match',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        datastoreName: { type: 'string', description: 'DataStore name' },
+        key: { type: 'string', description: 'Entry key' },
+        versionId: { type: 'string', description: 'Version to restore' },
+        scope: { type: 'string', description: 'Optional scope' },
+        ifMatch: { type: 'string', description: 'ETag the current entry must have (default: read from the entry)' },
+        projectRoot: { type: 'string', description: 'Project whose DataStore schemas the old value is validated against (default: the server\'s --project)' },
+        skipValidation: { type: 'boolean', description: 'Restore the value even if it does not match the DataStore schema' },
+      },
+      required: ['datastoreName', 'key', 'versionId'],
+    },
+  },
+  {
+    name: 'robloxcloud-ds-export',
+    description: 'Export every entry of a DataStore (value, ETag, user IDs and attributes) to a local NDJSON file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        datastoreName: { type: 'string', description: 'DataStore name' },
+        filePath: { type: 'string', description: 'NDJSON file to write, relative to the configured project' },
+        scope: { type: 'string', description: 'Scope to export (default: the profile scope or global)' },
+        allScopes: { type: 'boolean', description: 'Export every scope; cannot be combined with scope' },
+        prefix: { type: 'string', description: 'Only export keys starting with this prefix' },
+        concurrency: { type: 'number', description: `Entries read in parallel (1-${MAX_BULK_CONCURRENCY}, default 4)` },
+      },
+      required: ['datastoreName', 'filePath'],
+    },
+  },
+  {
+    name: 'robloxcloud-ds-import',
+    description: 'Write a file from robloxcloud-ds-export back into a DataStore, resuming from a checkpoint after an interruption',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        datastoreName: { type: 'string', description: 'DataStore to write to' },
+        filePath: { type: 'string', description: 'NDJSON export file, relative to the configured project' },
+        conflict: {
+          type: 'string',
+          enum: ['skip', 'overwrite', 'ifMatch'],
+          description: 'skip: leave existing keys alone (If-None-Match: *, default); overwrite: replace them; ifMatch: only replace entries unchanged since the export (If-Match with the exported ETag)',
+        },
+        scope: { type: 'string', description: 'Write every entry to this scope instead of the exported one' },
+        concurrency: { type: 'number', description: `Entries written in parallel (1-${MAX_BULK_CONCURRENCY}, default 4)` },
+        resume: { type: 'boolean', description: 'Continue from <filePath>.checkpoint if an earlier run stopped (default true)' },
+        projectRoot: { type: 'string', description: 'Project whose DataStore schemas each value is validated against (default: the server\'s --project)' },
+        skipValidation: { type: 'boolean', description: 'Import values even if they do not match the DataStore schema; otherwise they count as failed lines' },
+      },
+      required: ['datastoreName', 'filePath'],
+    },
+  },
+  {
+    name: 'robloxcloud-ods-list',
+    description: 'List OrderedDataStore entries sorted by value (e.g. a leaderboard page)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        orderedDataStore: { type: 'string', description: 'OrderedDataStore name' },
+        scope: { type: 'string', description: 'Optional scope (default: global or ROBLOX_SCOPE)' },
+        order: { type: 'string', enum: ['ascending', 'descending'], description: 'Sort order (default: ascending)' },
+        min: { type: 'number', description: 'Only entries with value >= min' },
+        max: { type: 'number', description: 'Only entries with value <= max' },
+        limit: { type: 'number', description: 'Max entries per page, 1-100' },
+        cursor: { type: 'string', description: 'nextPageCursor from a previous call to continue listing' },
+      },
+      required: ['orderedDataStore'],
+    },
+  },
+  {
+    name: 'robloxcloud-ods-get',
+    description: 'Get an OrderedDataStore entry',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        orderedDataStore: { type: 'string', description: 'OrderedDataStore name' },
+        key: { type: 'string', description: 'Entry key' },
+        scope: { type: 'string', description: 'Optional scope' },
+      },
+      required: ['orderedDataStore', 'key'],
+    },
+  },
+  {
+    name: 'robloxcloud-ods-create',
+    description: 'Create an OrderedDataStore entry; fails if the key exists',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        orderedDataStore: { type: 'string', description: 'OrderedDataStore name' },
+        key: { type: 'string', description: 'Entry key' },
+        value: { type: 'number', description: 'Integer value' },
+        scope: { type: 'string', description: 'Optional scope' },
+      },
+      required: ['orderedDataStore', 'key', 'value'],
+    },
+  },
+  {
+    name: 'robloxcloud-ods-update',
+    description: 'Set the value of an OrderedDataStore entry',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        orderedDataStore: { type: 'string', description: 'OrderedDataStore name' },
+        key: { type: 'string', description: 'Entry key' },
+        value: { type: 'number', description: 'Integer value' },
+        scope: { type: 'string', description: 'Optional scope' },
+        allowMissing: { type: 'boolean', description: 'Create the entry if it does not exist' },
+      },
+      required: ['orderedDataStore', 'key', 'value'],
+    },
+  },
+  {
+    name: 'robloxcloud-ods-increment',
+    description: 'Atomically increment an OrderedDataStore entry',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        orderedDataStore: { type: 'string', description: 'OrderedDataStore name' },
+        key: { type: 'string', description: 'Entry key' },
+        amount: { type: 'number', description: 'Integer amount to add (negative to subtract)' },
+        scope: { type: 'string', description: 'Optional scope' },
+      },
+      required: ['orderedDataStore', 'key', 'amount'],
+    },
+  },
+  {
+    name: 'robloxcloud-ods-delete',
+    description: 'Delete an OrderedDataStore entry',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        orderedDataStore: { type: 'string', description: 'OrderedDataStore name' },
+        key: { type: 'string', description: 'Entry key' },
+        scope: { type: 'string', description: 'Optional scope' },
+      },
+      required: ['orderedDataStore', 'key'],
+    },
+  },
+  {
+    name: 'robloxcloud-ms-map-list',
+    description: 'List items of a MemoryStore sorted map in sort order',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        map: { type: 'string', description: 'Sorted map name' },
+        order: { type: 'string', enum: ['ascending', 'descending'], description: 'Sort order (default: ascending)' },
+        filter: { type: 'string', description: 'Optional Open Cloud filter expression on id or sortKey' },
+        limit: { type: 'number', description: 'Max items per page, 1-100' },
+        cursor: { type: 'string', description: 'nextPageCursor from a previous call to continue listing' },
+      },
+      required: ['map'],
+    },
+  },
+  {
+    name: 'robloxcloud-ms-map-get',
+    description: 'Get a MemoryStore sorted map item',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        map: { type: 'string', description: 'Sorted map name' },
+        key: { type: 'string', description: `Item key (max ${MEMORYSTORE_LIMITS.keyLength} characters)` },
+      },
+      required: ['map', 'key'],
+    },
+  },
+  {
+    name: 'robloxcloud-ms-map-create',
+    description: 'Create a MemoryStore sorted map item; fails if the key exists',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        map: { type: 'string', description: 'Sorted map name' },
+        key: { type: 'string', description: `Item key (max ${MEMORYSTORE_LIMITS.keyLength} characters)` },
+        value: { type: 'object', description: 'JSON value (max 32KB)' },
+        ttlSeconds: { type: 'number', description: 'Expiration in seconds (max 45 days)' },
+        sortKey: { type: ['string', 'number'], description: `Optional sort key (string max ${MEMORYSTORE_LIMITS.sortKeyLength} characters)` },
+      },
+      required: ['map', 'key', 'value', 'ttlSeconds'],
+    },
+  },
+  {
+    name: 'robloxcloud-ms-map-update',
+    description: 'Replace a MemoryStore sorted map item',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        map: { type: 'string', description: 'Sorted map name' },
+        key: { type: 'string', description: `Item key (max ${MEMORYSTORE_LIMITS.keyLength} characters)` },
+        value: { type: 'object', description: 'JSON value (max 32KB)' },
+        ttlSeconds: { type: 'number', description: 'Expiration in seconds (max 45 days)' },
+        sortKey: { type: ['string', 'number'], description: `Optional sort key (string max ${MEMORYSTORE_LIMITS.sortKeyLength} characters)` },
+        allowMissing: { type: 'boolean', description: 'Create the item if it does not exist' },
+        etag: { type: 'string', description: 'Optional etag the item must still have' },
+      },
+      required: ['map', 'key', 'value', 'ttlSeconds'],
+    },
+  },
+  {
+    name: 'robloxcloud-ms-map-delete',
+    description: 'Delete a MemoryStore sorted map item',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        map: { type: 'string', description: 'Sorted map name' },
+        key: { type: 'string', description: `Item key (max ${MEMORYSTORE_LIMITS.keyLength} characters)` },
+        etag: { type: 'string', description: 'Optional etag the item must still have' },
+      },
+      required: ['map', 'key'],
+    },
+  },
+  {
+    name: 'robloxcloud-ms-queue-enqueue',
+    description: 'Add an item to a MemoryStore queue',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        queue: { type: 'string', description: 'Queue name' },
+        data: { type: 'object', description: 'JSON item (max 32KB)' },
+        ttlSeconds: { type: 'number', description: 'Expiration in seconds (max 45 days)' },
+        priority: { type: 'number', description: 'Optional priority; higher is read first' },
+      },
+      required: ['queue', 'data', 'ttlSeconds'],
+    },
+  },
+  {
+    name: 'robloxcloud-ms-queue-read',
+    description: 'Read items from a MemoryStore queue; they stay hidden until discarded or the invisibility window ends, so this counts as a write and is never retried',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        queue: { type: 'string', description: 'Queue name' },
+        count: { type: 'number', description: `Items to read, 1-${MEMORYSTORE_LIMITS.maxReadCount} (default 1)` },
+        allOrNothing: { type: 'boolean', description: 'Return nothing unless count items are available' },
+        invisibilityWindowSeconds: { type: 'number', description: 'Seconds read items stay hidden (default 30)' },
+      },
+      required: ['queue'],
+    },
+  },
+  {
+    name: 'robloxcloud-ms-queue-discard',
+    description: 'Remove items returned by robloxcloud-ms-queue-read from a MemoryStore queue',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        queue: { type: 'string', description: 'Queue name' },
+        readId: { type: 'string', description: 'readId returned by robloxcloud-ms-queue-read' },
+      },
+      required: ['queue', 'readId'],
+    },
+  },
+  {
+    name: 'robloxcloud-place-publish',
+    description: 'Upload a built .rbxl/.rbxlx file as a new version of a place',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        filePath: { type: 'string', description: 'Path of the .rbxl or .rbxlx file (max 100MB), relative to the configured project' },
+        placeId: { type: 'string', description: 'Place ID in the configured universe' },
+        versionType: {
+          type: 'string',
+          enum: ['Saved', 'Published'],
+          description: 'Saved keeps the live version; Published makes the upload live',
+        },
+      },
+      required: ['filePath', 'placeId', 'versionType'],
+    },
+  },
+  {
+    name: 'robloxcloud-luau-execute',
+    description: 'Run a Luau script (or a roblox-ts file compiled with the project\'s rbxtsc) against a place and return its results, logs and errors',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        placeId: { type: 'string', description: 'Place ID in the configured universe' },
+        versionId: { type: 'string', description: 'Place version to run against (default: latest saved version)' },
+        script: { type: 'string', description: 'Luau source to run' },
+        filePath: { type: 'string', description: 'roblox-ts file to compile and run instead of script' },
+        projectRoot: { type: 'string', description: 'roblox-ts project for filePath (default: configured project)' },
+        timeoutSeconds: { type: 'number', description: 'Script run time limit enforced by Roblox, 1-300' },
+        pollTimeoutSeconds: { type: 'number', description: 'How long to wait for the task to finish (default 120)' },
+      },
+      required: ['placeId'],
+    },
+  },
+  {
+    name: 'robloxcloud-profiles',
+    description: 'List the configured Open Cloud profiles (universe, scope, redacted API key)',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'robloxcloud-audit-query',
+    description: 'Search the audit log of Open Cloud calls made by this server',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: { type: 'string', description: 'Only calls at or after this ISO time' },
+        until: { type: 'string', description: 'Only calls at or before this ISO time' },
+        key: { type: 'string', description: 'Entry or item key' },
+        datastore: { type: 'string', description: 'DataStore, OrderedDataStore, sorted map or queue name' },
+        tool: { type: 'string', description: 'Tool that made the call, e.g. robloxcloud-ds-set' },
+        status: { type: ['number', 'string'], description: "HTTP status, or a class such as '4xx'" },
+        limit: { type: 'number', description: 'Newest matching entries to return, 1-1000 (default 100)' },
+      },
+    },
+  },
   {
     name: 'robloxcloud-msg-publish',
     description: 'Publish a message to a topic via MessagingService',
     inputSchema: {
       type: 'object',
       properties: {
+        profile: PROFILE_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
         topic: { type: 'string', description: 'Topic name' },
         message: { type: 'object', description: 'JSON-serializable payload' },
       },
@@ -92,46 +971,458 @@ export const RobloxCloudToolDefinitions = [
   },
 ] as const;
 
-export async function handleRobloxCloudTool(name: string, args: unknown) {
+/**
+ * Map Open Cloud failures onto MCP error codes: problems with the API key or a
+ * lost ETag race are InvalidRequest, a missing or oversized target is
+ * InvalidParams, and throttling and server faults stay InternalError
+ */
+function openCloudErrorCode(error: OpenCloudError): ErrorCode {
+  switch (error.kind) {
+    case 'unauthorized':
+    case 'insufficient_scope':
+    case 'precondition_failed':
+      return ErrorCode.InvalidRequest;
+    case 'not_found':
+    case 'payload_too_large':
+      return ErrorCode.InvalidParams;
+    default:
+      return error.status === 400 ? ErrorCode.InvalidParams : ErrorCode.InternalError;
+  }
+}
+
+/**
+ * Handle a `robloxcloud-*` call. Mutating requests go through the write guard:
+ * read-only profiles refuse them, `dryRun` describes the first one instead of
+ * sending it, and protected profiles need the confirm token a dry run returns.
+ */
+export async function handleRobloxCloudTool(name: string, args: unknown, extra?: RobloxCloudToolExtra) {
+  const { dryRun, confirm, ...callArgs } = GuardArgSchema.parse(args ?? {});
+  let usedConfig: OpenCloudConfig | undefined;
+  const clientFor = (cfg: OpenCloudConfig) => {
+    usedConfig = cfg;
+    const confirmed = confirm !== undefined && verifyConfirmToken(confirm, name, cfg.universeId, callArgs);
+    return createHttpClient(cfg, { dryRun, confirmed, tool: name });
+  };
+
+  try {
+    return await runRobloxCloudTool(name, args, clientFor, extra);
+  } catch (error) {
+    if (error instanceof DryRunInterrupt) {
+      const result = {
+        dryRun: true,
+        profile: usedConfig?.profile,
+        universeId: usedConfig?.universeId,
+        request: error.request,
+        confirmToken: usedConfig?.protected ? confirmToken(name, usedConfig.universeId, callArgs) : undefined,
+      };
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+    if (error instanceof WriteBlockedError) {
+      throw new McpError(ErrorCode.InvalidRequest, error.message);
+    }
+    if (error instanceof OpenCloudError) {
+      const message = error.hint ? `${error.message}. ${error.hint}` : error.message;
+      throw new McpError(openCloudErrorCode(error), message, error.toJSON());
+    }
+    if ((error as { code?: string }).code === 'ECONNABORTED') {
+      throw new McpError(ErrorCode.RequestTimeout, (error as Error).message);
+    }
+    throw error;
+  }
+}
+
+async function runRobloxCloudTool(
+  name: string,
+  args: unknown,
+  clientFor: (cfg: OpenCloudConfig) => HttpClient,
+  extra?: RobloxCloudToolExtra
+) {
   switch (name) {
     case 'robloxcloud-ds-list': {
       const parsed = DsListSchema.parse(args);
-      const cfg = loadConfigFromEnv();
-      const http = createHttpClient(cfg);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      if (parsed.maxPages) {
+        const { items, ...paging } = await collectPages(iterateDatastores(http, cfg, { ...parsed, maxPages: parsed.maxPages }), parsed.maxPages, extra);
+        const result = { success: true, datastores: items, ...paging };
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
       const result = await listDatastores(http, cfg, parsed);
       if (result.success) {
         return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
       }
       throw new McpError(ErrorCode.InternalError, result.error);
     }
+    case 'robloxcloud-ds-list-entries': {
+      const parsed = DsListEntriesSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      if (parsed.maxPages) {
+        const { items, ...paging } = await collectPages(iterateEntries(http, cfg, { ...parsed, maxPages: parsed.maxPages }), parsed.maxPages, extra);
+        const result = { success: true, keys: items, ...paging };
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      const result = await listEntries(http, cfg, parsed);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
     case 'robloxcloud-ds-get': {
       const parsed = DsGetSchema.parse(args);
-      const cfg = loadConfigFromEnv();
-      const http = createHttpClient(cfg);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
       const result = await getEntry(http, cfg, parsed.datastoreName, parsed.key, parsed.scope);
       if (result.success) {
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+        // A read never fails over the schema; drift and schema problems are reported alongside the value
+        let schema: (SchemaCheck & { matches: boolean }) | { error: string } | undefined;
+        try {
+          const resolved = await resolveDatastoreSchema(parsed.datastoreName, parsed.projectRoot ?? loadProjectRootFromEnv());
+          if (resolved) {
+            const check = checkDatastoreValue(resolved, result.data.value);
+            schema = { ...check, matches: check.issues.length === 0 };
+          }
+        } catch (error) {
+          schema = { error: error instanceof Error ? error.message : String(error) };
+        }
+        return { content: [{ type: 'text', text: JSON.stringify({ ...result, schema }, null, 2) }] };
       }
       throw new McpError(ErrorCode.InternalError, result.error);
     }
     case 'robloxcloud-ds-set': {
       const parsed = DsSetSchema.parse(args);
-      const cfg = loadConfigFromEnv();
-      const http = createHttpClient(cfg);
+      const validatedAgainst = parsed.skipValidation
+        ? undefined
+        : await validateWrite(parsed.datastoreName, parsed.value, parsed.projectRoot);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
       const result = await setEntry(http, cfg, parsed.datastoreName, parsed.key, parsed.value, {
         scope: parsed.scope,
         ifMatch: parsed.ifMatch,
         ifNoneMatch: parsed.ifNoneMatch as any,
+        userIds: parsed.userIds,
+        attributes: parsed.attributes,
+      });
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify({ ...result, validatedAgainst }, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ds-schema': {
+      const parsed = DsSchemaSchema.parse(args);
+      const resolved = await loadDatastoreSchema(parsed.datastoreName, parsed.projectRoot);
+      if (!resolved) {
+        throw new McpError(ErrorCode.InvalidParams, `No schema for DataStore ${parsed.datastoreName}`);
+      }
+      const schema = isZodSchema(resolved.schema) ? zodToJsonSchema(resolved.schema) : resolved.schema;
+      const result = { datastoreName: parsed.datastoreName, source: resolved.source, profileStore: Boolean(resolved.profileStore), schema };
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+    case 'robloxcloud-ds-delete': {
+      const parsed = DsDeleteSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await deleteEntry(http, cfg, parsed.datastoreName, parsed.key, {
+        scope: parsed.scope,
+        ifMatch: parsed.ifMatch,
       });
       if (result.success) {
         return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
       }
       throw new McpError(ErrorCode.InternalError, result.error);
     }
+    case 'robloxcloud-ds-increment': {
+      const parsed = DsIncrementSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await incrementEntry(http, cfg, parsed.datastoreName, parsed.key, parsed.incrementBy, parsed.scope);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ds-list-versions': {
+      const { datastoreName, key, ...opts } = DsListVersionsSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await listEntryVersions(http, cfg, datastoreName, key, opts);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ds-get-version': {
+      const parsed = DsGetVersionSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await getEntryVersion(http, cfg, parsed.datastoreName, parsed.key, parsed.versionId, parsed.scope);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ds-restore-version': {
+      const parsed = DsRestoreVersionSchema.parse(args);
+      const validator = await schemaValidator(parsed.datastoreName, parsed.projectRoot, parsed.skipValidation);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await restoreEntryVersion(http, cfg, parsed.datastoreName, parsed.key, parsed.versionId, {
+        scope: parsed.scope,
+        ifMatch: parsed.ifMatch,
+        validate: validator?.validate,
+      });
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify({ ...result, validatedAgainst: validator?.source }, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ds-export': {
+      const parsed = DsExportSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const filePath = resolveProjectFile(parsed.filePath);
+      const result = await exportDatastore(http, cfg, parsed.datastoreName, filePath, {
+        ...parsed,
+        onProgress: progressReporter(extra),
+      });
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ds-import': {
+      const parsed = DsImportSchema.parse(args);
+      const validator = await schemaValidator(parsed.datastoreName, parsed.projectRoot, parsed.skipValidation);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const filePath = resolveProjectFile(parsed.filePath);
+      const result = await importDatastore(http, cfg, parsed.datastoreName, filePath, {
+        ...parsed,
+        validate: validator?.validate,
+        onProgress: progressReporter(extra),
+      });
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify({ ...result, validatedAgainst: validator?.source }, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ods-list': {
+      const parsed = OdsListSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await listOrderedEntries(http, cfg, parsed.orderedDataStore, {
+        ...parsed,
+        descending: parsed.order === 'descending',
+      });
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ods-get': {
+      const parsed = OdsEntrySchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await getOrderedEntry(http, cfg, parsed.orderedDataStore, parsed.key, parsed.scope);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ods-create': {
+      const parsed = OdsWriteSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await createOrderedEntry(http, cfg, parsed.orderedDataStore, parsed.key, parsed.value, parsed.scope);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ods-update': {
+      const parsed = OdsUpdateSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await updateOrderedEntry(http, cfg, parsed.orderedDataStore, parsed.key, parsed.value, {
+        scope: parsed.scope,
+        allowMissing: parsed.allowMissing,
+      });
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ods-increment': {
+      const parsed = OdsIncrementSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await incrementOrderedEntry(http, cfg, parsed.orderedDataStore, parsed.key, parsed.amount, parsed.scope);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ods-delete': {
+      const parsed = OdsEntrySchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await deleteOrderedEntry(http, cfg, parsed.orderedDataStore, parsed.key, parsed.scope);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ms-map-list': {
+      const parsed = MsMapListSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await listSortedMapItems(http, cfg, parsed.map, {
+        ...parsed,
+        descending: parsed.order === 'descending',
+      });
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ms-map-get': {
+      const parsed = MsMapItemSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await getSortedMapItem(http, cfg, parsed.map, parsed.key);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ms-map-create': {
+      const { map, key, value, ...item } = MsMapWriteSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await createSortedMapItem(http, cfg, map, key, { ...item, value });
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ms-map-update': {
+      const { map, key, value, allowMissing, etag, ...item } = MsMapUpdateSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await updateSortedMapItem(http, cfg, map, key, { ...item, value }, { allowMissing, etag });
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ms-map-delete': {
+      const parsed = MsMapDeleteSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await deleteSortedMapItem(http, cfg, parsed.map, parsed.key, parsed.etag);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ms-queue-enqueue': {
+      const parsed = MsQueueEnqueueSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await enqueueItem(http, cfg, parsed.queue, parsed.data, {
+        ttlSeconds: parsed.ttlSeconds,
+        priority: parsed.priority,
+      });
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ms-queue-read': {
+      const { queue, ...opts } = MsQueueReadSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await readQueueItems(http, cfg, queue, opts);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-ms-queue-discard': {
+      const parsed = MsQueueDiscardSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await discardQueueItems(http, cfg, parsed.queue, parsed.readId);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-place-publish': {
+      const parsed = PlacePublishSchema.parse(args);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const filePath = resolveProjectFile(parsed.filePath);
+      const result = await publishPlace(http, cfg, filePath, parsed.placeId, parsed.versionType);
+      if (result.success) {
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-luau-execute': {
+      const parsed = LuauExecuteSchema.parse(args);
+      const script = parsed.filePath
+        ? await compileForExecution(parsed.filePath, parsed.projectRoot ?? loadProjectRootFromEnv())
+        : parsed.script!;
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
+      const result = await runLuauScript(http, cfg, {
+        placeId: parsed.placeId,
+        versionId: parsed.versionId,
+        script,
+        timeoutSeconds: parsed.timeoutSeconds,
+        pollTimeoutMs: parsed.pollTimeoutSeconds * 1000,
+      });
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          // A script error is still a finished task; flag it so CI callers fail
+          isError: result.result.state !== 'COMPLETE',
+        };
+      }
+      throw new McpError(ErrorCode.InternalError, result.error);
+    }
+    case 'robloxcloud-profiles': {
+      const { profiles, defaultProfile } = loadProfilesFromEnv();
+      const result = {
+        success: true,
+        defaultProfile,
+        profiles: profiles.map((p) => ({
+          name: p.name,
+          source: p.source,
+          universeId: p.universeId,
+          scope: p.scope,
+          apiKey: redact(p.apiKey),
+          readOnly: p.readOnly,
+          protected: Boolean(p.protected),
+          complete: Boolean(p.apiKey && p.universeId),
+        })),
+      };
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+    case 'robloxcloud-audit-query': {
+      const parsed = AuditQuerySchema.parse(args);
+      const file = loadAuditLogPathFromEnv();
+      if (!file) {
+        throw new McpError(ErrorCode.InvalidRequest, 'Audit logging is disabled (ROBLOX_AUDIT_LOG=off)');
+      }
+      const result = { success: true, file, ...await queryAuditLog(file, parsed) };
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
     case 'robloxcloud-msg-publish': {
       const parsed = MsgPublishSchema.parse(args);
-      const cfg = loadConfigFromEnv();
-      const http = createHttpClient(cfg);
+      const cfg = loadToolConfig(args);
+      const http = clientFor(cfg);
       const result = await publish(http, cfg, parsed.topic, parsed.message);
       if (result.success) {
         return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
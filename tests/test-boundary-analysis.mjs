@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { loadProjectContext } from '../dist/project/context.js';
+import { analyzeBoundaries } from '../dist/project/boundary.js';
+
+console.log('🧪 Testing client/server boundary analysis...');
+
+const root = await mkdtemp(join(tmpdir(), 'rbxts-boundary-'));
+const files = {
+  'tsconfig.json': JSON.stringify({ compilerOptions: { rootDir: 'src', outDir: 'out', baseUrl: 'src', moduleResolution: 'Node' } }),
+  'default.project.json': JSON.stringify({
+    name: 'boundary',
+    tree: {
+      $className: 'DataModel',
+      ServerScriptService: { $className: 'ServerScriptService', TS: { $path: 'out/server' } },
+      StarterPlayer: {
+        $className: 'StarterPlayer',
+        StarterPlayerScripts: { $className: 'StarterPlayerScripts', TS: { $path: 'out/client' } },
+      },
+      ReplicatedStorage: { $className: 'ReplicatedStorage', TS: { $path: 'out/shared' } },
+    },
+  }),
+  // client -> shared/inventory -> shared/persistence (DataStoreService)
+  'src/client/main.client.ts': 'import { openInventory } from "shared/inventory";\nopenInventory();\n',
+  'src/shared/inventory.ts': 'import { save } from "./persistence";\nexport function openInventory() { save(); }\n',
+  'src/shared/persistence.ts': 'import { DataStoreService } from "@rbxts/services";\nexport function save() { DataStoreService.GetDataStore("x"); }\n',
+  // type-only imports are erased and must not count
+  'src/client/types.ts': 'import type { Profile } from "@rbxts/profile-store";\nimport type { save } from "shared/persistence";\nexport type P = Profile<{}>;\n',
+  'src/client/ui.ts': 'import { Players } from "@rbxts/services";\nexport const gui = Players.LocalPlayer.WaitForChild("PlayerGui");\n',
+  // server -> shared/input (UserInputService via GetService) and a direct server use that is fine
+  'src/server/main.server.ts': 'import { bindKeys } from "shared/input";\nimport { save } from "shared/persistence";\nbindKeys(); save();\n',
+  'src/shared/input.ts': 'const UIS = game.GetService("UserInputService");\nexport function bindKeys() { UIS.InputBegan.Connect(() => {}); }\n',
+};
+
+try {
+  for (const [file, content] of Object.entries(files)) {
+    await mkdir(dirname(join(root, file)), { recursive: true });
+    await writeFile(join(root, file), content);
+  }
+
+  const report = await analyzeBoundaries(await loadProjectContext(root));
+  assert.equal(report.filesScanned, 7);
+  assert.equal(report.clientEntries, 3);
+  assert.equal(report.serverEntries, 1);
+
+  const summary = report.findings.map((f) => `${f.kind} ${f.api} ${f.chain.join(' -> ')}`);
+  assert.deepEqual(summary, [
+    'client-api-on-server UserInputService src/server/main.server.ts -> src/shared/input.ts',
+    'server-api-on-client DataStoreService src/client/main.client.ts -> src/shared/inventory.ts -> src/shared/persistence.ts',
+  ]);
+  const leak = report.findings[1];
+  assert.equal(leak.usage.line, 1);
+  assert.equal(leak.usage.file, 'src/shared/persistence.ts');
+  console.log('✅ Leaks are reported with their full import chain');
+  console.log('✅ Type-only imports and server-side use of server APIs are not reported');
+} catch (error) {
+  console.error('❌ Boundary analysis test failed:', error);
+  process.exitCode = 1;
+} finally {
+  await rm(root, { recursive: true, force: true });
+}
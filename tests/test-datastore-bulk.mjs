@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfigFromEnv } from '../dist/roblox-cloud/config.js';
+import { getEntry, setEntry } from '../dist/roblox-cloud/datastore.js';
+import { createHttpClient } from '../dist/roblox-cloud/http.js';
+import { startOpenCloudEmulator } from '../dist/roblox-cloud/emulator.js';
+import { exportDatastore, importDatastore } from '../dist/roblox-cloud/bulk.js';
+import { handleRobloxCloudTool } from '../dist/tools/roblox-cloud.js';
+
+console.log('🧪 Testing DataStore export and import...');
+
+process.env.ROBLOX_API_KEY = 'test_key';
+process.env.ROBLOX_UNIVERSE_ID = '1234567890';
+// Tool calls go to the emulator and are not audited
+process.env.ROBLOX_AUDIT_LOG = 'off';
+const emulator = await startOpenCloudEmulator();
+process.env.ROBLOX_OPEN_CLOUD_BASE_URL = emulator.url;
+const tmp = await mkdtemp(join(tmpdir(), 'rbxts-bulk-'));
+try {
+  const emuCfg = loadConfigFromEnv(process.env);
+  const emu = createHttpClient(emuCfg, { auditLog: false });
+
+  // Bulk export to NDJSON and import back with conflict policies and a checkpoint
+  const exportFile = join(tmp, 'Inventory.ndjson');
+  for (let i = 0; i < 5; i++) {
+    await setEntry(emu, emuCfg, 'Inventory', `user_${i}`, { slot: i }, { scope: i % 2 ? 'beta' : 'global', userIds: [i] });
+  }
+  const exported = await exportDatastore(emu, emuCfg, 'Inventory', exportFile, { allScopes: true, concurrency: 3 });
+  assert.deepEqual([exported.result.exported, exported.result.failed], [5, 0]);
+  const exportLines = (await readFile(exportFile, 'utf-8')).trim().split('\n').map((l) => JSON.parse(l));
+  assert.deepEqual(exportLines.map((l) => `${l.scope}/${l.key}`), ['beta/user_1', 'beta/user_3', 'global/user_0', 'global/user_2', 'global/user_4']);
+  assert.deepEqual([exportLines[0].value, exportLines[0].userIds, typeof exportLines[0].etag], [{ slot: 1 }, [1], 'string']);
+
+  await setEntry(emu, emuCfg, 'Inventory', 'user_0', { slot: 99 });
+  const skipped = await importDatastore(emu, emuCfg, 'Inventory', exportFile);
+  assert.deepEqual([skipped.result.written, skipped.result.skipped], [0, 5]);
+  const guarded = await importDatastore(emu, emuCfg, 'Inventory', exportFile, { conflict: 'ifMatch' });
+  assert.deepEqual([guarded.result.written, guarded.result.conflicts], [4, 1]);
+  assert.deepEqual((await getEntry(emu, emuCfg, 'Inventory', 'user_0')).data.value, { slot: 99 });
+  const copied = await importDatastore(emu, emuCfg, 'InventoryCopy', exportFile, { conflict: 'overwrite', concurrency: 2 });
+  assert.equal(copied.result.written, 5);
+  assert.deepEqual((await getEntry(emu, emuCfg, 'InventoryCopy', 'user_3', 'beta')).data.userIds, [3]);
+
+  // A bad line fails alone; the rerun resumes from the checkpoint and retries only that line
+  await writeFile(exportFile, `${exportLines.map((l) => JSON.stringify(l)).join('\n')}\n{"key":"broken"}\n`);
+  const partialImport = await importDatastore(emu, emuCfg, 'Restored', exportFile, { conflict: 'overwrite' });
+  assert.deepEqual([partialImport.result.written, partialImport.result.failed], [5, 1]);
+  assert.equal(partialImport.result.failures[0].line, 6);
+  await writeFile(exportFile, `${exportLines.map((l) => JSON.stringify(l)).join('\n')}\n{"scope":"global","key":"fixed","value":1}\n`);
+  const before = emulator.state.requests.length;
+  const resumedImport = await importDatastore(emu, emuCfg, 'Restored', exportFile, { conflict: 'overwrite' });
+  assert.deepEqual([resumedImport.result.resumedFrom, resumedImport.result.written, resumedImport.result.failed], [6, 1, 0]);
+  assert.equal(emulator.state.requests.length - before, 1);
+  await assert.rejects(readFile(`${exportFile}.checkpoint`), { code: 'ENOENT' });
+  console.log('Bulk export/import OK: NDJSON snapshot, conflict policies and checkpoint resume');
+
+  // The tools only read and write files inside the configured project
+  const projectRoot = join(tmp, 'game');
+  process.env.MCP_PROJECT_ROOT = projectRoot;
+  const viaTool = await handleRobloxCloudTool('robloxcloud-ds-export', { datastoreName: 'Inventory', filePath: 'backups/Inventory.ndjson', allScopes: true });
+  assert.equal(JSON.parse(viaTool.content[0].text).result.file, join(projectRoot, 'backups', 'Inventory.ndjson'));
+  for (const filePath of ['../escaped.ndjson', join(tmp, 'escaped.ndjson'), 'backups/../../escaped.ndjson']) {
+    await assert.rejects(
+      handleRobloxCloudTool('robloxcloud-ds-export', { datastoreName: 'Inventory', filePath }),
+      (e) => e.code === -32602 && /inside the project/.test(e.message)
+    );
+    await assert.rejects(
+      handleRobloxCloudTool('robloxcloud-ds-import', { datastoreName: 'Inventory', filePath }),
+      (e) => e.code === -32602 && /inside the project/.test(e.message)
+    );
+  }
+  await assert.rejects(readFile(join(tmp, 'escaped.ndjson')), { code: 'ENOENT' });
+  console.log('Bulk tools OK: file paths outside the project are refused');
+} catch (e) {
+  console.error('DataStore export/import test failed', e);
+  process.exitCode = 1;
+} finally {
+  await emulator.close();
+  await rm(tmp, { recursive: true, force: true });
+}
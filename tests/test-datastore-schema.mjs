@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { startOpenCloudEmulator } from '../dist/roblox-cloud/emulator.js';
+import { resolveDatastoreSchema, checkDatastoreValue, registerDatastoreSchema, clearDatastoreSchemas } from '../dist/roblox-cloud/schema.js';
+import { handleRobloxCloudTool } from '../dist/tools/roblox-cloud.js';
+
+console.log('🧪 Testing DataStore schemas...');
+
+process.env.ROBLOX_API_KEY = 'test_key';
+process.env.ROBLOX_UNIVERSE_ID = '1234567890';
+// Tool calls go to the emulator and are not audited
+process.env.ROBLOX_AUDIT_LOG = 'off';
+const emulator = await startOpenCloudEmulator();
+process.env.ROBLOX_OPEN_CLOUD_BASE_URL = emulator.url;
+const tmp = await mkdtemp(join(tmpdir(), 'rbxts-schema-'));
+try {
+  // DataStore schemas from the player-data pattern's ProfileStore template and .rbxts-mcp.json
+  const projectRoot = join(tmp, 'game');
+  await mkdir(`${projectRoot}/src/server`, { recursive: true });
+  await writeFile(`${projectRoot}/src/server/data.ts`, `
+import { ProfileStore } from "@rbxts/profile-store";
+interface Settings { musicEnabled: boolean; volume?: number }
+interface PlayerProfile {
+  coins: number;
+  inventory: string[];
+  rank: "member" | "admin";
+  settings: Settings;
+}
+const ProfileTemplate: PlayerProfile = { coins: 100, inventory: [], rank: "member", settings: { musicEnabled: true } };
+const PlayerProfiles = ProfileStore.create("PlayerData", ProfileTemplate);
+const Stats = ProfileStore.create("Stats", { kills: 0, badges: ["starter"] });
+const Template = { Coins: 0, Inventory: {} };
+const Wallets = ProfileStore.create("Wallets", Template);
+`);
+  await writeFile(`${projectRoot}/.rbxts-mcp.json`, JSON.stringify({
+    datastores: { Config: { schema: { type: 'object', properties: { motd: { type: 'string' } }, required: ['motd'] } } },
+  }));
+
+  const playerSchema = await resolveDatastoreSchema('PlayerData', projectRoot);
+  assert.match(playerSchema.source, /^ProfileStore PlayerData: interface PlayerProfile \(src\/server\/data.ts\)$/);
+  const goodProfile = { coins: 5, inventory: ['sword'], rank: 'admin', settings: { musicEnabled: false, volume: 0.5 } };
+  assert.deepEqual(checkDatastoreValue(playerSchema, goodProfile).issues, []);
+  assert.deepEqual(checkDatastoreValue(playerSchema, { Data: { ...goodProfile, coins: '5' }, MetaData: {} }).issues, [
+    { path: '$.Data.coins', message: 'expected number, got string' },
+  ]);
+  assert.deepEqual(
+    checkDatastoreValue(playerSchema, { coins: 1, inventory: [2], rank: 'owner', settings: {}, legacy: true }).issues.map((i) => i.path),
+    ['$.inventory[0]', '$.rank', '$.settings.musicEnabled', '$.legacy']
+  );
+  const statsSchema = await resolveDatastoreSchema('Stats', projectRoot);
+  assert.deepEqual(checkDatastoreValue(statsSchema, { kills: 'x', badges: [] }).issues.map((i) => i.path), ['$.kills']);
+  // An empty object in the template takes any keys
+  const walletSchema = await resolveDatastoreSchema('Wallets', projectRoot);
+  assert.deepEqual(checkDatastoreValue(walletSchema, { Coins: 5, Inventory: { Sword: 1 } }).issues, []);
+  assert.deepEqual(checkDatastoreValue(walletSchema, { Coins: 5, Inventory: [] }).issues.map((i) => i.path), ['$.Inventory']);
+  assert.equal((await resolveDatastoreSchema('Config', projectRoot)).source, '.rbxts-mcp.json');
+  assert.equal(await resolveDatastoreSchema('Unknown', projectRoot), undefined);
+  registerDatastoreSchema('Config', z.object({ motd: z.string().max(5) }));
+  assert.deepEqual(checkDatastoreValue(await resolveDatastoreSchema('Config', projectRoot), { motd: 'too long' }).issues.map((i) => i.path), ['$.motd']);
+  clearDatastoreSchemas();
+
+  const before = emulator.state.requests.length;
+  await assert.rejects(
+    handleRobloxCloudTool('robloxcloud-ds-set', { datastoreName: 'PlayerData', key: 'p1', value: { coins: 'lots' }, projectRoot }),
+    (e) => e.code === -32602 && /\$\.coins: expected number, got string/.test(e.message)
+  );
+  assert.equal(emulator.state.requests.length, before, 'an invalid value is never sent');
+  await handleRobloxCloudTool('robloxcloud-ds-set', { datastoreName: 'PlayerData', key: 'p1', value: { coins: 'lots' }, projectRoot, skipValidation: true });
+  const drifted = JSON.parse((await handleRobloxCloudTool('robloxcloud-ds-get', { datastoreName: 'PlayerData', key: 'p1', projectRoot })).content[0].text);
+  assert.equal(drifted.schema.matches, false);
+  assert.ok(drifted.schema.issues.some((i) => i.path === '$.inventory' && i.message === 'missing required property'));
+  const schemaInfo = JSON.parse((await handleRobloxCloudTool('robloxcloud-ds-schema', { datastoreName: 'PlayerData', projectRoot })).content[0].text);
+  assert.deepEqual(schemaInfo.schema.properties.rank, { type: 'string', enum: ['member', 'admin'] });
+  console.log('DataStore schemas OK: ProfileStore templates inferred, writes validated, drift reported on get');
+
+  // Restores and imports validate the values they write too
+  await handleRobloxCloudTool('robloxcloud-ds-set', { datastoreName: 'PlayerData', key: 'p1', value: goodProfile, projectRoot });
+  const versions = JSON.parse((await handleRobloxCloudTool('robloxcloud-ds-list-versions', { datastoreName: 'PlayerData', key: 'p1' })).content[0].text).versions;
+  const driftedVersion = { datastoreName: 'PlayerData', key: 'p1', versionId: versions[0].version, projectRoot };
+  await assert.rejects(
+    handleRobloxCloudTool('robloxcloud-ds-restore-version', driftedVersion),
+    (e) => e.code === -32602 && /\$\.coins: expected number, got string/.test(e.message)
+  );
+  const restored = JSON.parse((await handleRobloxCloudTool('robloxcloud-ds-restore-version', { ...driftedVersion, skipValidation: true })).content[0].text);
+  assert.equal(restored.success, true);
+
+  process.env.MCP_PROJECT_ROOT = projectRoot;
+  await writeFile(`${projectRoot}/players.ndjson`, [
+    { scope: 'global', key: 'p2', value: goodProfile },
+    { scope: 'global', key: 'p3', value: { ...goodProfile, rank: 'owner' } },
+  ].map((l) => JSON.stringify(l)).join('\n'));
+  const imported = JSON.parse((await handleRobloxCloudTool('robloxcloud-ds-import', { datastoreName: 'PlayerData', filePath: 'players.ndjson', resume: false })).content[0].text);
+  assert.deepEqual([imported.result.written, imported.result.failed, imported.validatedAgainst], [1, 1, playerSchema.source]);
+  assert.deepEqual([imported.result.failures[0].line, imported.result.failures[0].key], [2, 'p3']);
+  assert.match(imported.result.failures[0].error, /\$\.rank: /);
+  const forced = JSON.parse((await handleRobloxCloudTool('robloxcloud-ds-import', { datastoreName: 'PlayerData', filePath: 'players.ndjson', resume: false, conflict: 'overwrite', skipValidation: true })).content[0].text);
+  assert.deepEqual([forced.result.written, forced.result.failed], [2, 0]);
+  console.log('DataStore schemas OK: restores refused and import lines failed on mismatch unless skipValidation');
+} catch (e) {
+  console.error('DataStore schema test failed', e);
+  process.exitCode = 1;
+} finally {
+  await emulator.close();
+  await rm(tmp, { recursive: true, force: true });
+}
@@ -29,7 +29,7 @@ async function testGDDManagerTool() {
     });
 
     // Check if GDD manager tool is available
-    const gddTool = tools.tools.find(tool => tool.name === 'gdd-manager');
+    const gddTool = tools.tools.find(tool => tool.name === 'manage-gdd');
     if (!gddTool) {
       console.log('❌ GDD manager tool not found!');
       return;
@@ -41,7 +41,7 @@ async function testGDDManagerTool() {
 
     // Test read action
     const readResult = await client.callTool({
-      name: 'gdd-manager',
+      name: 'manage-gdd',
       arguments: {
         action: 'read',
         file_path: 'test-gdd.md'
@@ -58,7 +58,7 @@ async function testGDDManagerTool() {
 
     // Test query features action
     const queryResult = await client.callTool({
-      name: 'gdd-manager',
+      name: 'manage-gdd',
       arguments: {
         action: 'query_features',
         file_path: 'test-gdd.md',
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { request } from 'node:http';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { startHttpServer } from '../dist/http-server.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const binPath = join(__dirname, '..', 'bin', 'roblox-ts-mcp.js');
+const port = 3900 + Math.floor(Math.random() * 100);
+const token = 'test-token';
+const baseUrl = `http://127.0.0.1:${port}`;
+
+console.log('🧪 Testing HTTP transport...');
+
+// POST an initialize request with a chosen Host header, which fetch does not allow setting
+function postInitialize(url, host, headers = {}) {
+  const body = JSON.stringify({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } },
+  });
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { Host: host, 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    }, (res) => {
+      res.resume();
+      res.on('end', () => resolve({ status: res.statusCode, sessionId: res.headers['mcp-session-id'] }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+const child = spawn('node', [binPath, '--http', '--port', String(port), '--token', token], {
+  stdio: ['ignore', 'inherit', 'pipe'],
+});
+
+try {
+  // Wait for the listening message
+  await new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Server did not start')), 10000);
+    child.stderr.on('data', (data) => {
+      process.stderr.write(data);
+      if (String(data).includes('listening on')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+    child.on('exit', (code) => reject(new Error(`Server exited early with ${code}`)));
+  });
+
+  const unauthorized = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{}' });
+  assert.equal(unauthorized.status, 401);
+  console.log('✅ Requests without the bearer token are rejected');
+
+  const rebound = await postInitialize(`${baseUrl}/mcp`, `attacker.example:${port}`, { Authorization: `Bearer ${token}` });
+  assert.equal(rebound.status, 403);
+  console.log('✅ Requests with a foreign Host header are rejected');
+
+  const requestInit = { headers: { Authorization: `Bearer ${token}` } };
+
+  const clients = [];
+  for (let i = 0; i < 2; i++) {
+    const client = new Client({ name: `http-test-${i}`, version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), { requestInit }));
+    clients.push(client);
+  }
+  for (const client of clients) {
+    const { tools } = await client.listTools();
+    assert.ok(tools.some((t) => t.name === 'validate-syntax'));
+  }
+  console.log('✅ Two streamable HTTP sessions list tools independently');
+
+  const sseClient = new Client({ name: 'sse-test', version: '1.0.0' });
+  await sseClient.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`), {
+    requestInit,
+    eventSourceInit: { fetch: (url, init) => fetch(url, { ...init, headers: { ...init?.headers, ...requestInit.headers } }) },
+  }));
+  const result = await sseClient.callTool({ name: 'generate-pattern', arguments: { feature: 'zone' } });
+  assert.ok(result.content[0].text.includes('Generated Pattern: zone'));
+  console.log('✅ Legacy SSE transport calls tools');
+
+  // Graceful shutdown closes open sessions and exits cleanly
+  const exited = new Promise((resolve) => child.once('exit', (code, signal) => resolve({ code, signal })));
+  child.kill('SIGTERM');
+  const { code } = await exited;
+  assert.equal(code, 0);
+  console.log('✅ SIGTERM shuts the server down with exit code 0');
+
+  // Stop the clients from reconnecting to the stopped server
+  await Promise.allSettled([...clients, sseClient].map((client) => client.close()));
+} catch (error) {
+  console.error('❌ HTTP transport test failed:', error);
+  child.kill('SIGKILL');
+  process.exitCode = 1;
+}
+
+// Server-level guards, started in-process
+const createMcpServer = () => new Server({ name: 'idle-test', version: '1.0.0' }, { capabilities: {} });
+try {
+  await assert.rejects(startHttpServer(createMcpServer, { port: 0, host: '0.0.0.0' }), /without a token/);
+  console.log('✅ Binding beyond loopback without a token is refused');
+
+  const idle = await startHttpServer(createMcpServer, { port: 0, host: '127.0.0.1', sessionIdleMs: 200 });
+  try {
+    const host = new URL(idle.url).host;
+    const { status, sessionId } = await postInitialize(`${idle.url}/mcp`, host);
+    assert.equal(status, 200);
+    assert.ok(sessionId);
+    const ping = () => fetch(`${idle.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'mcp-session-id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+    });
+    assert.equal((await ping()).status, 200);
+    await new Promise((resolve) => setTimeout(resolve, 700));
+    assert.equal((await ping()).status, 400);
+    console.log('✅ Idle sessions are closed after the session timeout');
+  } finally {
+    await idle.close();
+  }
+} catch (error) {
+  console.error('❌ HTTP server guard test failed:', error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { validateSyntax } from '../dist/tool/validation.js';
+
+console.log('🧪 Testing validate-syntax fixes...');
+
+const fixed = (code) => validateSyntax(code, { fix: true });
+
+try {
+  // Service import: the declaration is replaced by the import, inline calls by the name
+  const services = fixed(`import { Workspace } from "@rbxts/services";
+const Players = game.GetService("Players");
+print(game.GetService("Lighting").ClockTime);
+`);
+  assert.equal(services.fix.output, `import { Workspace, Players, Lighting } from "@rbxts/services";
+print(Lighting.ClockTime);
+`);
+  assert.deepEqual(services.fix.edits.map((e) => [e.range.start.line, e.range.start.column, e.replacement]), [
+    [1, 19, ', Players, Lighting'],
+    [2, 1, ''],
+    [3, 7, 'Lighting'],
+  ]);
+  assert.ok(services.diagnostics.every((d) => d.fixed));
+
+  // Return types are inferred, but never written out as `any`
+  const returnTypes = fixed(`export function double(n: number) {
+	return n * 2;
+}
+export function loose(x: number) {
+	return x as any;
+}
+`);
+  assert.equal(returnTypes.fix.output, `export function double(n: number): number {
+	return n * 2;
+}
+export function loose(x: number) {
+	return x as any;
+}
+`);
+  assert.deepEqual(returnTypes.diagnostics.map((d) => d.fixed), [true, undefined]);
+
+  // pcall statements and `const [ok, result] = pcall(() => expr)` become try/catch;
+  // a destructured pcall around a block is left alone
+  const tryCatch = fixed(`pcall(() => print(1));
+const [ok, err] = pcall(() => {
+	print(2);
+});
+const [loaded, value] = pcall(() => compute());
+`);
+  assert.equal(tryCatch.fix.output, `try {
+  print(1);
+} catch (err) {
+  warn(err);
+}
+const [ok, err] = pcall(() => {
+	print(2);
+});
+let loaded = true;
+let value;
+try {
+  value = compute();
+} catch (err) {
+  loaded = false;
+  value = err;
+}
+`);
+  assert.deepEqual(tryCatch.diagnostics.map((d) => [d.range.start.line, d.fixed]), [[1, true], [2, undefined], [5, true]]);
+
+  // Nothing is rewritten when the source does not parse
+  const broken = fixed('const Players = game.GetService("Players")\nconst x = ;\n');
+  assert.deepEqual(broken.fix.edits, []);
+  console.log('Fixes OK: service imports, return types and try/catch');
+} catch (e) {
+  console.error('Lint fixes test failed', e);
+  process.exitCode = 1;
+}
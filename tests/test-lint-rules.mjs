@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { validateSyntax } from '../dist/tool/validation.js';
+import { loadLintConfig } from '../dist/tool/lint-config.js';
+
+console.log('🧪 Testing validate-syntax lint rules...');
+
+// [rule, severity, line, column] of each finding
+const findings = (code, options) =>
+  validateSyntax(code, options).diagnostics.map((d) => [d.rule, d.severity, d.range.start.line, d.range.start.column]);
+
+const tmp = await mkdtemp(join(tmpdir(), 'rbxts-lint-'));
+try {
+  // Strings and comments are ignored; an aliased `game` is still resolved
+  assert.deepEqual(findings(`// game.GetService("Players") in a comment
+const s = "game.GetService('Workspace')";
+const g = game;
+const p = g.GetService("Players");
+`), [['no-get-service', 'error', 4, 11]]);
+
+  // Library hints are silenced once the library is imported
+  assert.deepEqual(findings(`import Net from "@rbxts/net";
+const e = new Instance("RemoteEvent");
+`), []);
+
+  const result = validateSyntax(`const e = new Instance("RemoteEvent");
+const ds = game.GetService("DataStoreService");
+part.Touched.Connect(() => {});
+const f = new Instance("Frame");
+export function add(a, b: number) { return b; }
+pcall(() => print(1));
+`);
+  assert.deepEqual(result.diagnostics.map((d) => [d.rule, d.severity, d.range.start.line, d.range.start.column]), [
+    ['prefer-net', 'warning', 1, 11],
+    ['no-get-service', 'error', 2, 12],
+    ['prefer-profile-store', 'warning', 2, 12],
+    ['prefer-zone-plus', 'warning', 3, 6],
+    ['prefer-fusion', 'suggestion', 4, 11],
+    ['explicit-types', 'warning', 5, 17],
+    ['explicit-types', 'warning', 5, 21],
+    ['prefer-try-catch', 'suggestion', 6, 1],
+  ]);
+  assert.equal(result.valid, false);
+  assert.deepEqual(result.errors, ['2:12 Use @rbxts/services for service imports instead of game.GetService()']);
+  assert.ok(result.warnings.includes("5:21 Parameter 'a' has no type annotation"));
+  assert.deepEqual(result.diagnostics[1].range.end, { line: 2, column: 47 });
+
+  // Compiler syntax errors are reported as the `syntax` rule
+  const broken = validateSyntax('const unclosed = "oops;\n');
+  assert.equal(broken.valid, false);
+  assert.deepEqual(broken.diagnostics.map((d) => [d.rule, d.severity]), [['syntax', 'error']]);
+  console.log('Lint rules OK: AST findings with ranges, strings and comments ignored');
+
+  // .rbxts-mcp.json re-grades and disables rules; unknown ids are refused
+  assert.deepEqual(await loadLintConfig(tmp), { rules: {} });
+  await writeFile(join(tmp, '.rbxts-mcp.json'), JSON.stringify({ rules: { 'prefer-fusion': 'error', 'prefer-try-catch': 'off' } }));
+  const config = await loadLintConfig(tmp);
+  const regraded = validateSyntax('const f = new Instance("Frame");\npcall(() => print(1));\n', { config });
+  assert.deepEqual(regraded.diagnostics.map((d) => [d.rule, d.severity]), [['prefer-fusion', 'error']]);
+  assert.equal(regraded.valid, false);
+  await writeFile(join(tmp, '.rbxts-mcp.json'), JSON.stringify({ rules: { 'prefer-fusion': 'error', 'no-such-rule': 'off' } }));
+  await assert.rejects(loadLintConfig(tmp), /unknown rule\(s\) no-such-rule/);
+  await writeFile(join(tmp, '.rbxts-mcp.json'), JSON.stringify({ rules: { 'prefer-fusion': 'fatal' } }));
+  await assert.rejects(loadLintConfig(tmp), /Invalid \.rbxts-mcp\.json: rules\.prefer-fusion: /);
+  await writeFile(join(tmp, '.rbxts-mcp.json'), '{ rules: }');
+  await assert.rejects(loadLintConfig(tmp), /Invalid \.rbxts-mcp\.json/);
+  console.log('Lint config OK: per-rule severity, unknown rule ids refused');
+} catch (e) {
+  console.error('Lint rules test failed', e);
+  process.exitCode = 1;
+} finally {
+  await rm(tmp, { recursive: true, force: true });
+}
@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import { loadConfigFromEnv } from '../dist/roblox-cloud/config.js';
+import {
+  listDatastores,
+  listEntries,
+  incrementEntry,
+  deleteEntry,
+  restoreEntryVersion,
+  getEntry,
+  setEntry,
+} from '../dist/roblox-cloud/datastore.js';
+import { createHttpClient } from '../dist/roblox-cloud/http.js';
+import { listOrderedEntries, incrementOrderedEntry, createOrderedEntry } from '../dist/roblox-cloud/ordered-datastore.js';
+import { publish } from '../dist/roblox-cloud/messaging.js';
+import { startOpenCloudEmulator } from '../dist/roblox-cloud/emulator.js';
+import { handleRobloxCloudTool } from '../dist/tools/roblox-cloud.js';
+import { NotFoundError, PreconditionFailedError, InsufficientScopeError, RateLimitedError, requiredPermission } from '../dist/roblox-cloud/errors.js';
+
+console.log('🧪 Testing Open Cloud clients against the local emulator...');
+
+process.env.ROBLOX_API_KEY = 'test_key';
+process.env.ROBLOX_UNIVERSE_ID = '1234567890';
+// Tool calls go to the emulator and are not audited
+process.env.ROBLOX_AUDIT_LOG = 'off';
+const emulator = await startOpenCloudEmulator();
+process.env.ROBLOX_OPEN_CLOUD_BASE_URL = emulator.url;
+try {
+  const emuCfg = loadConfigFromEnv({ ...process.env, ROBLOX_MAX_RETRIES: '2' });
+  assert.equal(emuCfg.baseUrl, emulator.url);
+  const emu = createHttpClient(emuCfg, { auditLog: false });
+
+  const created = await setEntry(emu, emuCfg, 'Profiles', 'user_1', { coins: 1 }, { ifNoneMatch: '*', userIds: [1] });
+  await assert.rejects(
+    setEntry(emu, emuCfg, 'Profiles', 'user_1', { coins: 2 }, { ifNoneMatch: '*' }),
+    (e) => e.status === 412
+  );
+  const updated = await setEntry(emu, emuCfg, 'Profiles', 'user_1', { coins: 2 }, { ifMatch: created.etag });
+  await assert.rejects(setEntry(emu, emuCfg, 'Profiles', 'user_1', { coins: 3 }, { ifMatch: created.etag }), (e) => e.status === 412);
+  const fetched = await getEntry(emu, emuCfg, 'Profiles', 'user_1');
+  assert.deepEqual([fetched.data.value, fetched.data.etag], [{ coins: 2 }, updated.etag]);
+  await setEntry(emu, emuCfg, 'Profiles', 'user_2', { coins: 9 }, { scope: 'beta' });
+  assert.deepEqual((await listEntries(emu, emuCfg, { datastoreName: 'Profiles', allScopes: true })).keys, [
+    { scope: 'beta', key: 'user_2' },
+    { scope: 'global', key: 'user_1' },
+  ]);
+
+  const restored = await restoreEntryVersion(emu, emuCfg, 'Profiles', 'user_1', created.etag.replace(/"/g, ''));
+  assert.equal(restored.previousEtag, updated.etag);
+  assert.deepEqual((await getEntry(emu, emuCfg, 'Profiles', 'user_1')).data.value, { coins: 1 });
+  await deleteEntry(emu, emuCfg, 'Profiles', 'user_1');
+  await assert.rejects(getEntry(emu, emuCfg, 'Profiles', 'user_1'), (e) => e.status === 404);
+  assert.equal((await incrementEntry(emu, emuCfg, 'Counters', 'visits', 5)).value, 5);
+
+  await createOrderedEntry(emu, emuCfg, 'Kills', 'a', 3);
+  await createOrderedEntry(emu, emuCfg, 'Kills', 'b', 10);
+  await incrementOrderedEntry(emu, emuCfg, 'Kills', 'c', 7);
+  const ranked = await listOrderedEntries(emu, emuCfg, 'Kills', { descending: true, min: 5 });
+  assert.deepEqual(ranked.entries.map((e) => `${e.id}=${e.value}`), ['b=10', 'c=7']);
+
+  await publish(emu, emuCfg, 'Announcements', { text: 'hi' });
+  assert.deepEqual(emulator.state.messages.get('Announcements'), ['{"text":"hi"}']);
+  console.log('Emulator OK: ETags, scopes, versions, ordered entries and messaging');
+
+  // maxPages returns the pages' items together; progress notifications only report progress
+  for (const key of ['a', 'b', 'c']) await setEntry(emu, emuCfg, 'Paged', key, 1);
+  const notifications = [];
+  const extra = { _meta: { progressToken: 'p' }, sendNotification: async (n) => notifications.push(n) };
+  const listArgs = { datastoreName: 'Paged', limit: 1, maxPages: 5 };
+  const listed = JSON.parse((await handleRobloxCloudTool('robloxcloud-ds-list-entries', listArgs, extra)).content[0].text);
+  assert.deepEqual(listed.keys.map((k) => k.key), ['a', 'b', 'c']);
+  assert.equal(listed.pages, 3);
+  assert.equal(listed.nextPageCursor, undefined);
+  assert.equal(listed.note, undefined);
+  assert.deepEqual(notifications.map((n) => n.params.progress), [1, 2, 3]);
+  assert.ok(notifications.every((n) => !('items' in n.params)));
+  const withoutToken = JSON.parse((await handleRobloxCloudTool('robloxcloud-ds-list-entries', listArgs)).content[0].text);
+  assert.deepEqual(withoutToken, listed);
+  const capped = JSON.parse((await handleRobloxCloudTool('robloxcloud-ds-list-entries', { ...listArgs, maxPages: 2 })).content[0].text);
+  assert.deepEqual(capped.keys.map((k) => k.key), ['a', 'b']);
+  assert.ok(capped.nextPageCursor);
+  assert.match(capped.note, /Stopped after 2 pages/);
+  const rest = JSON.parse((await handleRobloxCloudTool('robloxcloud-ds-list-entries', { ...listArgs, cursor: capped.nextPageCursor })).content[0].text);
+  assert.deepEqual(rest.keys.map((k) => k.key), ['c']);
+  console.log('Auto-pagination OK: pages returned together up to maxPages, with a cursor and note when pages are left');
+
+  // Fault injection drives the retry logic deterministically
+  const path = '/standard-datastores';
+  emulator.injectFault({ status: 429, retryAfter: 0, path, times: 2 });
+  let before = emulator.state.requests.length;
+  assert.deepEqual((await listDatastores(emu, emuCfg)).datastores, ['Counters', 'Paged', 'Profiles']);
+  assert.deepEqual(emulator.state.requests.slice(before).map((r) => r.status), [429, 429, 200]);
+
+  emulator.injectFault({ status: 503, retryAfter: 0, path, times: 5 });
+  before = emulator.state.requests.length;
+  await assert.rejects(listDatastores(emu, emuCfg), (e) => e.status === 503);
+  assert.equal(emulator.state.requests.length - before, 3);
+  emulator.clearFaults();
+
+  emulator.injectFault({ delayMs: 200, path });
+  const slow = createHttpClient({ ...emuCfg, timeoutMs: 50, maxRetries: 0 }, { auditLog: false });
+  await assert.rejects(listDatastores(slow, emuCfg), /network error/);
+  console.log('Emulator fault injection OK: 429 retried, 5xx gave up after maxRetries, latency timed out');
+
+  // Writes are retried only when a precondition makes the replay safe
+  const entryPath = '/entries/entry';
+  const current = await getEntry(emu, emuCfg, 'Profiles', 'user_2', 'beta');
+  emulator.injectFault({ method: 'POST', status: 429, retryAfter: new Date(Date.now() - 1000).toUTCString(), path: entryPath });
+  before = emulator.state.requests.length;
+  await setEntry(emu, emuCfg, 'Profiles', 'user_2', { coins: 10 }, { scope: 'beta', ifMatch: current.data.etag });
+  assert.deepEqual(emulator.state.requests.slice(before).map((r) => r.status), [429, 200]);
+  emulator.injectFault({ method: 'POST', status: 503, path: entryPath });
+  await assert.rejects(setEntry(emu, emuCfg, 'Profiles', 'user_3', { coins: 1 }), (e) => e.status === 503);
+  emulator.injectFault({ method: 'GET', status: 503, path: entryPath });
+  await assert.rejects(emu.get(`/datastores/v1/universes/${emuCfg.universeId}/standard-datastores/datastore/Profiles/entries/entry`, {
+    params: { key: 'user_2', scope: 'beta' },
+    retry: { maxAttempts: 1 },
+  }), (e) => e.status === 503);
+  console.log('Retry policy OK: precondition writes retried, plain writes and maxAttempts 1 not');
+
+  // Failed responses become typed errors with hints, and MCP errors in tools
+  await assert.rejects(getEntry(emu, emuCfg, 'Profiles', 'missing'), (e) => e instanceof NotFoundError && e.code === 'NOT_FOUND');
+  await assert.rejects(
+    setEntry(emu, emuCfg, 'Profiles', 'user_2', { coins: 0 }, { scope: 'beta', ifMatch: '"stale"' }),
+    (e) => e instanceof PreconditionFailedError && /read it again/.test(e.hint)
+  );
+  emulator.injectFault({ status: 403, path: entryPath });
+  await assert.rejects(
+    getEntry(emu, emuCfg, 'Profiles', 'user_2', 'beta'),
+    (e) => e instanceof InsufficientScopeError && e.permission === 'universe-datastores.objects:read'
+  );
+  emulator.injectFault({ status: 429, retryAfter: 0, path: entryPath, times: 3 });
+  await assert.rejects(getEntry(emu, emuCfg, 'Profiles', 'user_2', 'beta'), (e) => e instanceof RateLimitedError && e.retryAfterMs === 0);
+  assert.equal(requiredPermission('POST', '/messaging-service/v1/universes/1/topics/t'), 'universe-messaging-service:publish');
+  assert.equal(
+    requiredPermission('GET', '/datastores/v1/universes/1/standard-datastores/datastore/P/entries/entry/versions/version'),
+    'universe-datastores.versions:read'
+  );
+
+  await assert.rejects(
+    handleRobloxCloudTool('robloxcloud-ds-get', { datastoreName: 'Profiles', key: 'missing' }),
+    (e) => e.code === -32602 && e.data.kind === 'not_found' && /Check the universe ID/.test(e.message)
+  );
+  emulator.injectFault({ status: 401, path: entryPath });
+  await assert.rejects(
+    handleRobloxCloudTool('robloxcloud-ds-get', { datastoreName: 'Profiles', key: 'user_2', scope: 'beta' }),
+    (e) => e.code === -32600 && e.data.kind === 'unauthorized'
+  );
+  console.log('Typed errors OK: not found, precondition, scope and rate limit errors with hints and MCP codes');
+
+} catch (e) {
+  console.error('Open Cloud emulator test failed', e);
+  process.exitCode = 1;
+} finally {
+  await emulator.close();
+}
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadProjectContext, inferBuildTarget, resolveDataModelLocation } from '../dist/project/context.js';
+import { parseRojoProject, collectPathMappings } from '../dist/project/rojo.js';
+
+console.log('🧪 Testing project context...');
+
+const root = await mkdtemp(join(tmpdir(), 'rbxts-project-'));
+try {
+  await writeFile(join(root, 'tsconfig.json'), `{
+    // comments are allowed in tsconfig
+    "compilerOptions": { "rootDir": "src", "outDir": "out" }
+  }`);
+  await writeFile(join(root, 'package.json'), JSON.stringify({
+    name: 'my-game',
+    dependencies: { '@rbxts/services': '^1.5.0', '@rbxts/net': '^3.0.0', lodash: '^4.0.0' },
+    devDependencies: { '@rbxts/types': '^1.0.0' },
+  }));
+  await writeFile(join(root, 'default.project.json'), JSON.stringify({
+    name: 'my-game',
+    tree: {
+      $className: 'DataModel',
+      ServerScriptService: { $className: 'ServerScriptService', TS: { $path: 'out/server' } },
+      StarterPlayer: {
+        $className: 'StarterPlayer',
+        StarterPlayerScripts: { $className: 'StarterPlayerScripts', TS: { $path: 'out/client' } },
+      },
+      ReplicatedStorage: { $className: 'ReplicatedStorage', TS: { $path: 'out/shared' } },
+    },
+  }));
+  await mkdir(join(root, 'node_modules', '@rbxts', 'services'), { recursive: true });
+  await writeFile(join(root, 'node_modules', '@rbxts', 'services', 'package.json'), JSON.stringify({ version: '1.5.4' }));
+
+  const ctx = await loadProjectContext(root);
+  assert.equal(ctx.name, 'my-game');
+  assert.deepEqual(ctx.problems, []);
+  assert.deepEqual(ctx.packages['@rbxts/services'], { declared: '^1.5.0', installed: '1.5.4', dev: false });
+  assert.deepEqual(ctx.packages['@rbxts/net'], { declared: '^3.0.0', installed: undefined, dev: false });
+  assert.equal(ctx.packages['@rbxts/types'].dev, true);
+  assert.equal(ctx.packages.lodash, undefined);
+  console.log('✅ package.json, tsconfig.json and installed versions are read');
+
+  assert.equal(inferBuildTarget(ctx, 'src/server/data.ts').target, 'server');
+  assert.equal(inferBuildTarget(ctx, 'src/client/ui/hud.tsx').target, 'client');
+  assert.deepEqual(inferBuildTarget(ctx, 'src/client/ui/hud.tsx').instancePath, ['StarterPlayer', 'StarterPlayerScripts', 'TS', 'ui', 'hud']);
+  assert.equal(inferBuildTarget(ctx, 'src/shared/util.ts').target, 'shared');
+  assert.equal(inferBuildTarget(ctx, 'src/shared/boot.client.ts').target, 'client');
+  assert.equal(inferBuildTarget(ctx, 'src/other/thing.ts'), undefined);
+  console.log('✅ Build targets are inferred from Rojo mappings and file suffixes');
+
+  assert.deepEqual(resolveDataModelLocation(ctx, 'src/server/main.server.ts'), {
+    instancePath: ['ServerScriptService', 'TS', 'main'],
+    scriptClass: 'Script',
+    syncedPath: 'out/server/main.server.luau',
+  });
+  assert.deepEqual(resolveDataModelLocation(ctx, 'src/shared/net/init.ts').instancePath, ['ReplicatedStorage', 'TS', 'net']);
+  assert.deepEqual(resolveDataModelLocation(ctx, 'src/server/foo/index.ts'), {
+    instancePath: ['ServerScriptService', 'TS', 'foo'],
+    scriptClass: 'ModuleScript',
+    syncedPath: 'out/server/foo/init.luau',
+  });
+  assert.deepEqual(resolveDataModelLocation(ctx, 'src/client/app/index.client.tsx').syncedPath, 'out/client/app/init.client.luau');
+  assert.deepEqual(resolveDataModelLocation(ctx, 'src/client/app/index.client.tsx').instancePath, ['StarterPlayer', 'StarterPlayerScripts', 'TS', 'app']);
+  assert.deepEqual(resolveDataModelLocation(ctx, 'src/shared/types.d.ts').instancePath, ['ReplicatedStorage', 'TS', 'types']);
+  assert.equal(inferBuildTarget(ctx, 'src/server/foo/index.ts').reason, 'mapped to ServerScriptService.TS.foo by default.project.json');
+  assert.equal(resolveDataModelLocation(ctx, 'README.md'), undefined);
+  console.log('✅ Files resolve to DataModel locations and script classes');
+
+  const project = parseRojoProject({
+    name: 'nested',
+    tree: {
+      ReplicatedStorage: {
+        $className: 'ReplicatedStorage',
+        $properties: { Archivable: true },
+        Assets: { $path: { optional: './assets/' } },
+      },
+    },
+  });
+  assert.equal(project.tree.className, 'DataModel');
+  assert.equal(project.tree.children[0].properties.Archivable, true);
+  assert.deepEqual(collectPathMappings(project.tree), [{ instancePath: ['ReplicatedStorage', 'Assets'], fsPath: 'assets', className: undefined }]);
+  assert.throws(() => parseRojoProject({ name: 'bad', tree: { Workspace: { $className: 5 } } }), /tree\.Workspace\.\$className must be a string/);
+  assert.throws(() => parseRojoProject({ tree: {} }), /Invalid default\.project\.json: name/);
+  console.log('✅ Rojo project files are parsed into a typed tree');
+
+  await writeFile(join(root, 'package.json'), '{ not json');
+  const broken = await loadProjectContext(root);
+  assert.equal(broken.problems.length, 1);
+  assert.ok(broken.problems[0].startsWith('package.json:'));
+  console.log('✅ Unparseable files are reported as problems');
+} catch (error) {
+  console.error('❌ Project context test failed:', error);
+  process.exitCode = 1;
+} finally {
+  await rm(root, { recursive: true, force: true });
+}
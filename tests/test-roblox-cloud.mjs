@@ -1,8 +1,35 @@
 import assert from 'node:assert/strict';
-import { loadConfigFromEnv } from '../dist/roblox-cloud/config.js';
-import { listDatastores } from '../dist/roblox-cloud/datastore.js';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfigFromEnv, loadProfilesFromEnv, loadProfileConfig } from '../dist/roblox-cloud/config.js';
+import {
+  listDatastores,
+  listEntries,
+  iterateEntries,
+  incrementEntry,
+  deleteEntry,
+  restoreEntryVersion,
+  getEntry,
+  setEntry,
+  contentMd5,
+} from '../dist/roblox-cloud/datastore.js';
+import { publishPlace } from '../dist/roblox-cloud/places.js';
+import { createHttpClient } from '../dist/roblox-cloud/http.js';
+import { DryRunInterrupt, WriteBlockedError, CONFIRM_TOKEN_TTL_MS, confirmToken, verifyConfirmToken } from '../dist/roblox-cloud/guard.js';
+import { queryAuditLog, auditTarget } from '../dist/roblox-cloud/audit.js';
+import { runLuauScript } from '../dist/roblox-cloud/luau-execution.js';
+import { createSortedMapItem, readQueueItems, enqueueItem } from '../dist/roblox-cloud/memorystore.js';
+import { listOrderedEntries, incrementOrderedEntry, updateOrderedEntry } from '../dist/roblox-cloud/ordered-datastore.js';
+import { handleRobloxCloudTool } from '../dist/tools/roblox-cloud.js';
+import { MAX_RETRY_AFTER_MS, parseRetryAfter, parseRateLimitHeaders, rateLimitKey, resetRateLimits } from '../dist/roblox-cloud/rate-limit.js';
+import { RateLimitedError } from '../dist/roblox-cloud/errors.js';
 
 console.log('Open Cloud tests placeholder - run after build.');
+const tmp = await mkdtemp(join(tmpdir(), 'rbxts-cloud-'));
+const auditLog = join(tmp, 'audit.jsonl');
+// Keep test requests out of the real audit log
+process.env.ROBLOX_AUDIT_LOG = auditLog;
 try {
   process.env.ROBLOX_API_KEY = 'test_key';
   process.env.ROBLOX_UNIVERSE_ID = '1234567890';
@@ -11,6 +38,47 @@ try {
   assert.equal(cfg.universeId, '1234567890');
   console.log('Config load OK');
 
+  // Named profiles from env vars and a profiles file
+  const profileDir = join(tmp, 'profiles');
+  await mkdir(profileDir);
+  const profilesFile = join(profileDir, 'profiles.json');
+  await writeFile(profilesFile, JSON.stringify({
+    defaultProfile: 'staging',
+    profiles: {
+      staging: { apiKeyEnv: 'STAGING_KEY', universeId: '200', scope: 'staging' },
+      prod: { universeId: '300' },
+    },
+  }));
+  const env = {
+    ROBLOX_PROFILES_FILE: profilesFile,
+    STAGING_KEY: 'staging_secret_key',
+    ROBLOX_PROFILE_PROD_API_KEY: 'prod_secret_key',
+    ROBLOX_PROFILE_MY_DEV_API_KEY: 'dev_secret_key',
+    ROBLOX_PROFILE_MY_DEV_UNIVERSE_ID: '100',
+    ROBLOX_MAX_RETRIES: '1',
+  };
+  const { profiles, defaultProfile } = loadProfilesFromEnv(env);
+  assert.equal(defaultProfile, 'staging');
+  assert.deepEqual(profiles.map((p) => `${p.name}:${p.source}:${p.universeId}`), ['my_dev:env:100', 'prod:env:300', 'staging:file:200']);
+
+  const staging = loadProfileConfig(undefined, env);
+  assert.deepEqual(staging, {
+    apiKey: 'staging_secret_key',
+    universeId: '200',
+    defaultScope: 'staging',
+    timeoutMs: 15000,
+    maxRetries: 1,
+    baseUrl: undefined,
+    profile: 'staging',
+    readOnly: false,
+    protected: false,
+  });
+  assert.equal(loadProfileConfig('PROD', env).apiKey, 'prod_secret_key');
+  assert.equal(loadProfileConfig('my_dev', env).universeId, '100');
+  assert.throws(() => loadProfileConfig('qa', env), /Unknown Open Cloud profile "qa" \(configured: my_dev, prod, staging\)/);
+  assert.equal(loadProfileConfig(undefined, { ROBLOX_API_KEY: 'k', ROBLOX_UNIVERSE_ID: '1' }).universeId, '1');
+  console.log('Profiles OK: env vars, profiles file and default profile');
+
   // Unit test: listDatastores with stubbed HttpClient (no real network)
   const stubHttp = {
     async get(url, { params } = {}) {
@@ -40,7 +108,402 @@ try {
   assert.ok(Array.isArray(listRes.datastores));
   assert.deepEqual(listRes.datastores, ['PlayerData', 'Inventory', 'Settings']);
   console.log('List datastores OK:', listRes.datastores.join(', '));
+
+  // Cursor pagination: three pages of entry keys, served by cursor
+  const pages = {
+    '': { keys: [{ scope: 'global', key: 'a' }], nextPageCursor: 'c1' },
+    c1: { keys: [{ scope: 'global', key: 'b' }], nextPageCursor: 'c2' },
+    c2: { keys: [{ scope: 'global', key: 'c' }], nextPageCursor: '' },
+  };
+  const requests = [];
+  const pagedHttp = {
+    async get(url, { params } = {}) {
+      assert.ok(String(url).endsWith('/standard-datastores/datastore/entries'));
+      requests.push(params);
+      return { data: pages[params.cursor ?? ''], headers: {}, status: 200, config: { method: 'get' } };
+    },
+  };
+
+  const first = await listEntries(/** @type {any} */ (pagedHttp), cfg, { datastoreName: 'PlayerData', prefix: 'user_' });
+  assert.deepEqual(first, { success: true, keys: [{ scope: 'global', key: 'a' }], nextPageCursor: 'c1' });
+  assert.deepEqual(requests[0], { datastoreName: 'PlayerData', scope: 'global', prefix: 'user_' });
+  const last = await listEntries(/** @type {any} */ (pagedHttp), cfg, { datastoreName: 'PlayerData', allScopes: true, cursor: 'c2' });
+  assert.equal(last.nextPageCursor, undefined);
+  assert.deepEqual(requests[1], { datastoreName: 'PlayerData', AllScopes: true, cursor: 'c2' });
+  const both = await listEntries(/** @type {any} */ (pagedHttp), cfg, { datastoreName: 'PlayerData', allScopes: true, scope: 'x' });
+  assert.equal(both.success, false);
+  console.log('List entries OK: cursor and scope params');
+
+  const collect = async (opts) => {
+    const seen = [];
+    for await (const page of iterateEntries(/** @type {any} */ (pagedHttp), cfg, { datastoreName: 'PlayerData', ...opts })) {
+      seen.push(page);
+    }
+    return seen;
+  };
+  const capped = await collect({ maxPages: 2 });
+  assert.deepEqual(capped.map((p) => p.items[0].key), ['a', 'b']);
+  assert.equal(capped[1].nextPageCursor, 'c2');
+  const all = await collect({ maxPages: 10 });
+  assert.deepEqual(all.map((p) => p.items[0].key), ['a', 'b', 'c']);
+  assert.equal(all[2].nextPageCursor, undefined);
+  const resumed = await collect({ maxPages: 10, cursor: 'c2' });
+  assert.deepEqual(resumed.map((p) => p.items[0].key), ['c']);
+  console.log('Auto-pagination OK: stops at maxPages or the last page');
+
+  // Entry writes: record every call so headers and params can be checked
+  const calls = [];
+  let current = { status: 200, value: { coins: 5 }, etag: '"v3"' };
+  const entryHttp = {
+    async get(url, { params } = {}) {
+      calls.push({ method: 'get', url, params });
+      if (url.endsWith('/versions/version')) {
+        return { data: JSON.stringify('old-name'), headers: {}, status: 200 };
+      }
+      if (current.status === 404) {
+        throw Object.assign(new Error('Open Cloud error 404'), { status: 404 });
+      }
+      return { data: current.value, headers: { etag: current.etag }, status: 200 };
+    },
+    async post(url, body, { params, headers } = {}) {
+      calls.push({ method: 'post', url, body, params, headers });
+      if (url.endsWith('/increment')) return { data: '12', headers: { etag: '"v4"' }, status: 200 };
+      return { data: '', headers: { etag: '"v9"' }, status: 200 };
+    },
+    async delete(url, { params, headers } = {}) {
+      calls.push({ method: 'delete', url, params, headers });
+      return { data: '', headers: {}, status: 204 };
+    },
+  };
+
+  const inc = await incrementEntry(/** @type {any} */ (entryHttp), cfg, 'Stats', 'kills', 2);
+  assert.deepEqual(inc, { success: true, value: 12, etag: '"v4"' });
+  assert.deepEqual(calls.at(-1).params, { key: 'kills', scope: 'global', incrementBy: 2 });
+  assert.equal((await incrementEntry(/** @type {any} */ (entryHttp), cfg, 'Stats', 'kills', 1.5)).success, false);
+
+  await deleteEntry(/** @type {any} */ (entryHttp), cfg, 'Stats', 'kills', { scope: 'beta', ifMatch: '"v4"' });
+  assert.deepEqual(calls.at(-1).params, { key: 'kills', scope: 'beta' });
+  assert.equal(calls.at(-1).headers['If-Match'], '"v4"');
+  console.log('Increment and delete OK');
+
+  calls.length = 0;
+  const restored = await restoreEntryVersion(/** @type {any} */ (entryHttp), cfg, 'Profiles', 'user_1', 'VER1');
+  assert.deepEqual(restored, { success: true, restoredVersion: 'VER1', previousEtag: '"v3"', etag: '"v9"' });
+  const write = calls.find((c) => c.method === 'post');
+  assert.equal(write.body, '"old-name"');
+  assert.equal(write.headers['If-Match'], '"v3"');
+  assert.equal(calls[0].params.versionId, 'VER1');
+
+  calls.length = 0;
+  current = { status: 404 };
+  await restoreEntryVersion(/** @type {any} */ (entryHttp), cfg, 'Profiles', 'user_1', 'VER1');
+  const recreate = calls.find((c) => c.method === 'post');
+  assert.equal(recreate.headers['If-None-Match'], '*');
+  assert.equal(recreate.headers['If-Match'], undefined);
+  console.log('Restore version OK: guarded with If-Match, or If-None-Match when deleted');
+
+  // Entry metadata and content-md5
+  const stored = '{"coins":5}';
+  let storedMd5 = contentMd5(stored);
+  const metaHttp = {
+    async get(url, config) {
+      assert.equal(config.responseType, 'text');
+      return {
+        data: stored,
+        headers: {
+          etag: '"v1"',
+          'content-md5': storedMd5,
+          'roblox-entry-userids': '[123, 456]',
+          'roblox-entry-attributes': '{"region":"eu"}',
+        },
+        status: 200,
+      };
+    },
+    async post(url, body, { headers }) {
+      calls.push({ body, headers });
+      return { data: '', headers: {}, status: 200 };
+    },
+  };
+  const got = await getEntry(/** @type {any} */ (metaHttp), cfg, 'Profiles', 'user_123');
+  assert.deepEqual(got.data, {
+    value: { coins: 5 },
+    etag: '"v1"',
+    userIds: [123, 456],
+    attributes: { region: 'eu' },
+    contentMd5: storedMd5,
+  });
+  storedMd5 = contentMd5('tampered');
+  const corrupt = await getEntry(/** @type {any} */ (metaHttp), cfg, 'Profiles', 'user_123');
+  assert.equal(corrupt.success, false);
+  assert.match(corrupt.error, /content-md5 mismatch/);
+
+  calls.length = 0;
+  await setEntry(/** @type {any} */ (metaHttp), cfg, 'Profiles', 'user_123', { coins: 5 }, { userIds: [123], attributes: { region: 'eu' } });
+  assert.equal(calls[0].headers['content-md5'], contentMd5(stored));
+  assert.equal(calls[0].headers['roblox-entry-userids'], '[123]');
+  assert.equal(calls[0].headers['roblox-entry-attributes'], '{"region":"eu"}');
+  const tooMany = await setEntry(/** @type {any} */ (metaHttp), cfg, 'Profiles', 'k', 1, { userIds: [1, 2, 3, 4, 5] });
+  assert.equal(tooMany.success, false);
+  console.log('Entry metadata OK: user IDs, attributes and content-md5 round-trip');
+
+  // Ordered data stores
+  const odsCalls = [];
+  const entry = (id, value) => ({ path: `universes/1/orderedDataStores/Kills/scopes/global/entries/${id}`, id, value });
+  const odsHttp = {
+    async get(url, { params } = {}) {
+      odsCalls.push({ method: 'get', url, params });
+      return { data: { entries: [entry('a', '30'), entry('b', 20)], nextPageToken: 'next' }, headers: {}, status: 200 };
+    },
+    async post(url, body) {
+      odsCalls.push({ method: 'post', url, body });
+      return { data: entry('a', 35), headers: {}, status: 200 };
+    },
+    async patch(url, body, { params } = {}) {
+      odsCalls.push({ method: 'patch', url, body, params });
+      return { data: entry('a', body.value), headers: {}, status: 200 };
+    },
+  };
+  const board = await listOrderedEntries(/** @type {any} */ (odsHttp), cfg, 'Kills', { descending: true, min: 10, max: 50, limit: 2 });
+  assert.deepEqual(board.entries.map((e) => [e.id, e.value]), [['a', 30], ['b', 20]]);
+  assert.equal(board.nextPageCursor, 'next');
+  assert.ok(odsCalls[0].url.endsWith(`/ordered-data-stores/v1/universes/${cfg.universeId}/orderedDataStores/Kills/scopes/global/entries`));
+  assert.deepEqual(odsCalls[0].params, { order_by: 'desc', filter: 'entry >= 10 && entry <= 50', max_page_size: 2 });
+  assert.equal((await listOrderedEntries(/** @type {any} */ (odsHttp), cfg, 'Kills', { min: 5, max: 1 })).success, false);
+
+  const bumped = await incrementOrderedEntry(/** @type {any} */ (odsHttp), cfg, 'Kills', 'a', 5);
+  assert.equal(bumped.entry.value, 35);
+  assert.ok(odsCalls.at(-1).url.endsWith('/entries/a:increment'));
+  assert.deepEqual(odsCalls.at(-1).body, { amount: 5 });
+  await updateOrderedEntry(/** @type {any} */ (odsHttp), cfg, 'Kills', 'a', 7, { allowMissing: true });
+  assert.deepEqual(odsCalls.at(-1).params, { allow_missing: true });
+  assert.equal((await updateOrderedEntry(/** @type {any} */ (odsHttp), cfg, 'Kills', 'a', 1.5)).success, false);
+  console.log('Ordered data store OK: list filters, increment and update');
+
+  // MemoryStore sorted maps and queues
+  const msCalls = [];
+  const msHttp = {
+    async get(url, { params, ...config } = {}) {
+      msCalls.push({ url, params, config });
+      return { data: { readId: 'r1', data: [{ match: 1 }] }, headers: {}, status: 200 };
+    },
+    async post(url, body, { params } = {}) {
+      msCalls.push({ url, body, params });
+      return { data: { path: 'p', id: params?.id, value: body.value }, headers: {}, status: 200 };
+    },
+  };
+  const created = await createSortedMapItem(/** @type {any} */ (msHttp), cfg, 'Lobbies', 'lobby_1', { value: { size: 4 }, ttlSeconds: 60, sortKey: 4 });
+  assert.equal(created.success, true);
+  assert.deepEqual(msCalls[0].body, { value: { size: 4 }, ttl: '60s', numericSortKey: 4 });
+  assert.deepEqual(msCalls[0].params, { id: 'lobby_1' });
+  assert.ok(msCalls[0].url.endsWith(`/cloud/v2/universes/${cfg.universeId}/memory-store/sorted-maps/Lobbies/items`));
+
+  const big = 'x'.repeat(33 * 1024);
+  assert.match((await createSortedMapItem(/** @type {any} */ (msHttp), cfg, 'Lobbies', 'k', { value: big, ttlSeconds: 60 })).error, /too large/);
+  assert.match((await createSortedMapItem(/** @type {any} */ (msHttp), cfg, 'Lobbies', 'k'.repeat(129), { value: 1, ttlSeconds: 60 })).error, /Key/);
+  assert.match((await createSortedMapItem(/** @type {any} */ (msHttp), cfg, 'Lobbies', 'k', { value: 1, ttlSeconds: 46 * 86400 })).error, /ttlSeconds/);
+  assert.match((await enqueueItem(/** @type {any} */ (msHttp), cfg, 'Matchmaking', big, { ttlSeconds: 60 })).error, /too large/);
+  assert.equal(msCalls.length, 1);
+
+  const read = await readQueueItems(/** @type {any} */ (msHttp), cfg, 'Matchmaking', { count: 5, invisibilityWindowSeconds: 10 });
+  assert.deepEqual(read, { success: true, readId: 'r1', items: [{ match: 1 }] });
+  assert.ok(msCalls.at(-1).url.endsWith('/queues/Matchmaking/items:read'));
+  assert.deepEqual(msCalls.at(-1).params, { count: 5, invisibilityWindow: '10s' });
+  // A read hides the items it returns, so it is guarded as a write and never retried
+  assert.deepEqual(msCalls.at(-1).config, { mutating: true, retry: { idempotent: false } });
+  assert.equal((await readQueueItems(/** @type {any} */ (msHttp), cfg, 'Matchmaking', { count: 201 })).success, false);
+  process.env.ROBLOX_READ_ONLY = 'true';
+  process.env.ROBLOX_AUDIT_LOG = 'off';
+  try {
+    await assert.rejects(
+      handleRobloxCloudTool('robloxcloud-ms-queue-read', { queue: 'Matchmaking' }),
+      (e) => e.code === -32600 && /read-only; GET .*\/queues\/Matchmaking\/items:read/.test(e.message)
+    );
+  } finally {
+    delete process.env.ROBLOX_READ_ONLY;
+    process.env.ROBLOX_AUDIT_LOG = auditLog;
+  }
+  console.log('MemoryStore OK: sorted map writes, queue reads and size limits');
+
+  // Place publishing
+  const placeDir = join(tmp, 'place');
+  await mkdir(placeDir);
+  const uploads = [];
+  const placeHttp = {
+    async post(url, body, { params, headers }) {
+      uploads.push({ url, body, params, headers });
+      return { data: { versionNumber: 42 }, headers: {}, status: 200 };
+    },
+  };
+  await writeFile(join(placeDir, 'game.rbxlx'), '<roblox></roblox>');
+  await writeFile(join(placeDir, 'game.txt'), 'nope');
+  const published = await publishPlace(/** @type {any} */ (placeHttp), cfg, join(placeDir, 'game.rbxlx'), '99', 'Published');
+  assert.deepEqual(published, { success: true, versionNumber: 42 });
+  assert.equal(uploads[0].url, `/universes/v1/${cfg.universeId}/places/99/versions`);
+  assert.deepEqual(uploads[0].params, { versionType: 'Published' });
+  assert.equal(uploads[0].headers['Content-Type'], 'application/xml');
+  assert.equal(uploads[0].body.toString(), '<roblox></roblox>');
+  assert.match((await publishPlace(/** @type {any} */ (placeHttp), cfg, join(placeDir, 'game.txt'), '99', 'Saved')).error, /expected \.rbxl/);
+  assert.match((await publishPlace(/** @type {any} */ (placeHttp), cfg, join(placeDir, 'missing.rbxl'), '99', 'Saved')).error, /Cannot read/);
+  assert.equal(uploads.length, 1);
+  process.env.MCP_PROJECT_ROOT = placeDir;
+  try {
+    await assert.rejects(
+      handleRobloxCloudTool('robloxcloud-place-publish', { filePath: '../outside.rbxl', placeId: '99', versionType: 'Saved' }),
+      (e) => e.code === -32602 && /inside the project/.test(e.message)
+    );
+  } finally {
+    delete process.env.MCP_PROJECT_ROOT;
+  }
+  console.log('Place publish OK: extension and size checked before upload, paths kept inside the project');
+
+  // Luau execution: queued -> processing -> complete, then logs
+  const taskPath = `universes/${cfg.universeId}/places/99/luau-execution-sessions/s/tasks/t`;
+  const states = ['PROCESSING', 'COMPLETE'];
+  const luauCalls = [];
+  const luauHttp = {
+    async post(url, body) {
+      luauCalls.push({ url, body });
+      return { data: { path: taskPath, state: 'QUEUED' }, headers: {}, status: 200 };
+    },
+    async get(url, { params } = {}) {
+      luauCalls.push({ url, params });
+      if (url.endsWith('/logs')) {
+        return params.pageToken
+          ? { data: { luauExecutionSessionTaskLogs: [{ messages: ['done'] }] }, headers: {}, status: 200 }
+          : { data: { luauExecutionSessionTaskLogs: [{ messages: ['hello'] }], nextPageToken: 'p2' }, headers: {}, status: 200 };
+      }
+      const state = states.shift();
+      return { data: { path: taskPath, state, output: state === 'COMPLETE' ? { results: [3] } : undefined }, headers: {}, status: 200 };
+    },
+  };
+  const ran = await runLuauScript(/** @type {any} */ (luauHttp), cfg, { placeId: '99', script: 'print("hello") return 1 + 2', timeoutSeconds: 30, pollIntervalMs: 1 });
+  assert.deepEqual(ran.result, { taskPath, state: 'COMPLETE', results: [3], logs: ['hello', 'done'], error: undefined });
+  assert.equal(luauCalls[0].url, `/cloud/v2/universes/${cfg.universeId}/places/99/luau-execution-session-tasks`);
+  assert.deepEqual(luauCalls[0].body, { script: 'print("hello") return 1 + 2', timeout: '30s' });
+  assert.equal(luauCalls[1].url, `/cloud/v2/${taskPath}`);
+
+  const stuckHttp = { ...luauHttp, async get() { return { data: { path: taskPath, state: 'PROCESSING' }, headers: {}, status: 200 }; } };
+  const stuck = await runLuauScript(/** @type {any} */ (stuckHttp), cfg, { placeId: '99', script: 'while true do end', pollTimeoutMs: 20, pollIntervalMs: 5 });
+  assert.equal(stuck.success, false);
+  assert.match(stuck.error, /still PROCESSING/);
+  console.log('Luau execution OK: polls to completion and collects logs');
+
+  // Write guard: the interceptor refuses mutations before anything is sent
+  const dryHttp = createHttpClient({ ...cfg, apiKey: 'secret_api_key' }, { dryRun: true });
+  const dry = await setEntry(dryHttp, cfg, 'Profiles', 'user_1', { coins: 1 }, { ifMatch: '"v1"' }).catch((e) => e);
+  assert.ok(dry instanceof DryRunInterrupt);
+  assert.equal(dry.request.method, 'POST');
+  assert.equal(dry.request.url, `https://apis.roblox.com/datastores/v1/universes/${cfg.universeId}/standard-datastores/datastore/Profiles/entries/entry?key=user_1&scope=global`);
+  assert.equal(dry.request.headers['x-api-key'], 'sec***key');
+  assert.equal(dry.request.body, '{"coins":1}');
+  assert.deepEqual(dry.request.preconditions, { 'If-Match': '"v1"' });
+
+  const readOnlyHttp = createHttpClient({ ...cfg, readOnly: true, profile: 'prod' });
+  const blocked = await deleteEntry(readOnlyHttp, cfg, 'Profiles', 'user_1').catch((e) => e);
+  assert.ok(blocked instanceof WriteBlockedError);
+  assert.match(blocked.message, /profile "prod" is read-only; DELETE/);
+  const unconfirmed = await deleteEntry(createHttpClient({ ...cfg, protected: true }), cfg, 'Profiles', 'user_1').catch((e) => e);
+  assert.ok(unconfirmed instanceof WriteBlockedError);
+  assert.match(unconfirmed.message, /protected/);
+  // A GET flagged as mutating is guarded like any other write
+  const flagged = await createHttpClient({ ...cfg, readOnly: true }, { auditLog: false }).get('/messaging/v1/example', { mutating: true }).catch((e) => e);
+  assert.ok(flagged instanceof WriteBlockedError);
+  assert.match(flagged.message, /read-only; GET /);
+
+  const issued = Date.now();
+  const token = confirmToken('t', '1', { a: 1, b: 2 }, issued);
+  assert.match(token, /^\d+\.[0-9a-f]{24}$/);
+  assert.equal(verifyConfirmToken(token, 't', '1', { b: 2, a: 1 }, issued), true);
+  assert.equal(verifyConfirmToken(token, 't', '2', { a: 1, b: 2 }, issued), false);
+  assert.equal(verifyConfirmToken(token, 't', '1', { a: 1, b: 3 }, issued), false);
+  assert.equal(verifyConfirmToken(token, 't', '1', { a: 1, b: 2 }, issued + CONFIRM_TOKEN_TTL_MS - 1000), true);
+  assert.equal(verifyConfirmToken(token, 't', '1', { a: 1, b: 2 }, issued + CONFIRM_TOKEN_TTL_MS + 1000), false);
+  const [issuedAt, signature] = token.split('.');
+  assert.equal(verifyConfirmToken(`${Number(issuedAt) + 60}.${signature}`, 't', '1', { a: 1, b: 2 }, issued + 60_000), false);
+  console.log('Write guard OK: dry run, read-only and protected profiles');
+
+  // Audit log: every request through createHttpClient is appended, including refused ones
+  const auditedHttp = createHttpClient({ ...cfg, profile: 'prod' }, { tool: 'robloxcloud-ds-set' });
+  let nextStatus = 200;
+  auditedHttp.defaults.adapter = async (config) => ({
+    data: '{}',
+    status: nextStatus,
+    statusText: '',
+    headers: { 'x-request-id': `req-${nextStatus}` },
+    config,
+  });
+  await setEntry(auditedHttp, cfg, 'Profiles', 'user_7', { coins: 3 });
+  nextStatus = 412;
+  await setEntry(auditedHttp, cfg, 'Profiles', 'user_8', { coins: 4 }, { ifMatch: '"old"' }).catch(() => {});
+
+  const allAudit = await queryAuditLog(auditLog);
+  assert.deepEqual(allAudit.entries.map((e) => e.outcome), ['dry-run', 'blocked', 'blocked', 'sent', 'sent']);
+  const written = allAudit.entries[3];
+  assert.equal(written.tool, 'robloxcloud-ds-set');
+  assert.equal(written.profile, 'prod');
+  assert.equal(written.method, 'POST');
+  assert.equal(written.path, `/datastores/v1/universes/${cfg.universeId}/standard-datastores/datastore/Profiles/entries/entry`);
+  assert.deepEqual([written.datastore, written.key, written.scope, written.status, written.requestId], ['Profiles', 'user_7', 'global', 200, 'req-200']);
+  assert.match(written.bodySha256, /^[0-9a-f]{64}$/);
+
+  assert.deepEqual((await queryAuditLog(auditLog, { key: 'user_8' })).entries.map((e) => e.status), [412]);
+  assert.deepEqual((await queryAuditLog(auditLog, { status: '4xx' })).entries.map((e) => e.key), ['user_8']);
+  assert.equal((await queryAuditLog(auditLog, { since: new Date(Date.now() + 60_000).toISOString() })).entries.length, 0);
+  assert.equal((await queryAuditLog(auditLog, { limit: 2 })).entries[1].key, 'user_8');
+  assert.deepEqual(auditTarget('/ordered-data-stores/v1/universes/1/orderedDataStores/Kills/scopes/global/entries/a:increment'), {
+    datastore: 'Kills',
+    scope: 'global',
+    key: 'a',
+  });
+  console.log('Audit log OK: entries recorded and filtered by key, status and time');
+
+
+  assert.equal(parseRetryAfter('2'), 2000);
+  assert.equal(parseRetryAfter(new Date(61_000).toUTCString(), 1_000), 60_000);
+  assert.equal(parseRetryAfter('soon'), undefined);
+  assert.deepEqual(parseRateLimitHeaders({ 'x-ratelimit-limit': '300, 300;w=60', 'x-ratelimit-remaining': '12' }), {
+    limit: 300,
+    remaining: 12,
+    resetSeconds: 60,
+  });
+  assert.equal(rateLimitKey('1', '/datastores/v1/universes/1/standard-datastores'), '1:datastores');
+  assert.equal(rateLimitKey('1', '/cloud/v2/universes/1/memory-store/queues/q/items'), '1:cloud:memory-store');
+
+  // An exhausted bucket delays the next request until a token refills
+  resetRateLimits();
+  const throttled = createHttpClient(cfg, { auditLog: false });
+  throttled.defaults.adapter = async (config) => ({
+    data: '{"datastores":[]}',
+    status: 200,
+    statusText: '',
+    headers: { 'x-ratelimit-limit': '5', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1' },
+    config,
+  });
+  await listDatastores(throttled, cfg);
+  const throttleStart = Date.now();
+  await listDatastores(throttled, cfg);
+  assert.ok(Date.now() - throttleStart >= 150, 'second request waits for a token');
+
+  // A window that resets in an hour fails fast instead of blocking every later call
+  resetRateLimits();
+  throttled.defaults.adapter = async (config) => ({
+    data: '{"datastores":[]}',
+    status: 200,
+    statusText: '',
+    headers: { 'x-ratelimit-limit': '1', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '3600' },
+    config,
+  });
+  await listDatastores(throttled, cfg);
+  const exhaustedStart = Date.now();
+  const exhausted = await listDatastores(throttled, cfg).catch((e) => e);
+  assert.ok(exhausted instanceof RateLimitedError, String(exhausted));
+  assert.ok(exhausted.retryAfterMs > MAX_RETRY_AFTER_MS);
+  assert.ok(Date.now() - exhaustedStart < 1000, 'nothing waits longer than MAX_RETRY_AFTER_MS');
+  resetRateLimits();
+  console.log('Rate limiter OK: Retry-After dates and x-ratelimit headers honoured');
 } catch (e) {
   console.error('Config load failed', e);
   process.exitCode = 1;
+} finally {
+  await rm(tmp, { recursive: true, force: true });
 }
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, writeFile, symlink, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { addTools } from '../dist/tools.js';
+import { findRobloxTsCompiler, compileRobloxTs } from '../dist/tool/roblox-ts-compiler.js';
+
+console.log('🧪 Testing roblox-ts compilation...');
+
+// A project whose node_modules has roblox-ts and @rbxts/types, e.g. a fresh
+// `npm init roblox-ts game`; the compile tests are skipped without one
+const rbxtsProject = process.env.RBXTS_TEST_PROJECT ? resolve(process.env.RBXTS_TEST_PROJECT) : undefined;
+
+const server = new Server({ name: 'compiler-test', version: '1.0.0' }, { capabilities: { tools: {} } });
+addTools(server);
+const client = new Client({ name: 'compiler-test-client', version: '1.0.0' });
+const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+const simulateBuild = async (args) => (await client.callTool({ name: 'simulate-build', arguments: args })).content[0].text;
+
+const tmp = await mkdtemp(join(tmpdir(), 'rbxts-compiler-'));
+try {
+  // Without roblox-ts the tool says so and falls back to the heuristic check
+  const bare = join(tmp, 'bare');
+  await mkdir(join(bare, 'src'), { recursive: true });
+  await writeFile(join(bare, 'src', 'util.ts'), 'export const double = (n: number) => n * 2;\n');
+  assert.equal(await findRobloxTsCompiler(bare), undefined);
+  const fallback = await simulateBuild({ projectRoot: bare, filePath: 'src/util.ts' });
+  assert.match(fallback, /^## Heuristic Build Check Passed/);
+  assert.match(fallback, /rbxtsc\) was not found in .*bare\/node_modules, so the code was NOT compiled/);
+  // The fallback only reads files inside the project
+  await writeFile(join(tmp, 'secret.ts'), 'export const secret = 1;\n');
+  for (const filePath of ['../secret.ts', join(tmp, 'secret.ts'), 'src/../../secret.ts']) {
+    await assert.rejects(simulateBuild({ projectRoot: bare, filePath }), (e) => e.code === -32602 && /inside the project/.test(e.message));
+  }
+  const noRoot = await simulateBuild({ code: 'const x = 1;' });
+  assert.match(noRoot, /No projectRoot was given/);
+  console.log('Fallback OK: heuristic check with a not-compiled warning, files outside the project refused');
+
+  if (!rbxtsProject || !(await findRobloxTsCompiler(rbxtsProject))) {
+    console.log('⏭️  Skipping compilation: set RBXTS_TEST_PROJECT to a project with roblox-ts installed');
+  } else {
+    // Monorepo layout: roblox-ts is only installed at the workspace root
+    const workspace = join(tmp, 'workspace');
+    const game = join(workspace, 'packages', 'game');
+    await mkdir(join(game, 'src', 'shared'), { recursive: true });
+    await symlink(join(rbxtsProject, 'node_modules'), join(workspace, 'node_modules'), 'junction');
+    await writeFile(join(game, 'package.json'), JSON.stringify({ name: 'game', private: true }));
+    await writeFile(join(game, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: {
+        allowSyntheticDefaultImports: true,
+        downlevelIteration: true,
+        module: 'commonjs',
+        moduleResolution: 'Node',
+        noLib: true,
+        moduleDetection: 'force',
+        strict: true,
+        target: 'ESNext',
+        typeRoots: ['node_modules/@rbxts'],
+        rootDir: 'src',
+        outDir: 'out',
+      },
+    }));
+    await writeFile(join(game, 'default.project.json'), JSON.stringify({
+      name: 'game',
+      tree: {
+        $className: 'DataModel',
+        ReplicatedStorage: {
+          $className: 'ReplicatedStorage',
+          rbxts_include: { $path: 'include' },
+          TS: { $path: 'out/shared' },
+        },
+      },
+    }));
+    await writeFile(join(game, 'src', 'shared', 'index.ts'), 'export function double(n: number) {\n\treturn n * 2;\n}\n');
+
+    const compiler = await findRobloxTsCompiler(game);
+    assert.ok(compiler);
+    assert.equal(compiler.nodeModules, join(workspace, 'node_modules'));
+
+    // index.ts is emitted as init.luau
+    const compiled = await compileRobloxTs(compiler, { projectRoot: game, filePath: 'src/shared/index.ts' });
+    assert.equal(compiled.success, true, compiled.diagnostics.join('\n'));
+    assert.match(compiled.luau, /local function double\(n\)/);
+
+    const viaTool = await simulateBuild({ projectRoot: game, code: 'const total: number = "x";' });
+    assert.match(viaTool, /^## Compilation Failed/);
+    assert.match(viaTool, /not assignable to type 'number'/);
+    console.log(`Compilation OK: roblox-ts ${compiler.version} from a workspace root, index.ts output found`);
+  }
+} catch (e) {
+  console.error('roblox-ts compilation test failed', e);
+  process.exitCode = 1;
+} finally {
+  await client.close();
+  await rm(tmp, { recursive: true, force: true });
+}
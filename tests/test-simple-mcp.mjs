@@ -61,7 +61,7 @@ async function testMCPServer() {
     id: 3,
     method: 'tools/call',
     params: {
-      name: 'gdd-manager',
+      name: 'manage-gdd',
       arguments: {
         action: 'read',
         file_path: 'test-gdd.md'
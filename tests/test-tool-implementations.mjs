@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { addTools } from '../dist/tools.js';
+import { simulateBuild, searchRobloxDocs, summarizeRobloxDocPage } from '../dist/tool/index.js';
+
+console.log('🧪 Testing the src/tool implementations the server serves...');
+
+const server = new Server({ name: 'tool-test', version: '1.0.0' }, { capabilities: { tools: {} } });
+addTools(server);
+const client = new Client({ name: 'tool-test-client', version: '1.0.0' });
+const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+const callTool = async (name, args) => (await client.callTool({ name, arguments: args })).content[0].text;
+
+try {
+  // The heuristic build check has both rule sets: browser APIs and services on the wrong side
+  const browser = simulateBuild('const data = fetch("https://example.com"); window.alert(data);', 'client');
+  assert.equal(browser.success, false);
+  assert.deepEqual(browser.errors, [
+    'Browser APIs like "document" and "window" are not available in Roblox Lua',
+    'HTTP APIs are not available in Roblox client - use HttpService on server',
+  ]);
+  const input = simulateBuild('import { UserInputService } from "@rbxts/services";', 'server');
+  assert.deepEqual(input.errors, ['Input services are not available on the server']);
+  assert.equal(simulateBuild('import { UserInputService } from "@rbxts/services";', 'client').success, true);
+
+  // The simulate-build tool serves the same check when no compiler is available
+  const served = await callTool('simulate-build', { code: 'import { UserInputService } from "@rbxts/services";', target: 'server' });
+  assert.match(served, /^## Heuristic Build Check Failed/);
+  assert.match(served, /- Input services are not available on the server/);
+  const passed = await callTool('simulate-build', { code: 'const part = new Instance("Part");', target: 'shared' });
+  assert.match(passed, /No common roblox-ts compilation issues detected for the shared target/);
+  console.log('Build simulation OK: one rule set, served by simulate-build');
+
+  // Documentation search without matching pages needs no network, and is cached
+  const query = 'nothing-matches-this-query';
+  assert.deepEqual(await searchRobloxDocs(query), { results: [] });
+  assert.deepEqual(await searchRobloxDocs(` ${query.toUpperCase()} `), { results: [], cached: true });
+  const searched = await callTool('search-roblox-docs', { query });
+  assert.match(searched, /\*\(Results from cache\)\*/);
+  assert.match(searched, /No relevant documentation found/);
+
+  // Only official documentation pages are summarized
+  const refused = await summarizeRobloxDocPage('https://example.com/docs');
+  assert.match(refused.error, /must be from official Roblox documentation/);
+  const servedRefusal = await callTool('summarize-roblox-doc', { url: 'https://example.com/docs' });
+  assert.match(servedRefusal, /^## Summarization Failed/);
+  assert.match(servedRefusal, /must be from official Roblox documentation/);
+  console.log('Documentation OK: cached search and URL check, served by the docs tools');
+} catch (e) {
+  console.error('Tool implementation test failed', e);
+  process.exitCode = 1;
+} finally {
+  await client.close();
+}